@@ -1,8 +1,21 @@
 import react from '@astrojs/react';
 import sitemap from '@astrojs/sitemap';
 import tailwind from '@astrojs/tailwind';
+import type { AstroIntegration } from 'astro';
 import { defineConfig } from 'astro/config';
 
+// WebGPUのパイプラインをCPU参照実装と比較するページ（開発サーバーのみ。本番のビルドには含めない）
+const webgpuCheck: AstroIntegration = {
+  name: 'webgpu-check',
+  hooks: {
+    'astro:config:setup': ({ command, injectRoute }) => {
+      if (command === 'dev') {
+        injectRoute({ pattern: '/dev/webgpu-check', entrypoint: './src/dev/webgpu-check.astro' });
+      }
+    },
+  },
+};
+
 // https://astro.build/config
 export default defineConfig({
   // サイトURLはGitHub Actionsで動的に設定される
@@ -12,7 +25,16 @@ export default defineConfig({
   outDir: './dist',
   publicDir: './public',
 
-  integrations: [react(), tailwind(), sitemap()],
+  integrations: [react(), tailwind(), sitemap(), webgpuCheck],
+
+  // 開発・プレビュー時はクロスオリジン分離してWorkerとの共有メモリ（SharedArrayBuffer）を有効にする
+  // GitHub Pages ではヘッダーを設定できないため、実行時に判定して通常の転送方式にフォールバックする
+  server: {
+    headers: {
+      'Cross-Origin-Opener-Policy': 'same-origin',
+      'Cross-Origin-Embedder-Policy': 'credentialless',
+    },
+  },
 
   vite: {
     plugins: [],
@@ -1,9 +1,12 @@
-import { useEffect, useMemo, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useFractalEngine } from '@/hooks/useFractalEngine';
 import { useFractalInteraction } from '@/hooks/useFractalInteraction';
+import { CanvasSize } from '@/lib/canvas-size';
+import { SettingsStore } from '@/lib/settings-store';
 import type { FractalType, TabId } from '@/types/fractal';
 import DesktopControlPanel from './fractal/DesktopControlPanel';
 import FractalCanvas, { type FractalCanvasRef } from './fractal/FractalCanvas';
+import HistoryBar from './fractal/HistoryBar';
 import JuliaDualView from './fractal/JuliaDualView';
 import MobileBottomSheet from './fractal/MobileBottomSheet';
 
@@ -31,29 +34,39 @@ const FractalExplorer: React.FC<FractalExplorerProps> = ({ className = '' }) =>
       const screenHeight = window.innerHeight;
 
       if (screenWidth < 1024) {
-        // モバイル: 画面の実際のサイズに合わせる（デバイスピクセル比考慮）
-        const devicePixelRatio = window.devicePixelRatio || 1;
-        const optimalWidth = Math.floor(screenWidth * devicePixelRatio);
-        const optimalHeight = Math.floor(screenHeight * devicePixelRatio);
-
-        // 最大解像度制限（パフォーマンス考慮）
-        const maxWidth = 2048;
-        const maxHeight = 2048;
-
-        return {
-          width: Math.min(optimalWidth, maxWidth),
-          height: Math.min(optimalHeight, maxHeight),
-        };
+        // モバイル: 画面の実際のサイズに合わせる（デバイスピクセル比考慮、最大解像度制限あり）
+        return CanvasSize.forMobileScreen(screenWidth, screenHeight, window.devicePixelRatio || 1);
       }
     }
-    return { width: 800, height: 600 }; // デスクトップ初期サイズ
+    // デスクトップは前回のセッションで選んだサイズ（保存されていなければ既定のサイズ）
+    const { width, height } = (SettingsStore.load() ?? SettingsStore.defaults()).renderSettings;
+    return { width, height };
   });
 
+  // デスクトップのプリセットのサイズは次回の起動時に復元する（プリセット以外は保存しない）
+  const selectCanvasSize = useCallback((size: { width: number; height: number }) => {
+    setCanvasSize(size);
+    if (CanvasSize.isDesktopPreset(size)) {
+      SettingsStore.update({ renderSettings: size });
+    }
+  }, []);
+
+  // 保存した設定を削除し、表示・設定・キャンバスサイズを既定に戻す
+  const resetSettings = () => {
+    fractalEngine.resetSettings();
+    if (!isMobile) {
+      const { width, height } = SettingsStore.defaults().renderSettings;
+      setCanvasSize({ width, height });
+    }
+  };
+
   // フラクタル操作フック
   const interaction = useFractalInteraction({
     parameters: fractalEngine.parameters,
     setParameters: fractalEngine.setParameters,
     canvasSize,
+    onGestureStart: fractalEngine.beginGesture,
+    onGestureEnd: fractalEngine.endGesture,
   });
 
   // 画面サイズ変更時の処理
@@ -67,18 +80,9 @@ const FractalExplorer: React.FC<FractalExplorerProps> = ({ className = '' }) =>
 
       if (isMobileDevice) {
         // モバイルの場合、画面サイズに合わせて動的調整
-        const devicePixelRatio = window.devicePixelRatio || 1;
-        const optimalWidth = Math.floor(screenWidth * devicePixelRatio);
-        const optimalHeight = Math.floor(screenHeight * devicePixelRatio);
-
-        // 最大解像度制限
-        const maxWidth = 2048;
-        const maxHeight = 2048;
-
-        setCanvasSize({
-          width: Math.min(optimalWidth, maxWidth),
-          height: Math.min(optimalHeight, maxHeight),
-        });
+        setCanvasSize(
+          CanvasSize.forMobileScreen(screenWidth, screenHeight, window.devicePixelRatio || 1)
+        );
       }
     };
 
@@ -102,7 +106,12 @@ const FractalExplorer: React.FC<FractalExplorerProps> = ({ className = '' }) =>
     if (!fractalEngine.isLoading && canvasRef.current && !fractalEngine.isDualView) {
       const context = canvasRef.current.getContext();
       if (context) {
-        fractalEngine.renderFractal(context, canvasSize);
+        fractalEngine.renderFractal(
+          context,
+          canvasSize,
+          canvasRef.current.getGPUCanvas(),
+          canvasRef.current.getPreviewCanvas()
+        );
       }
     }
   }, [fractalEngine.isLoading, canvasSize, fractalEngine.isDualView]);
@@ -114,7 +123,12 @@ const FractalExplorer: React.FC<FractalExplorerProps> = ({ className = '' }) =>
     const timeoutId = setTimeout(() => {
       const context = canvasRef.current?.getContext();
       if (context) {
-        fractalEngine.renderFractal(context, canvasSize);
+        fractalEngine.renderFractal(
+          context,
+          canvasSize,
+          canvasRef.current?.getGPUCanvas(),
+          canvasRef.current?.getPreviewCanvas()
+        );
       }
     }, 100);
 
@@ -123,12 +137,70 @@ const FractalExplorer: React.FC<FractalExplorerProps> = ({ className = '' }) =>
     fractalEngine.parameters,
     canvasSize,
     fractalEngine.paletteType,
+    fractalEngine.smoothColoring,
     fractalEngine.useWebGPU,
     fractalEngine.useMultiThread,
     fractalEngine.isLoading,
     fractalEngine.isDualView,
   ]);
 
+  // 元に戻す（Ctrl/⌘+Z）・やり直し（Ctrl/⌘+Shift+Z、Ctrl+Y）
+  // 入力欄では各欄の取り消しを優先する
+  const { undo, redo } = fractalEngine;
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z') {
+        event.preventDefault();
+        if (event.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+      } else if (key === 'y' && !event.shiftKey) {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // メタデータを埋め込んだPNGをドロップすると、保存時の表示を復元する
+  const { importImage } = fractalEngine;
+  useEffect(() => {
+    const handleDragOver = (event: DragEvent) => {
+      if (event.dataTransfer?.types.includes('Files')) {
+        event.preventDefault();
+        event.dataTransfer.dropEffect = 'copy';
+      }
+    };
+
+    const handleDrop = (event: DragEvent) => {
+      const file = event.dataTransfer?.files[0];
+      if (!file) return;
+      event.preventDefault();
+      void importImage(file).then((metadata) => {
+        // デスクトップでは保存時のキャンバスサイズも最大のプリセットに収めて復元する
+        // （モバイルは画面の大きさに合わせたまま）
+        const size = metadata && !isMobile ? CanvasSize.fitDesktop(metadata) : null;
+        if (size) selectCanvasSize(size);
+      });
+    };
+
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('drop', handleDrop);
+    return () => {
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('drop', handleDrop);
+    };
+  }, [importImage, isMobile, selectCanvasSize]);
+
   // エンジン情報の取得（メモ化）
   const engineInfo = useMemo(() => fractalEngine.getEngineInfo(), [fractalEngine.isLoading]);
 
@@ -181,7 +253,11 @@ const FractalExplorer: React.FC<FractalExplorerProps> = ({ className = '' }) =>
             >
               <div className="flex items-center gap-2">
                 <div className="h-3 w-3 animate-spin rounded-full border-2 border-primary-600 border-t-transparent"></div>
-                <span className="text-xs">{Math.round(fractalEngine.renderProgress * 100)}%</span>
+                <span className="text-xs">
+                  {fractalEngine.renderPass &&
+                    `${fractalEngine.renderPass.number}/${fractalEngine.renderPass.count} `}
+                  {Math.round(fractalEngine.renderProgress * 100)}%
+                </span>
               </div>
             </div>
           )}
@@ -212,6 +288,8 @@ const FractalExplorer: React.FC<FractalExplorerProps> = ({ className = '' }) =>
               onPointerUp={interaction.handlePointerUp}
               onClick={interaction.handleCanvasClick}
               canvasRef={interaction.canvasRef}
+              gpuPresented={fractalEngine.isGPUPresented}
+              previewVisible={fractalEngine.isPreviewVisible}
               className="h-full w-full object-cover"
             />
           </div>
@@ -232,6 +310,23 @@ const FractalExplorer: React.FC<FractalExplorerProps> = ({ className = '' }) =>
           </button>
         )}
 
+        {/* 履歴（元に戻す・やり直しとパンくずリスト） */}
+        <HistoryBar
+          entries={fractalEngine.history.entries}
+          index={fractalEngine.history.index}
+          canUndo={fractalEngine.canUndo}
+          canRedo={fractalEngine.canRedo}
+          onUndo={fractalEngine.undo}
+          onRedo={fractalEngine.redo}
+          onSelect={fractalEngine.goToHistory}
+          className="absolute z-10"
+          style={{
+            top: `calc(4rem + env(safe-area-inset-top))`,
+            left: `calc(1rem + env(safe-area-inset-left))`,
+            right: `calc(1rem + env(safe-area-inset-right))`,
+          }}
+        />
+
         {/* フローティングアクションボタン (FAB) */}
         <button
           type="button"
@@ -267,21 +362,39 @@ const FractalExplorer: React.FC<FractalExplorerProps> = ({ className = '' }) =>
           parameters={fractalEngine.parameters}
           updateZoom={fractalEngine.updateZoom}
           updateIterations={fractalEngine.updateIterations}
+          autoIterations={fractalEngine.autoIterations}
+          setAutoIterations={fractalEngine.setAutoIterations}
           updateParameters={fractalEngine.updateParameters}
           canvasSize={canvasSize}
-          setCanvasSize={setCanvasSize}
+          setCanvasSize={selectCanvasSize}
           paletteType={fractalEngine.paletteType}
           setPaletteType={fractalEngine.setPaletteType}
+          smoothColoring={fractalEngine.smoothColoring}
+          setSmoothColoring={fractalEngine.setSmoothColoring}
+          antiAliasing={fractalEngine.antiAliasing}
+          setAntiAliasing={fractalEngine.setAntiAliasing}
+          bookmarks={fractalEngine.bookmarks}
+          onAddBookmark={() => fractalEngine.addBookmark(canvasSize)}
+          onApplyBookmark={fractalEngine.applyBookmark}
+          onRenameBookmark={fractalEngine.renameBookmark}
+          onDeleteBookmark={fractalEngine.deleteBookmark}
+          onMoveBookmark={fractalEngine.moveBookmark}
+          onExportBookmarks={fractalEngine.exportBookmarks}
+          onImportBookmarks={fractalEngine.importBookmarks}
           useWebGPU={fractalEngine.useWebGPU}
           setUseWebGPU={fractalEngine.setUseWebGPU}
           useMultiThread={fractalEngine.useMultiThread}
           setUseMultiThread={fractalEngine.setUseMultiThread}
+          workerCount={fractalEngine.workerCount}
+          setWorkerCount={fractalEngine.setWorkerCount}
+          maxWorkers={fractalEngine.maxWorkers}
           resetView={fractalEngine.resetView}
+          onResetSettings={resetSettings}
           renderProgress={fractalEngine.renderProgress}
           coordinates={interaction.coordinates}
           performanceMetrics={fractalEngine.performanceMetrics}
           webGPUSupported={engineInfo.webGPUSupported}
-          availableWorkers={engineInfo.availableWorkers}
+          availableWorkers={fractalEngine.workerCount}
           // デュアルビューモード関連の追加
           isDualViewAvailable={fractalEngine.fractalType === 'julia'}
           onEnterDualView={fractalEngine.enterDualView}
@@ -299,23 +412,44 @@ const FractalExplorer: React.FC<FractalExplorerProps> = ({ className = '' }) =>
         parameters={fractalEngine.parameters}
         updateZoom={fractalEngine.updateZoom}
         updateIterations={fractalEngine.updateIterations}
+        autoIterations={fractalEngine.autoIterations}
+        setAutoIterations={fractalEngine.setAutoIterations}
         updateParameters={fractalEngine.updateParameters}
         canvasSize={canvasSize}
-        setCanvasSize={setCanvasSize}
+        setCanvasSize={selectCanvasSize}
         paletteType={fractalEngine.paletteType}
         setPaletteType={fractalEngine.setPaletteType}
+        smoothColoring={fractalEngine.smoothColoring}
+        setSmoothColoring={fractalEngine.setSmoothColoring}
+        antiAliasing={fractalEngine.antiAliasing}
+        setAntiAliasing={fractalEngine.setAntiAliasing}
+        bookmarks={fractalEngine.bookmarks}
+        onAddBookmark={() => fractalEngine.addBookmark(canvasSize)}
+        onApplyBookmark={fractalEngine.applyBookmark}
+        onRenameBookmark={fractalEngine.renameBookmark}
+        onDeleteBookmark={fractalEngine.deleteBookmark}
+        onMoveBookmark={fractalEngine.moveBookmark}
+        onExportBookmarks={fractalEngine.exportBookmarks}
+        onImportBookmarks={fractalEngine.importBookmarks}
+        posterProgress={fractalEngine.posterProgress}
+        onExportPoster={fractalEngine.exportPoster}
+        onCancelPosterExport={fractalEngine.cancelPosterExport}
         useWebGPU={fractalEngine.useWebGPU}
         setUseWebGPU={fractalEngine.setUseWebGPU}
         useMultiThread={fractalEngine.useMultiThread}
         setUseMultiThread={fractalEngine.setUseMultiThread}
+        workerCount={fractalEngine.workerCount}
+        setWorkerCount={fractalEngine.setWorkerCount}
+        maxWorkers={fractalEngine.maxWorkers}
         enableAnimation={fractalEngine.enableAnimation}
         setEnableAnimation={fractalEngine.setEnableAnimation}
         resetView={fractalEngine.resetView}
+        onResetSettings={resetSettings}
         renderProgress={fractalEngine.renderProgress}
         coordinates={interaction.coordinates}
         performanceMetrics={fractalEngine.performanceMetrics}
         webGPUSupported={engineInfo.webGPUSupported}
-        availableWorkers={engineInfo.availableWorkers}
+        availableWorkers={fractalEngine.workerCount}
         // デュアルビューモード関連の追加
         isDualViewAvailable={fractalEngine.fractalType === 'julia'}
         onEnterDualView={fractalEngine.enterDualView}
@@ -336,7 +470,12 @@ const FractalExplorer: React.FC<FractalExplorerProps> = ({ className = '' }) =>
           <div className="absolute top-4 left-4 z-10 rounded-lg bg-black/70 px-3 py-2 text-white">
             <div className="flex items-center gap-2">
               <div className="h-4 w-4 animate-spin rounded-full border-2 border-primary-600 border-t-transparent"></div>
-              <span>レンダリング中... {Math.round(fractalEngine.renderProgress * 100)}%</span>
+              <span>
+                レンダリング中...
+                {fractalEngine.renderPass &&
+                  ` (パス ${fractalEngine.renderPass.number}/${fractalEngine.renderPass.count})`}{' '}
+                {Math.round(fractalEngine.renderProgress * 100)}%
+              </span>
             </div>
           </div>
         )}
@@ -365,6 +504,20 @@ const FractalExplorer: React.FC<FractalExplorerProps> = ({ className = '' }) =>
           onPointerUp={interaction.handlePointerUp}
           onClick={interaction.handleCanvasClick}
           canvasRef={interaction.canvasRef}
+          gpuPresented={fractalEngine.isGPUPresented}
+          previewVisible={fractalEngine.isPreviewVisible}
+        />
+
+        {/* 履歴（元に戻す・やり直しとパンくずリスト） */}
+        <HistoryBar
+          entries={fractalEngine.history.entries}
+          index={fractalEngine.history.index}
+          canUndo={fractalEngine.canUndo}
+          canRedo={fractalEngine.canRedo}
+          onUndo={fractalEngine.undo}
+          onRedo={fractalEngine.redo}
+          onSelect={fractalEngine.goToHistory}
+          className="absolute right-4 bottom-4 left-4 z-10"
         />
 
         {/* Overlay Controls */}
@@ -391,8 +544,8 @@ const FractalExplorer: React.FC<FractalExplorerProps> = ({ className = '' }) =>
           <button
             type="button"
             className="rounded-lg bg-gray-800/90 p-2 text-white transition-colors hover:bg-gray-700/90"
-            title="画像を保存 (準備中)"
-            disabled
+            onClick={() => fractalEngine.exportImage(canvasSize)}
+            title="画像を保存（PNGにパラメータを埋め込み、ドロップで復元）"
           >
             ⤓
           </button>
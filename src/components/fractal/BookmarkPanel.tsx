@@ -0,0 +1,167 @@
+import { useRef, useState } from 'react';
+import type { FractalBookmark } from '@/types/fractal';
+
+interface BookmarkPanelProps {
+  bookmarks: FractalBookmark[];
+  onAdd: () => void;
+  onApply: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onMove: (id: string, offset: number) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+export default function BookmarkPanel({
+  bookmarks,
+  onAdd,
+  onApply,
+  onRename,
+  onDelete,
+  onMove,
+  onExport,
+  onImport,
+}: BookmarkPanelProps) {
+  // 名前を編集中のブックマーク
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const startEditing = (bookmark: FractalBookmark) => {
+    setEditingId(bookmark.id);
+    setEditingName(bookmark.name);
+  };
+
+  const finishEditing = () => {
+    if (editingId) {
+      onRename(editingId, editingName);
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <button
+        type="button"
+        onClick={onAdd}
+        className="w-full rounded-lg bg-primary-600 px-3 py-2 text-sm text-white transition-colors hover:bg-primary-700"
+      >
+        現在の表示を保存
+      </button>
+
+      {bookmarks.length === 0 ? (
+        <p className="text-gray-500 text-xs">保存したブックマークはありません</p>
+      ) : (
+        <ul className="space-y-2">
+          {bookmarks.map((bookmark, index) => (
+            <li key={bookmark.id} className="flex items-center gap-2 rounded-lg bg-gray-700/50 p-2">
+              <button
+                type="button"
+                onClick={() => onApply(bookmark.id)}
+                className="h-12 w-16 flex-shrink-0 overflow-hidden rounded bg-gray-800"
+                title="この表示に移動"
+              >
+                {bookmark.thumbnail && (
+                  <img
+                    src={bookmark.thumbnail}
+                    alt={bookmark.name}
+                    className="h-full w-full object-cover"
+                  />
+                )}
+              </button>
+
+              <div className="min-w-0 flex-1">
+                {editingId === bookmark.id ? (
+                  <input
+                    type="text"
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onBlur={finishEditing}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') finishEditing();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="w-full rounded border border-gray-600 bg-gray-700 px-2 py-1 text-gray-300 text-sm"
+                    aria-label="ブックマーク名"
+                  />
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => onApply(bookmark.id)}
+                    className="block w-full truncate text-left text-gray-300 text-sm hover:text-white"
+                  >
+                    {bookmark.name}
+                  </button>
+                )}
+                <div className="mt-1 flex gap-1 text-xs">
+                  <button
+                    type="button"
+                    onClick={() => onMove(bookmark.id, -1)}
+                    disabled={index === 0}
+                    className="rounded px-1 text-gray-400 hover:text-white disabled:opacity-30"
+                    title="上へ"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onMove(bookmark.id, 1)}
+                    disabled={index === bookmarks.length - 1}
+                    className="rounded px-1 text-gray-400 hover:text-white disabled:opacity-30"
+                    title="下へ"
+                  >
+                    ↓
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => startEditing(bookmark)}
+                    className="rounded px-1 text-gray-400 hover:text-white"
+                  >
+                    名前を変更
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onDelete(bookmark.id)}
+                    className="rounded px-1 text-red-400 hover:text-red-300"
+                  >
+                    削除
+                  </button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={onExport}
+          disabled={bookmarks.length === 0}
+          className="flex-1 rounded-lg border border-gray-600 bg-gray-700/50 px-3 py-1 text-gray-300 text-xs hover:bg-gray-600/50 disabled:opacity-50"
+        >
+          JSONで書き出し
+        </button>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="flex-1 rounded-lg border border-gray-600 bg-gray-700/50 px-3 py-1 text-gray-300 text-xs hover:bg-gray-600/50"
+        >
+          JSONから読み込み
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            // 同じファイルを続けて選べるようにする
+            e.target.value = '';
+          }}
+        />
+      </div>
+    </div>
+  );
+}
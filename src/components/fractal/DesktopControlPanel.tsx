@@ -1,12 +1,21 @@
+import { CanvasSize } from '@/lib/canvas-size';
 import type { PerformanceMetrics } from '@/lib/fractal-engine';
 import { ColorPalette } from '@/lib/fractal-utils';
+import type { PosterExportProgress } from '@/lib/poster-export';
+import { Supersampling } from '@/lib/supersampling';
 import type {
   AllFractalParameters,
+  AntiAliasingSettings,
+  DownsamplingFilter,
+  FractalBookmark,
   FractalType,
   JuliaParameters,
   NewtonParameters,
+  SupersamplingPattern,
 } from '@/types/fractal';
+import BookmarkPanel from './BookmarkPanel';
 import NewtonRootEditor from './NewtonRootEditor';
+import PosterExportPanel from './PosterExportPanel';
 
 interface DesktopControlPanelProps {
   fractalType: FractalType;
@@ -14,18 +23,39 @@ interface DesktopControlPanelProps {
   parameters: AllFractalParameters;
   updateZoom: (value: number) => void;
   updateIterations: (value: number) => void;
+  autoIterations: boolean;
+  setAutoIterations: (value: boolean) => void;
   updateParameters: (updates: Partial<AllFractalParameters>) => void;
   canvasSize: { width: number; height: number };
   setCanvasSize: (size: { width: number; height: number }) => void;
   paletteType: string;
   setPaletteType: (type: string) => void;
+  smoothColoring: boolean;
+  setSmoothColoring: (value: boolean) => void;
+  antiAliasing: AntiAliasingSettings;
+  setAntiAliasing: (settings: AntiAliasingSettings) => void;
+  posterProgress: PosterExportProgress | null;
+  onExportPoster: (size: { width: number; height: number }) => void;
+  onCancelPosterExport: () => void;
+  bookmarks: FractalBookmark[];
+  onAddBookmark: () => void;
+  onApplyBookmark: (id: string) => void;
+  onRenameBookmark: (id: string, name: string) => void;
+  onDeleteBookmark: (id: string) => void;
+  onMoveBookmark: (id: string, offset: number) => void;
+  onExportBookmarks: () => void;
+  onImportBookmarks: (file: File) => void;
   useWebGPU: boolean;
   setUseWebGPU: (value: boolean) => void;
   useMultiThread: boolean;
   setUseMultiThread: (value: boolean) => void;
+  workerCount: number;
+  setWorkerCount: (count: number) => void;
+  maxWorkers: number;
   enableAnimation: boolean;
   setEnableAnimation: (value: boolean) => void;
   resetView: () => void;
+  onResetSettings: () => void;
   renderProgress: number;
   coordinates: { x: number; y: number };
   performanceMetrics: PerformanceMetrics | null;
@@ -42,18 +72,39 @@ const DesktopControlPanel: React.FC<DesktopControlPanelProps> = ({
   parameters,
   updateZoom,
   updateIterations,
+  autoIterations,
+  setAutoIterations,
   updateParameters,
   canvasSize,
   setCanvasSize,
   paletteType,
   setPaletteType,
+  smoothColoring,
+  setSmoothColoring,
+  antiAliasing,
+  setAntiAliasing,
+  posterProgress,
+  onExportPoster,
+  onCancelPosterExport,
+  bookmarks,
+  onAddBookmark,
+  onApplyBookmark,
+  onRenameBookmark,
+  onDeleteBookmark,
+  onMoveBookmark,
+  onExportBookmarks,
+  onImportBookmarks,
   useWebGPU,
   setUseWebGPU,
   useMultiThread,
   setUseMultiThread,
+  workerCount,
+  setWorkerCount,
+  maxWorkers,
   enableAnimation,
   setEnableAnimation,
   resetView,
+  onResetSettings,
   renderProgress,
   coordinates,
   performanceMetrics,
@@ -69,12 +120,10 @@ const DesktopControlPanel: React.FC<DesktopControlPanelProps> = ({
     { value: 'newton', label: 'Newton Fractal', color: 'text-fractal-newton' },
   ];
 
-  const canvasSizes = [
-    { label: '800×600', width: 800, height: 600 },
-    { label: '1024×768', width: 1024, height: 768 },
-    { label: '1920×1080', width: 1920, height: 1080 },
-    { label: '2560×1440', width: 2560, height: 1440 },
-  ];
+  // 画像から復元したプリセット以外のサイズは選択肢に加えて表示する
+  const canvasSizes = CanvasSize.isDesktopPreset(canvasSize)
+    ? CanvasSize.desktopPresets
+    : [...CanvasSize.desktopPresets, canvasSize];
 
   return (
     <div className="w-full overflow-y-auto border-gray-700 border-r bg-gray-800/90 backdrop-blur-sm lg:w-80">
@@ -148,6 +197,17 @@ const DesktopControlPanel: React.FC<DesktopControlPanelProps> = ({
                   className="w-full rounded-lg border border-gray-600 bg-gray-700 px-3 py-2 text-gray-300 focus:border-primary-500 focus:outline-none"
                   placeholder="10 〜 100000"
                 />
+                <label className="mt-1 flex items-center">
+                  <input
+                    type="checkbox"
+                    className="rounded text-primary-600"
+                    checked={autoIterations}
+                    onChange={(e) => setAutoIterations(e.target.checked)}
+                  />
+                  <span className="ml-2 text-gray-400 text-xs">
+                    自動調整（ズームに合わせて増減、手動入力で解除）
+                  </span>
+                </label>
               </div>
             )}
 
@@ -249,8 +309,8 @@ const DesktopControlPanel: React.FC<DesktopControlPanelProps> = ({
             className="w-full rounded-lg border border-gray-600 bg-gray-700 px-3 py-2 text-gray-300"
           >
             {canvasSizes.map((size) => (
-              <option key={size.label} value={`${size.width}x${size.height}`}>
-                {size.label}
+              <option key={`${size.width}x${size.height}`} value={`${size.width}x${size.height}`}>
+                {size.width}×{size.height}
               </option>
             ))}
           </select>
@@ -270,6 +330,104 @@ const DesktopControlPanel: React.FC<DesktopControlPanelProps> = ({
               </option>
             ))}
           </select>
+          <div className="mt-3">
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                className="rounded text-primary-600"
+                checked={smoothColoring}
+                onChange={(e) => setSmoothColoring(e.target.checked)}
+              />
+              <span className="ml-2 text-gray-300 text-sm">スムーズカラーリング</span>
+            </label>
+            <p className="ml-6 text-gray-500 text-xs">反復回数を連続値にして色の縞を解消</p>
+          </div>
+        </div>
+
+        {/* Anti-aliasing */}
+        <div className="mb-6">
+          <div className="mb-3 block font-medium text-gray-300 text-sm">
+            画像保存時のアンチエイリアス
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <select
+              value={antiAliasing.factor}
+              onChange={(e) =>
+                setAntiAliasing({ ...antiAliasing, factor: parseInt(e.target.value, 10) })
+              }
+              className="rounded-lg border border-gray-600 bg-gray-700 px-2 py-2 text-gray-300 text-sm"
+              title="1画素あたりのサンプル数"
+            >
+              {Supersampling.factors().map((factor) => (
+                <option key={factor} value={factor}>
+                  {factor === 1 ? 'なし' : `${factor}×${factor}`}
+                </option>
+              ))}
+            </select>
+            <select
+              value={antiAliasing.pattern}
+              onChange={(e) =>
+                setAntiAliasing({
+                  ...antiAliasing,
+                  pattern: e.target.value as SupersamplingPattern,
+                })
+              }
+              className="rounded-lg border border-gray-600 bg-gray-700 px-2 py-2 text-gray-300 text-sm"
+              title="サンプルの配置"
+            >
+              <option value="grid">格子</option>
+              <option value="stratified">層化</option>
+            </select>
+            <select
+              value={antiAliasing.filter}
+              onChange={(e) =>
+                setAntiAliasing({ ...antiAliasing, filter: e.target.value as DownsamplingFilter })
+              }
+              className="rounded-lg border border-gray-600 bg-gray-700 px-2 py-2 text-gray-300 text-sm"
+              title="縮小フィルタ"
+            >
+              <option value="box">Box</option>
+              <option value="gaussian">Gaussian</option>
+              <option value="lanczos">Lanczos</option>
+            </select>
+          </div>
+          <div className="mt-3">
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                className="rounded text-primary-600"
+                checked={antiAliasing.adaptive}
+                onChange={(e) => setAntiAliasing({ ...antiAliasing, adaptive: e.target.checked })}
+              />
+              <span className="ml-2 text-gray-300 text-sm">適応型</span>
+            </label>
+            <p className="ml-6 text-gray-500 text-xs">色が大きく変わる境界の画素だけを細かく計算</p>
+          </div>
+        </div>
+
+        {/* Bookmarks */}
+        <div className="mb-6">
+          <div className="mb-3 block font-medium text-gray-300 text-sm">ブックマーク</div>
+          <BookmarkPanel
+            bookmarks={bookmarks}
+            onAdd={onAddBookmark}
+            onApply={onApplyBookmark}
+            onRename={onRenameBookmark}
+            onDelete={onDeleteBookmark}
+            onMove={onMoveBookmark}
+            onExport={onExportBookmarks}
+            onImport={onImportBookmarks}
+          />
+        </div>
+
+        {/* Poster Export */}
+        <div className="mb-6">
+          <div className="mb-3 block font-medium text-gray-300 text-sm">ポスター書き出し</div>
+          <PosterExportPanel
+            progress={posterProgress}
+            onExport={onExportPoster}
+            onCancel={onCancelPosterExport}
+          />
         </div>
 
         {/* Rendering Options */}
@@ -304,6 +462,20 @@ const DesktopControlPanel: React.FC<DesktopControlPanelProps> = ({
                 </span>
               </label>
               <p className="ml-6 text-gray-500 text-xs">Web Workersで並列CPU計算</p>
+              {useMultiThread && availableWorkers > 0 && (
+                <div className="mt-2 ml-6">
+                  <div className="mb-1 block text-gray-400 text-xs">スレッド数: {workerCount}</div>
+                  <input
+                    type="range"
+                    min="1"
+                    max={maxWorkers}
+                    step="1"
+                    value={workerCount}
+                    onChange={(e) => setWorkerCount(parseInt(e.target.value, 10))}
+                    className="slider h-2 w-full cursor-pointer appearance-none rounded-lg bg-gray-700"
+                  />
+                </div>
+              )}
             </div>
 
             <div>
@@ -362,6 +534,14 @@ const DesktopControlPanel: React.FC<DesktopControlPanelProps> = ({
           >
             ビューをリセット
           </button>
+
+          <button
+            type="button"
+            onClick={onResetSettings}
+            className="w-full rounded-lg border border-gray-600 bg-gray-700/50 px-4 py-2 text-gray-300 text-sm transition-colors hover:bg-gray-600/50"
+          >
+            設定を初期化
+          </button>
         </div>
 
         {/* Performance */}
@@ -403,6 +583,16 @@ const DesktopControlPanel: React.FC<DesktopControlPanelProps> = ({
                 レンダリング回数:{' '}
                 <span className="text-gray-400">{performanceMetrics.renderCount}</span>
               </div>
+              {performanceMetrics.workerUtilization.length > 0 && (
+                <div>
+                  Worker稼働率:{' '}
+                  <span className="text-purple-400">
+                    {performanceMetrics.workerUtilization
+                      .map((utilization) => `${Math.round(utilization * 100)}%`)
+                      .join(' ')}
+                  </span>
+                </div>
+              )}
             </div>
           )}
           <div className="mt-2 text-gray-500 text-xs">
@@ -10,11 +10,17 @@ interface FractalCanvasProps {
   onClick: (event: React.MouseEvent) => void;
   className?: string;
   canvasRef?: React.RefObject<HTMLCanvasElement | null>;
+  // WebGPUで直接表示したフレームを前面のキャンバスに表示中か
+  gpuPresented?: boolean;
+  // 前のフレームを変形したプレビューを表示中か
+  previewVisible?: boolean;
 }
 
 export interface FractalCanvasRef {
   getCanvas: () => HTMLCanvasElement | null;
   getContext: () => CanvasRenderingContext2D | null;
+  getGPUCanvas: () => HTMLCanvasElement | null;
+  getPreviewCanvas: () => HTMLCanvasElement | null;
 }
 
 const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(
@@ -28,39 +34,78 @@ const FractalCanvas = forwardRef<FractalCanvasRef, FractalCanvasProps>(
       onClick,
       className = '',
       canvasRef: externalCanvasRef,
+      gpuPresented = false,
+      previewVisible = false,
     },
     ref
   ) => {
     const internalCanvasRef = useRef<HTMLCanvasElement>(null);
     const canvasRef = externalCanvasRef || internalCanvasRef;
+    // WebGPU表示用（1つのキャンバスに2Dとwebgpuのコンテキストは共存できないため重ねて配置）
+    const gpuCanvasRef = useRef<HTMLCanvasElement>(null);
+    // パン・ズーム直後に前のフレームを変形して表示し、計算中の描画を覆う
+    const previewCanvasRef = useRef<HTMLCanvasElement>(null);
 
     useImperativeHandle(
       ref,
       () => ({
         getCanvas: () => canvasRef.current,
         getContext: () => canvasRef.current?.getContext('2d') || null,
+        getGPUCanvas: () => gpuCanvasRef.current,
+        getPreviewCanvas: () => previewCanvasRef.current,
       }),
       [canvasRef]
     );
 
+    const objectFit = className.includes('object-cover') ? 'cover' : 'contain';
+
     return (
-      <canvas
-        ref={canvasRef}
-        width={canvasSize.width}
-        height={canvasSize.height}
-        className={`h-full w-full cursor-crosshair ${className}`}
-        style={{
-          imageRendering: 'pixelated',
-          maxWidth: '100%',
-          maxHeight: '100%',
-          objectFit: className.includes('object-cover') ? 'cover' : 'contain',
-          touchAction: 'none', // モバイルでのタッチ操作最適化
-        }}
-        onPointerDown={onPointerDown}
-        onPointerMove={onPointerMove}
-        onPointerUp={onPointerUp}
-        onClick={onClick}
-      />
+      <div className="relative h-full w-full">
+        <canvas
+          ref={canvasRef}
+          width={canvasSize.width}
+          height={canvasSize.height}
+          className={`h-full w-full cursor-crosshair ${className}`}
+          style={{
+            imageRendering: 'pixelated',
+            maxWidth: '100%',
+            maxHeight: '100%',
+            objectFit,
+            touchAction: 'none', // モバイルでのタッチ操作最適化
+          }}
+          onPointerDown={onPointerDown}
+          onPointerMove={onPointerMove}
+          onPointerUp={onPointerUp}
+          onClick={onClick}
+        />
+        {/* 操作イベントは下の2Dキャンバスで受けるため pointer-events を無効化 */}
+        <canvas
+          ref={previewCanvasRef}
+          width={canvasSize.width}
+          height={canvasSize.height}
+          className={`pointer-events-none absolute inset-0 h-full w-full ${className}`}
+          style={{
+            imageRendering: 'pixelated',
+            maxWidth: '100%',
+            maxHeight: '100%',
+            objectFit,
+            visibility: previewVisible ? 'visible' : 'hidden',
+          }}
+        />
+        <canvas
+          ref={gpuCanvasRef}
+          width={canvasSize.width}
+          height={canvasSize.height}
+          className={`pointer-events-none absolute inset-0 h-full w-full ${className}`}
+          style={{
+            imageRendering: 'pixelated',
+            maxWidth: '100%',
+            maxHeight: '100%',
+            objectFit,
+            visibility: gpuPresented ? 'visible' : 'hidden',
+          }}
+        />
+      </div>
     );
   }
 );
@@ -0,0 +1,87 @@
+import { useEffect, useRef } from 'react';
+import type { HistoryEntry } from '@/lib/navigation-history';
+
+interface HistoryBarProps {
+  entries: HistoryEntry[];
+  index: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onSelect: (index: number) => void;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+/**
+ * 元に戻す・やり直しのボタンと、履歴のサムネイルを並べたパンくずリスト
+ */
+export default function HistoryBar({
+  entries,
+  index,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onSelect,
+  className = '',
+  style,
+}: HistoryBarProps) {
+  const currentRef = useRef<HTMLButtonElement>(null);
+
+  // 現在の項目が見えるようにスクロール
+  useEffect(() => {
+    if (index >= 0) {
+      currentRef.current?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+    }
+  }, [index]);
+
+  return (
+    <div
+      className={`flex items-center gap-2 rounded-lg bg-gray-800/90 p-2 ${className}`}
+      style={style}
+    >
+      <button
+        type="button"
+        onClick={onUndo}
+        disabled={!canUndo}
+        className="rounded-lg px-2 py-1 text-white transition-colors hover:bg-gray-700/90 disabled:opacity-30"
+        title="元に戻す (Ctrl+Z)"
+      >
+        ↶
+      </button>
+      <button
+        type="button"
+        onClick={onRedo}
+        disabled={!canRedo}
+        className="rounded-lg px-2 py-1 text-white transition-colors hover:bg-gray-700/90 disabled:opacity-30"
+        title="やり直し (Ctrl+Shift+Z)"
+      >
+        ↷
+      </button>
+
+      <div className="flex min-w-0 flex-1 gap-1 overflow-x-auto">
+        {entries.map((entry, entryIndex) => (
+          <button
+            type="button"
+            key={entry.id}
+            ref={entryIndex === index ? currentRef : undefined}
+            onClick={() => onSelect(entryIndex)}
+            className={`h-9 w-12 flex-shrink-0 overflow-hidden rounded border-2 bg-gray-900 ${
+              entryIndex === index
+                ? 'border-primary-400'
+                : entryIndex > index
+                  ? 'border-transparent opacity-50'
+                  : 'border-transparent'
+            }`}
+            title={`${entry.view.fractalType} ×${entry.view.parameters.zoom.toPrecision(3)}`}
+          >
+            {entry.thumbnail && (
+              <img src={entry.thumbnail} alt="" className="h-full w-full object-cover" />
+            )}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
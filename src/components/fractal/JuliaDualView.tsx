@@ -1,5 +1,5 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
-import { FractalEngine } from '@/lib/fractal-engine';
+import { FractalEngine, type RenderedFrame } from '@/lib/fractal-engine';
 import { ColorPalette, getDefaultParameters } from '@/lib/fractal-utils';
 import type { Complex, JuliaParameters, MandelbrotParameters } from '@/types/fractal';
 
@@ -20,6 +20,7 @@ const JuliaDualView: React.FC<JuliaDualViewProps> = ({
   const juliaRenderTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const isInitializedRef = useRef<boolean>(false);
   const mandelbrotImageDataRef = useRef<ImageData | null>(null); // マンデルブロ集合の画像データを保存
+  const mandelbrotFrameRef = useRef<RenderedFrame | null>(null); // パレット変更時の再着色用
   const lastJuliaParamsRef = useRef<string>(''); // ジュリア集合の前回パラメータキャッシュ
   const dragEndTimeoutRef = useRef<NodeJS.Timeout | null>(null); // ドラッグ終了時の高解像度レンダリング用
 
@@ -270,6 +271,13 @@ const JuliaDualView: React.FC<JuliaDualViewProps> = ({
 
       // マンデルブロ集合の画像データを保存
       mandelbrotImageDataRef.current = result.imageData;
+      mandelbrotFrameRef.current = {
+        fractalType: 'mandelbrot',
+        parameters: mandelbrotParams,
+        iterationData: result.iterationData,
+        smooth: false,
+        method: result.method,
+      };
       ctx.putImageData(result.imageData, 0, 0);
 
       // 初期の点を描画
@@ -306,6 +314,21 @@ const JuliaDualView: React.FC<JuliaDualViewProps> = ({
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
+    // 同じサイズで計算済みなら、反復回数を計算し直さずに再着色する
+    const frame = mandelbrotFrameRef.current;
+    const recolored =
+      frame &&
+      frame.iterationData.width === canvasSize.mandelbrot.renderWidth &&
+      frame.iterationData.height === canvasSize.mandelbrot.renderHeight
+        ? fractalEngineRef.current.recolor({ paletteType: selectedPalette }, frame)
+        : null;
+    if (recolored) {
+      mandelbrotImageDataRef.current = recolored;
+      ctx.putImageData(recolored, 0, 0);
+      drawCurrentPoint(ctx, currentC);
+      return;
+    }
+
     // console.log('🎨 マンデルブロ集合: パレット変更による再レンダリング');
     setIsMandelbrotRendering(true);
 
@@ -329,6 +352,13 @@ const JuliaDualView: React.FC<JuliaDualViewProps> = ({
 
       // 新しい画像データを保存
       mandelbrotImageDataRef.current = result.imageData;
+      mandelbrotFrameRef.current = {
+        fractalType: 'mandelbrot',
+        parameters: mandelbrotParams,
+        iterationData: result.iterationData,
+        smooth: false,
+        method: result.method,
+      };
       ctx.putImageData(result.imageData, 0, 0);
 
       // 現在の点を描画
@@ -1,7 +1,18 @@
 import { useCallback, useRef, useState } from 'react';
 import type { PerformanceMetrics } from '@/lib/fractal-engine';
 import { ColorPalette } from '@/lib/fractal-utils';
-import type { AllFractalParameters, FractalType, NewtonParameters, TabId } from '@/types/fractal';
+import { Supersampling } from '@/lib/supersampling';
+import type {
+  AllFractalParameters,
+  AntiAliasingSettings,
+  DownsamplingFilter,
+  FractalBookmark,
+  FractalType,
+  NewtonParameters,
+  SupersamplingPattern,
+  TabId,
+} from '@/types/fractal';
+import BookmarkPanel from './BookmarkPanel';
 import NewtonRootEditor from './NewtonRootEditor';
 
 interface MobileBottomSheetProps {
@@ -14,16 +25,34 @@ interface MobileBottomSheetProps {
   parameters: AllFractalParameters;
   updateZoom: (value: number) => void;
   updateIterations: (value: number) => void;
+  autoIterations: boolean;
+  setAutoIterations: (value: boolean) => void;
   updateParameters: (params: Partial<AllFractalParameters>) => void;
   canvasSize: { width: number; height: number };
   setCanvasSize: (size: { width: number; height: number }) => void;
   paletteType: string;
   setPaletteType: (type: string) => void;
+  smoothColoring: boolean;
+  setSmoothColoring: (value: boolean) => void;
+  antiAliasing: AntiAliasingSettings;
+  setAntiAliasing: (settings: AntiAliasingSettings) => void;
+  bookmarks: FractalBookmark[];
+  onAddBookmark: () => void;
+  onApplyBookmark: (id: string) => void;
+  onRenameBookmark: (id: string, name: string) => void;
+  onDeleteBookmark: (id: string) => void;
+  onMoveBookmark: (id: string, offset: number) => void;
+  onExportBookmarks: () => void;
+  onImportBookmarks: (file: File) => void;
   useWebGPU: boolean;
   setUseWebGPU: (value: boolean) => void;
   useMultiThread: boolean;
   setUseMultiThread: (value: boolean) => void;
+  workerCount: number;
+  setWorkerCount: (count: number) => void;
+  maxWorkers: number;
   resetView: () => void;
+  onResetSettings: () => void;
   renderProgress: number;
   coordinates: { x: number; y: number };
   performanceMetrics: PerformanceMetrics | null;
@@ -44,16 +73,34 @@ const MobileBottomSheet: React.FC<MobileBottomSheetProps> = ({
   parameters,
   updateZoom,
   updateIterations,
+  autoIterations,
+  setAutoIterations,
   updateParameters,
   canvasSize,
   setCanvasSize,
   paletteType,
   setPaletteType,
+  smoothColoring,
+  setSmoothColoring,
+  antiAliasing,
+  setAntiAliasing,
+  bookmarks,
+  onAddBookmark,
+  onApplyBookmark,
+  onRenameBookmark,
+  onDeleteBookmark,
+  onMoveBookmark,
+  onExportBookmarks,
+  onImportBookmarks,
   useWebGPU,
   setUseWebGPU,
   useMultiThread,
   setUseMultiThread,
+  workerCount,
+  setWorkerCount,
+  maxWorkers,
   resetView,
+  onResetSettings,
   renderProgress,
   coordinates,
   performanceMetrics,
@@ -193,6 +240,15 @@ const MobileBottomSheet: React.FC<MobileBottomSheetProps> = ({
                     className="w-full rounded-lg border border-gray-500 bg-gray-600 px-3 py-2 text-gray-300 focus:border-primary-400 focus:outline-none"
                     placeholder="10 〜 100000"
                   />
+                  <label className="mt-3 flex items-center">
+                    <input
+                      type="checkbox"
+                      className="mr-3 rounded text-primary-600"
+                      checked={autoIterations}
+                      onChange={(e) => setAutoIterations(e.target.checked)}
+                    />
+                    <span className="text-white">自動調整（手動入力で解除）</span>
+                  </label>
                 </div>
 
                 {/* ニュートンフラクタル専用パラメータ */}
@@ -288,6 +344,74 @@ const MobileBottomSheet: React.FC<MobileBottomSheetProps> = ({
                       </option>
                     ))}
                   </select>
+                  <label className="mt-3 flex items-center">
+                    <input
+                      type="checkbox"
+                      className="mr-3 rounded text-primary-600"
+                      checked={smoothColoring}
+                      onChange={(e) => setSmoothColoring(e.target.checked)}
+                    />
+                    <span className="text-white">スムーズカラーリング</span>
+                  </label>
+                </div>
+
+                <div className="rounded-xl bg-gray-700/50 p-4">
+                  <div className="mb-3 block text-gray-300 text-sm">
+                    画像保存時のアンチエイリアス
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    <select
+                      value={antiAliasing.factor}
+                      onChange={(e) =>
+                        setAntiAliasing({ ...antiAliasing, factor: parseInt(e.target.value, 10) })
+                      }
+                      className="rounded-lg border border-gray-500 bg-gray-600 px-2 py-2 text-white"
+                    >
+                      {Supersampling.factors().map((factor) => (
+                        <option key={factor} value={factor}>
+                          {factor === 1 ? 'なし' : `${factor}×${factor}`}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      value={antiAliasing.pattern}
+                      onChange={(e) =>
+                        setAntiAliasing({
+                          ...antiAliasing,
+                          pattern: e.target.value as SupersamplingPattern,
+                        })
+                      }
+                      className="rounded-lg border border-gray-500 bg-gray-600 px-2 py-2 text-white"
+                    >
+                      <option value="grid">格子</option>
+                      <option value="stratified">層化</option>
+                    </select>
+                    <select
+                      value={antiAliasing.filter}
+                      onChange={(e) =>
+                        setAntiAliasing({
+                          ...antiAliasing,
+                          filter: e.target.value as DownsamplingFilter,
+                        })
+                      }
+                      className="rounded-lg border border-gray-500 bg-gray-600 px-2 py-2 text-white"
+                    >
+                      <option value="box">Box</option>
+                      <option value="gaussian">Gaussian</option>
+                      <option value="lanczos">Lanczos</option>
+                    </select>
+                  </div>
+                  <label className="mt-3 flex items-center">
+                    <input
+                      type="checkbox"
+                      className="mr-3 rounded text-primary-600"
+                      checked={antiAliasing.adaptive}
+                      onChange={(e) =>
+                        setAntiAliasing({ ...antiAliasing, adaptive: e.target.checked })
+                      }
+                    />
+                    <span className="text-white">適応型（境界の画素のみ）</span>
+                  </label>
                 </div>
 
                 <div className="rounded-xl bg-gray-700/50 p-4">
@@ -332,9 +456,53 @@ const MobileBottomSheet: React.FC<MobileBottomSheetProps> = ({
                     />
                     <span className="text-white">マルチスレッド ({availableWorkers} workers)</span>
                   </label>
+
+                  {useMultiThread && availableWorkers > 0 && (
+                    <div>
+                      <div className="mb-2 block text-gray-300 text-sm">
+                        スレッド数: {workerCount}
+                      </div>
+                      <input
+                        type="range"
+                        min="1"
+                        max={maxWorkers}
+                        step="1"
+                        value={workerCount}
+                        onChange={(e) => setWorkerCount(parseInt(e.target.value, 10))}
+                        className="slider h-3 w-full cursor-pointer appearance-none rounded-full bg-gray-600"
+                      />
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
+
+            <button
+              type="button"
+              onClick={onResetSettings}
+              className="w-full rounded-xl border border-gray-600 bg-gray-700/50 px-4 py-3 font-medium text-gray-300 transition-colors hover:bg-gray-600/50"
+            >
+              設定を初期化
+            </button>
+          </div>
+        );
+
+      case 'bookmarks':
+        return (
+          <div className="space-y-6">
+            <div>
+              <div className="mb-4 block font-semibold text-lg text-white">ブックマーク</div>
+              <BookmarkPanel
+                bookmarks={bookmarks}
+                onAdd={onAddBookmark}
+                onApply={onApplyBookmark}
+                onRename={onRenameBookmark}
+                onDelete={onDeleteBookmark}
+                onMove={onMoveBookmark}
+                onExport={onExportBookmarks}
+                onImport={onImportBookmarks}
+              />
+            </div>
           </div>
         );
 
@@ -496,6 +664,7 @@ const MobileBottomSheet: React.FC<MobileBottomSheetProps> = ({
         {[
           { id: 'params' as const, label: 'パラメータ', icon: '⚙️' },
           { id: 'settings' as const, label: '設定', icon: '🔧' },
+          { id: 'bookmarks' as const, label: '保存', icon: '★' },
           { id: 'info' as const, label: '情報', icon: '📊' },
         ].map((tab) => (
           <button
@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { MAX_POSTER_SIZE, PosterExport, type PosterExportProgress } from '@/lib/poster-export';
+
+interface PosterExportPanelProps {
+  progress: PosterExportProgress | null;
+  onExport: (size: { width: number; height: number }) => void;
+  onCancel: () => void;
+}
+
+const posterSizes = [
+  { label: '4K', width: 3840, height: 2160 },
+  { label: '8K', width: 7680, height: 4320 },
+  { label: '8k×8k', width: 8192, height: 8192 },
+  { label: '16k×16k', width: 16384, height: 16384 },
+];
+
+/**
+ * 残り時間の表示（分・秒）
+ */
+function formatDuration(milliseconds: number): string {
+  const seconds = Math.ceil(milliseconds / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}分${seconds % 60}秒` : `${seconds}秒`;
+}
+
+export default function PosterExportPanel({
+  progress,
+  onExport,
+  onCancel,
+}: PosterExportPanelProps) {
+  const [width, setWidth] = useState(7680);
+  const [height, setHeight] = useState(4320);
+  const isValid = PosterExport.isValidSize(width, height);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-4 gap-1">
+        {posterSizes.map((size) => (
+          <button
+            type="button"
+            key={size.label}
+            onClick={() => {
+              setWidth(size.width);
+              setHeight(size.height);
+            }}
+            disabled={progress !== null}
+            className="rounded-lg border border-gray-600 bg-gray-700/50 px-1 py-1 text-gray-300 text-xs hover:bg-gray-600/50 disabled:opacity-50"
+          >
+            {size.label}
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <input
+          type="number"
+          min="1"
+          max={MAX_POSTER_SIZE}
+          value={width}
+          onChange={(e) => setWidth(parseInt(e.target.value, 10) || 0)}
+          disabled={progress !== null}
+          className="w-full rounded-lg border border-gray-600 bg-gray-700 px-2 py-1 text-gray-300 text-sm"
+          aria-label="幅"
+        />
+        <span className="text-gray-400 text-sm">×</span>
+        <input
+          type="number"
+          min="1"
+          max={MAX_POSTER_SIZE}
+          value={height}
+          onChange={(e) => setHeight(parseInt(e.target.value, 10) || 0)}
+          disabled={progress !== null}
+          className="w-full rounded-lg border border-gray-600 bg-gray-700 px-2 py-1 text-gray-300 text-sm"
+          aria-label="高さ"
+        />
+      </div>
+
+      {progress ? (
+        <div>
+          <div className="h-2 w-full rounded-full bg-gray-700">
+            <div
+              className="h-2 rounded-full bg-primary-500 transition-all duration-300"
+              style={{ width: `${progress.progress * 100}%` }}
+            />
+          </div>
+          <div className="mt-1 flex justify-between text-gray-400 text-xs">
+            <span>{(progress.progress * 100).toFixed(1)}%</span>
+            <span>
+              {progress.remaining !== null
+                ? `残り約${formatDuration(progress.remaining)}`
+                : '残り時間を計測中'}
+            </span>
+          </div>
+          <button
+            type="button"
+            onClick={onCancel}
+            className="mt-2 w-full rounded-lg bg-red-600 px-3 py-2 text-sm text-white transition-colors hover:bg-red-700"
+          >
+            中止
+          </button>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => onExport({ width, height })}
+          disabled={!isValid}
+          className="w-full rounded-lg bg-primary-600 px-3 py-2 text-sm text-white transition-colors hover:bg-primary-700 disabled:opacity-50"
+        >
+          PNGで書き出し
+        </button>
+      )}
+      {!isValid && (
+        <p className="text-red-400 text-xs">1〜{MAX_POSTER_SIZE} の整数で指定してください</p>
+      )}
+    </div>
+  );
+}
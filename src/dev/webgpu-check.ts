@@ -0,0 +1,154 @@
+import { getDefaultParameters } from '@/lib/fractal-utils';
+import { WebGPUEngine } from '@/lib/webgpu-engine';
+import type { AllFractalParameters, FractalType } from '@/types/fractal';
+import { WebGPUReference } from './webgpu-reference';
+
+/**
+ * WebGPUのコンピュートパイプラインとCPU参照実装の比較
+ *
+ * フラクタルタイプ・精度・スムーズカラーリングの組み合わせごとにGPUで反復回数を計算し、
+ * WebGPUReference と画素ごとに突き合わせる。開発サーバーの /dev/webgpu-check から実行する。
+ */
+
+// 比較する画像のサイズ
+const CHECK_WIDTH = 128;
+const CHECK_HEIGHT = 96;
+
+// 画素の値が一致したとみなす差（スムーズカラーリングの小数値は log の実装差がある）
+const VALUE_TOLERANCE = 1e-3;
+
+// 不一致を許す画素の割合（単精度ではFMAの有無などで境界付近の画素がずれる）
+const MAX_MISMATCH_RATIO = 0.01;
+
+export interface WebGPUCheckCase {
+  name: string;
+  fractalType: FractalType;
+  parameters: AllFractalParameters;
+  smooth: boolean;
+}
+
+export interface WebGPUCheckResult {
+  name: string;
+  precision: string;
+  totalPixels: number;
+  mismatchedPixels: number;
+  maxDifference: number;
+  passed: boolean;
+}
+
+/**
+ * 既定の表示と、df64 が必要になる深さまでズームした表示
+ */
+function createCases(): WebGPUCheckCase[] {
+  const views: Array<[string, FractalType, Partial<AllFractalParameters>]> = [
+    ['mandelbrot', 'mandelbrot', {}],
+    [
+      'mandelbrot (deep)',
+      'mandelbrot',
+      { centerX: -0.743643887, centerY: 0.131825904, zoom: 1e5, iterations: 500 },
+    ],
+    ['julia', 'julia', {}],
+    ['julia (deep)', 'julia', { centerX: 0.1, centerY: 0.6, zoom: 1e5, iterations: 500 }],
+    ['burning-ship', 'burning-ship', {}],
+    [
+      'burning-ship (deep)',
+      'burning-ship',
+      { centerX: -1.762, centerY: -0.028, zoom: 1e5, iterations: 500 },
+    ],
+    ['newton', 'newton', {}],
+  ];
+
+  return views.flatMap(([name, fractalType, overrides]) => {
+    const parameters = {
+      ...getDefaultParameters(fractalType),
+      ...overrides,
+    } as AllFractalParameters;
+    // ニュートン法はスムーズカラーリングの対象外
+    const smoothModes = fractalType === 'newton' ? [false] : [false, true];
+    return smoothModes.map((smooth) => ({
+      name: smooth ? `${name} smooth` : name,
+      fractalType,
+      parameters,
+      smooth,
+    }));
+  });
+}
+
+export const WebGPUCheck = {
+  cases: createCases,
+
+  /**
+   * すべての組み合わせを比較（WebGPUが使えない場合は例外）
+   */
+  run: async (cases: WebGPUCheckCase[] = createCases()): Promise<WebGPUCheckResult[]> => {
+    const engine = new WebGPUEngine();
+    if (!(await engine.initialize())) {
+      throw new Error('WebGPU is not available');
+    }
+
+    try {
+      const results: WebGPUCheckResult[] = [];
+      for (const { name, fractalType, parameters, smooth } of cases) {
+        const precision = WebGPUEngine.selectPrecision(fractalType, parameters, CHECK_HEIGHT);
+        if (!precision) {
+          throw new Error(`${name}: no GPU precision can render this view`);
+        }
+
+        const actual = await engine.renderFractal(
+          fractalType,
+          parameters,
+          CHECK_WIDTH,
+          CHECK_HEIGHT,
+          precision,
+          smooth
+        );
+        const expected = WebGPUReference.render(
+          fractalType,
+          parameters,
+          CHECK_WIDTH,
+          CHECK_HEIGHT,
+          precision,
+          smooth
+        );
+        const comparison = WebGPUReference.compare(expected, actual, VALUE_TOLERANCE);
+        results.push({
+          name,
+          precision,
+          ...comparison,
+          passed: comparison.mismatchedPixels <= comparison.totalPixels * MAX_MISMATCH_RATIO,
+        });
+      }
+      return results;
+    } finally {
+      engine.dispose();
+    }
+  },
+
+  /**
+   * 一致しなかった組み合わせがあれば例外
+   */
+  assertPassed: (results: WebGPUCheckResult[]): void => {
+    const failed = results.filter((result) => !result.passed);
+    if (failed.length > 0) {
+      throw new Error(
+        `WebGPU output differs from the reference: ${failed
+          .map((result) => `${result.name} (${result.mismatchedPixels}/${result.totalPixels})`)
+          .join(', ')}`
+      );
+    }
+  },
+
+  /**
+   * 結果の表
+   */
+  format: (results: WebGPUCheckResult[]): string => {
+    return results
+      .map(
+        (result) =>
+          `${result.passed ? 'PASS' : 'FAIL'}  ${result.name} [${result.precision}]  ` +
+          `${result.mismatchedPixels}/${result.totalPixels} mismatched, ` +
+          `max difference ${result.maxDifference.toFixed(3)}`
+      )
+      .join('\n');
+  },
+} as const;
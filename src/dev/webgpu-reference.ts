@@ -0,0 +1,304 @@
+import type { GPUPrecision } from '@/lib/webgpu-engine';
+import type {
+  AllFractalParameters,
+  Complex,
+  FractalType,
+  IterationBuffer,
+  JuliaParameters,
+  NewtonParameters,
+} from '@/types/fractal';
+
+/**
+ * WebGPUコンピュートシェーダーのCPU参照実装
+ *
+ * シェーダーと同じ式・同じ順序で計算し、f32 モードでは各演算を Math.fround で単精度に丸める。
+ * df64 モードは倍精度に近いため丸めずに倍精度で計算する。
+ * GPUの出力と突き合わせて、シェーダーの不具合と精度由来の差を切り分けるために使う。
+ * 検証専用のため本番のコード（src/lib など）からは読み込まない。
+ */
+
+type Round = (value: number) => number;
+
+const ROUNDING: Record<GPUPrecision, Round> = {
+  f32: Math.fround,
+  df64: (value) => value,
+};
+
+// シェーダーのマンデルブロ集合の内部判定で、軌道が周期に入ったとみなす距離
+const PERIOD_EPSILON: Record<GPUPrecision, number> = {
+  f32: 1e-6,
+  df64: 1e-13,
+};
+
+function cmul(round: Round, a: Complex, b: Complex): Complex {
+  return {
+    real: round(round(a.real * b.real) - round(a.imag * b.imag)),
+    imag: round(round(a.real * b.imag) + round(a.imag * b.real)),
+  };
+}
+
+function cdiv(round: Round, a: Complex, b: Complex): Complex {
+  const denominator = round(round(b.real * b.real) + round(b.imag * b.imag));
+  return {
+    real: round(round(round(a.real * b.real) + round(a.imag * b.imag)) / denominator),
+    imag: round(round(round(a.imag * b.real) - round(a.real * b.imag)) / denominator),
+  };
+}
+
+/**
+ * シェーダーの smoothIteration と同じ正規化反復回数
+ */
+function smoothIteration(
+  round: Round,
+  iteration: number,
+  magnitudeSquared: number,
+  maxIterations: number
+): number {
+  if (iteration >= maxIterations) return iteration;
+  const logModulus = round(Math.log(magnitudeSquared) / 2);
+  if (logModulus <= 0) return iteration;
+  const value = round(round(iteration + 1) - round(Math.log2(logModulus)));
+  return Math.min(Math.max(value, 0), maxIterations - 0.5);
+}
+
+/**
+ * シェーダーの isInMainCardioidOrBulb と同じ判定
+ */
+function isInMainCardioidOrBulb(round: Round, real: number, imag: number): boolean {
+  const x = round(real - 0.25);
+  const q = round(round(x * x) + round(imag * imag));
+  if (round(q * round(q + x)) <= round(round(0.25 * imag) * imag)) {
+    return true;
+  }
+  const bulbX = round(real + 1);
+  return round(round(bulbX * bulbX) + round(imag * imag)) <= 0.0625;
+}
+
+/**
+ * periodEpsilon を指定した場合はシェーダーと同じ内部判定で打ち切る（マンデルブロ集合のみ）
+ */
+function escapeTime(
+  round: Round,
+  zx0: number,
+  zy0: number,
+  cx: number,
+  cy: number,
+  maxIterations: number,
+  escapeRadius: number,
+  burningShip: boolean,
+  smooth: boolean,
+  periodEpsilon: number | null = null
+): number {
+  if (periodEpsilon !== null && isInMainCardioidOrBulb(round, cx, cy)) {
+    return maxIterations;
+  }
+
+  let zx = zx0;
+  let zy = zy0;
+  let iteration = 0;
+  let checkX = zx;
+  let checkY = zy;
+  let checkIteration = 0;
+  let checkInterval = 1;
+
+  while (round(round(zx * zx) + round(zy * zy)) <= escapeRadius && iteration < maxIterations) {
+    const temp = round(round(round(zx * zx) - round(zy * zy)) + cx);
+    const cross = round(round(2 * zx) * zy);
+    zy = round((burningShip ? Math.abs(cross) : cross) + cy);
+    zx = temp;
+    iteration++;
+
+    if (periodEpsilon !== null) {
+      if (Math.abs(zx - checkX) < periodEpsilon && Math.abs(zy - checkY) < periodEpsilon) {
+        return maxIterations;
+      }
+      if (iteration - checkIteration === checkInterval) {
+        checkX = zx;
+        checkY = zy;
+        checkIteration = iteration;
+        checkInterval *= 2;
+      }
+    }
+  }
+
+  return smooth
+    ? smoothIteration(round, iteration, round(round(zx * zx) + round(zy * zy)), maxIterations)
+    : iteration;
+}
+
+function newton(
+  round: Round,
+  real: number,
+  imag: number,
+  roots: Complex[],
+  tolerance: number,
+  maxIterations: number
+): number {
+  let z: Complex = { real, imag };
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let f: Complex = { real: 1, imag: 0 };
+    let fPrime: Complex = { real: 0, imag: 0 };
+    for (const root of roots) {
+      const factor = { real: round(z.real - root.real), imag: round(z.imag - root.imag) };
+      const product = cmul(round, fPrime, factor);
+      fPrime = { real: round(product.real + f.real), imag: round(product.imag + f.imag) };
+      f = cmul(round, f, factor);
+    }
+
+    if (Math.hypot(fPrime.real, fPrime.imag) < 1e-14) {
+      break;
+    }
+
+    const step = cdiv(round, f, fPrime);
+    const zNext = { real: round(z.real - step.real), imag: round(z.imag - step.imag) };
+    if (Math.hypot(zNext.real - z.real, zNext.imag - z.imag) < tolerance) {
+      let closestRoot = 0;
+      let minDistance = Number.POSITIVE_INFINITY;
+      for (let k = 0; k < roots.length; k++) {
+        const root = roots[k];
+        if (!root) continue;
+        const dx = round(zNext.real - root.real);
+        const dy = round(zNext.imag - root.imag);
+        const distance = round(round(dx * dx) + round(dy * dy));
+        if (distance < minDistance) {
+          minDistance = distance;
+          closestRoot = k;
+          if (distance < round(tolerance * tolerance)) {
+            break;
+          }
+        }
+      }
+      return closestRoot * 100 + iteration;
+    }
+
+    z = zNext;
+  }
+
+  return maxIterations;
+}
+
+export const WebGPUReference = {
+  /**
+   * WebGPUEngine.renderFractal と同じ形式の反復回数データをCPUで計算
+   */
+  render: (
+    fractalType: FractalType,
+    parameters: AllFractalParameters,
+    width: number,
+    height: number,
+    precision: GPUPrecision = 'f32',
+    smooth = false
+  ): IterationBuffer => {
+    const round = ROUNDING[precision];
+    const centerX = round(parameters.centerX);
+    const centerY = round(parameters.centerY);
+    const escapeRadius = round(parameters.escapeRadius);
+    const aspectRatio = round(width / height);
+    const scale = round(3 / round(parameters.zoom));
+    const c = fractalType === 'julia' ? (parameters as JuliaParameters).c : null;
+    const newtonParams = fractalType === 'newton' ? (parameters as NewtonParameters) : null;
+    const roots = (newtonParams?.roots ?? []).map((root) => ({
+      real: round(root.real),
+      imag: round(root.imag),
+    }));
+
+    const data = new Float32Array(width * height);
+    for (let y = 0; y < height; y++) {
+      const imag = round(centerY + round(round(round(y - round(height / 2)) * scale) / height));
+
+      for (let x = 0; x < width; x++) {
+        const real = round(
+          centerX + round(round(round(round(x - round(width / 2)) * scale) * aspectRatio) / width)
+        );
+
+        const index = y * width + x;
+        switch (fractalType) {
+          case 'mandelbrot':
+            data[index] = escapeTime(
+              round,
+              0,
+              0,
+              real,
+              imag,
+              parameters.iterations,
+              escapeRadius,
+              false,
+              smooth,
+              PERIOD_EPSILON[precision]
+            );
+            break;
+          case 'julia':
+            data[index] = escapeTime(
+              round,
+              real,
+              imag,
+              round(c?.real ?? 0),
+              round(c?.imag ?? 0),
+              parameters.iterations,
+              escapeRadius,
+              false,
+              smooth
+            );
+            break;
+          case 'burning-ship':
+            data[index] = escapeTime(
+              round,
+              0,
+              0,
+              real,
+              imag,
+              parameters.iterations,
+              escapeRadius,
+              true,
+              smooth
+            );
+            break;
+          case 'newton':
+            data[index] = newton(
+              round,
+              real,
+              imag,
+              roots,
+              round(newtonParams?.tolerance ?? 0),
+              parameters.iterations
+            );
+            break;
+        }
+      }
+    }
+
+    return { width, height, data };
+  },
+
+  /**
+   * GPU出力と参照実装の差を集計
+   * 単精度ではFMAの有無などで境界付近の画素がわずかにずれるため、一致率で評価する
+   * スムーズカラーリングの小数値は log の実装差があるため tolerance 以内を一致とみなす
+   */
+  compare: (
+    expected: IterationBuffer,
+    actual: IterationBuffer,
+    tolerance = 1e-3
+  ): { totalPixels: number; mismatchedPixels: number; maxDifference: number } => {
+    const totalPixels = expected.data.length;
+    let mismatchedPixels = 0;
+    let maxDifference = 0;
+
+    for (let index = 0; index < totalPixels; index++) {
+      const value = expected.data[index] ?? 0;
+      const other = actual.data[index];
+      if (other === undefined) {
+        mismatchedPixels++;
+        continue;
+      }
+      const difference = Math.abs(other - value);
+      if (difference > tolerance) {
+        mismatchedPixels++;
+        maxDifference = Math.max(maxDifference, difference);
+      }
+    }
+
+    return { totalPixels, mismatchedPixels, maxDifference };
+  },
+} as const;
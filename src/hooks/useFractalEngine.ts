@@ -1,25 +1,106 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
-import { FractalEngine, type PerformanceMetrics } from '@/lib/fractal-engine';
+import { AutoIterations } from '@/lib/auto-iterations';
+import { BookmarkStore } from '@/lib/bookmark-store';
+import { Bookmarks } from '@/lib/bookmarks';
+import {
+  FractalEngine,
+  type PerformanceMetrics,
+  type RenderedFrame,
+  type RenderStats,
+} from '@/lib/fractal-engine';
 import { getDefaultParameters } from '@/lib/fractal-utils';
-import type { AllFractalParameters, Complex, FractalType, JuliaParameters } from '@/types/fractal';
+import { ImageExport } from '@/lib/image-export';
+import { NavigationHistory, type NavigationHistoryState } from '@/lib/navigation-history';
+import { type FractalImageMetadata, PngMetadata } from '@/lib/png-metadata';
+import { PosterExport, type PosterExportProgress } from '@/lib/poster-export';
+import type { RenderPass } from '@/lib/progressive-sampling';
+import { RenderCancellation } from '@/lib/render-cancellation';
+import { Reprojection, type ViewTransform } from '@/lib/reprojection';
+import { SettingsStore } from '@/lib/settings-store';
+import { ViewUrl } from '@/lib/view-url';
+import type {
+  AllFractalParameters,
+  AntiAliasingSettings,
+  Complex,
+  FractalBookmark,
+  FractalType,
+  FractalViewState,
+  JuliaParameters,
+} from '@/types/fractal';
+
+// 設定を保存するまでの待ち時間（ms）
+const SETTINGS_SAVE_DELAY = 500;
+
+// 操作の終了後も同じ履歴の項目にまとめる時間（ms、最後の変更の反映が終了の通知より遅れる場合がある）
+const GESTURE_SETTLE_TIME = 100;
+
+// 描画が終わってから履歴のサムネイルを作るまでの待ち時間（ms）
+const HISTORY_THUMBNAIL_DELAY = 500;
+
+// 表示状態をURLハッシュへ書き込むまでの待ち時間（ms、操作中の連続した更新をまとめる）
+const URL_UPDATE_DELAY = 300;
+
+// プレビューと再着色用に保持する、最後に2Dキャンバスへ描画したフレーム
+interface FrameSnapshot extends RenderedFrame {
+  image: HTMLCanvasElement;
+}
 
 export const useFractalEngine = () => {
+  // 前回のセッションで保存した設定（保存されていなければ既定値）
+  const [initialConfig] = useState(() => SettingsStore.load() ?? SettingsStore.defaults());
   const engineRef = useRef<FractalEngine | null>(null);
+  const lastFrameRef = useRef<FrameSnapshot | null>(null);
+  // 前のフレームの統計から求めた反復回数の上乗せ倍率（自動調整用）
+  const iterationBoostRef = useRef(1);
+  // 実行中のポスター書き出しの中断用
+  const posterControllerRef = useRef<AbortController | null>(null);
+  // フラクタルタイプの切り替え後に、既定値の代わりに適用するパラメータ
+  // 起動時は保存した設定のパラメータを使う
+  const pendingParametersRef = useRef<AllFractalParameters | null>(initialConfig.parameters);
+  // 元に戻す・やり直しで表示したパラメータ（表示している間は反復回数を自動調整しない）
+  const restoredParametersRef = useRef<AllFractalParameters | null>(null);
+  // 起動時にURLハッシュの表示状態を読み込んだか
+  const initialHashAppliedRef = useRef(false);
+  // ブックマークの保存先（IndexedDB が使えない場合は null で、保存せずに表示だけ行う）
+  const bookmarkStoreRef = useRef<BookmarkStore | null>(null);
+  // 保存済みのブックマークを読み込んだか（読み込む前の空の一覧で上書きしないため）
+  const bookmarksLoadedRef = useRef(false);
+  // ドラッグ・ホイールなどの連続した操作の状態（recorded: 操作中の変更を履歴に追加済みか）
+  const gestureRef = useRef({ active: false, recorded: false, endedAt: 0 });
+  // 最後に描画したキャンバスのサイズ（履歴のサムネイル用）
+  const lastCanvasSizeRef = useRef<{ width: number; height: number } | null>(null);
 
   // State
-  const [fractalType, setFractalType] = useState<FractalType>('mandelbrot');
-  const [parameters, setParameters] = useState<AllFractalParameters>(() =>
-    getDefaultParameters('mandelbrot')
-  );
+  const [fractalType, setFractalType] = useState<FractalType>(initialConfig.fractalType);
+  const [parameters, setParameters] = useState<AllFractalParameters>(initialConfig.parameters);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isRendering, setIsRendering] = useState(false);
   const [renderProgress, setRenderProgress] = useState(0);
-  const [useWebGPU, setUseWebGPU] = useState(true);
-  const [useMultiThread, setUseMultiThread] = useState(true);
+  // 段階的レンダリングの現在のパス（WebGPUでの描画中は null）
+  const [renderPass, setRenderPass] = useState<RenderPass | null>(null);
+  const [useWebGPU, setUseWebGPU] = useState(initialConfig.renderSettings.useWebGPU);
+  const [useMultiThread, setUseMultiThread] = useState(initialConfig.renderSettings.useMultiThread);
+  // ズーム倍率と前のフレームの統計から反復回数を決めるか（手動で変更すると解除）
+  const [autoIterations, setAutoIterations] = useState(initialConfig.renderSettings.autoIterations);
+  // 使用するWorker数（エンジンの初期化後に確定）
+  const [workerCount, setWorkerCountState] = useState(0);
   const [enableAnimation, setEnableAnimation] = useState(false);
-  const [paletteType, setPaletteType] = useState('rainbow');
+  const [paletteType, setPaletteType] = useState(initialConfig.paletteType);
+  const [smoothColoring, setSmoothColoring] = useState(initialConfig.smooth);
+  // 画像の書き出し時のアンチエイリアス（factor 1 で無効）
+  const [antiAliasing, setAntiAliasing] = useState<AntiAliasingSettings>(
+    initialConfig.renderSettings.antiAliasing
+  );
   const [performanceMetrics, setPerformanceMetrics] = useState<PerformanceMetrics | null>(null);
+  // ポスター書き出しの進捗（書き出し中でなければ null）
+  const [posterProgress, setPosterProgress] = useState<PosterExportProgress | null>(null);
+  const [bookmarks, setBookmarks] = useState<FractalBookmark[]>([]);
+  const [history, setHistory] = useState<NavigationHistoryState>(NavigationHistory.empty);
+  // 最後のフレームをWebGPUでキャンバスへ直接表示したか
+  const [isGPUPresented, setIsGPUPresented] = useState(false);
+  // 前のフレームを変形したプレビューを表示中か
+  const [isPreviewVisible, setIsPreviewVisible] = useState(false);
 
   // デュアルビューモード用の状態
   const [isDualView, setIsDualView] = useState(false);
@@ -27,51 +108,104 @@ export const useFractalEngine = () => {
 
   // フラクタルタイプ変更時のパラメータ更新
   useEffect(() => {
-    const defaultParams = getDefaultParameters(fractalType);
-    setParameters(defaultParams);
+    setParameters(pendingParametersRef.current ?? getDefaultParameters(fractalType));
+    pendingParametersRef.current = null;
+    iterationBoostRef.current = 1;
   }, [fractalType]);
 
+  // 反復回数の自動調整（その間にズーム倍率が変わった場合や、変化が小さい場合は据え置く）
+  const applyAutoIterations = useCallback((zoom: number) => {
+    const iterations = AutoIterations.resolve(zoom, iterationBoostRef.current);
+    setParameters((prev) =>
+      prev !== restoredParametersRef.current &&
+      prev.zoom === zoom &&
+      AutoIterations.shouldUpdate(prev.iterations, iterations)
+        ? ({ ...prev, iterations } as AllFractalParameters)
+        : prev
+    );
+  }, []);
+
+  // ズーム倍率が変わったら、レンダリング前に反復回数を合わせる
+  const { zoom } = parameters;
+  useEffect(() => {
+    if (autoIterations) {
+      applyAutoIterations(zoom);
+    }
+  }, [autoIterations, zoom, applyAutoIterations]);
+
   // エンジン初期化
-  const initializeEngine = useCallback(async (canvasSize: { width: number; height: number }) => {
-    try {
-      setIsLoading(true);
-      setError(null);
+  const initializeEngine = useCallback(
+    async (canvasSize: { width: number; height: number }) => {
+      try {
+        setIsLoading(true);
+        setError(null);
 
-      if (!engineRef.current) {
-        // console.log('🔧 FractalEngine 作成中...');
-        engineRef.current = new FractalEngine();
-      }
+        if (!engineRef.current) {
+          // console.log('🔧 FractalEngine 作成中...');
+          engineRef.current = new FractalEngine();
+        }
 
-      // console.log('⏳ エンジン初期化完了を待機中...');
-      await engineRef.current.waitForInitialization();
-      // console.log('✅ エンジン初期化完了確認');
+        // console.log('⏳ エンジン初期化完了を待機中...');
+        await engineRef.current.waitForInitialization();
+        // console.log('✅ エンジン初期化完了確認');
+        // 前回のセッションで選んだWorker数に合わせる（0 は既定の数のまま）
+        if (initialConfig.renderSettings.workerCount > 0) {
+          engineRef.current.setWorkerCount(initialConfig.renderSettings.workerCount);
+        }
+        setWorkerCountState(engineRef.current.availableWorkers);
 
-      setIsLoading(false);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Initialization failed');
-      setIsLoading(false);
-    }
-  }, []);
+        setIsLoading(false);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Initialization failed');
+        setIsLoading(false);
+      }
+    },
+    [initialConfig]
+  );
 
   // 高性能フラクタルレンダリング
   const renderFractal = useCallback(
     async (
       canvasContext: CanvasRenderingContext2D | null,
-      canvasSize: { width: number; height: number }
+      canvasSize: { width: number; height: number },
+      gpuCanvas?: HTMLCanvasElement | null,
+      previewCanvas?: HTMLCanvasElement | null
     ) => {
       const engine = engineRef.current;
 
       if (!canvasContext || !engine) return;
+      lastCanvasSizeRef.current = canvasSize;
 
-      if (isRendering) {
-        // console.log('レンダリング中のためスキップ');
-        return;
-      }
+      // 新しい表示のリクエストが前のレンダリングを中断する（最新のリクエストが優先）
+      const signal = engine.beginRequest();
 
       if (!engine.initialized) {
         // console.log('⏳ エンジン初期化待機中...');
         await engine.waitForInitialization();
         // console.log('✅ エンジン初期化完了を確認');
+        if (signal.aborted) return;
+      }
+
+      // 色の設定だけが変わった場合は、反復回数を計算し直さずに再着色する
+      const lastFrame = lastFrameRef.current;
+      if (
+        lastFrame &&
+        lastFrame.fractalType === fractalType &&
+        lastFrame.parameters === parameters &&
+        lastFrame.image.width === canvasSize.width &&
+        lastFrame.image.height === canvasSize.height
+      ) {
+        const imageData = engine.recolor({ paletteType, smooth: smoothColoring }, lastFrame);
+        if (imageData) {
+          canvasContext.putImageData(imageData, 0, 0);
+          lastFrame.image.getContext('2d')?.putImageData(imageData, 0, 0);
+          // 中断したレンダリングの表示状態を戻す
+          setIsRendering(false);
+          setRenderProgress(0);
+          setRenderPass(null);
+          setIsPreviewVisible(false);
+          return;
+        }
       }
 
       const selectedMethod =
@@ -85,21 +219,125 @@ export const useFractalEngine = () => {
       setIsRendering(true);
       setRenderProgress(0);
 
+      // 表示位置だけが変わった場合は、前のフレームを変形して計算が終わるまでのプレビューにする
+      let previewTransform: ViewTransform | null = null;
+      const previewContext = previewCanvas?.getContext('2d');
+      if (
+        lastFrame &&
+        previewContext &&
+        lastFrame.image.width === canvasSize.width &&
+        lastFrame.image.height === canvasSize.height &&
+        Reprojection.isViewChange(
+          lastFrame.fractalType,
+          lastFrame.parameters,
+          fractalType,
+          parameters
+        )
+      ) {
+        previewTransform = Reprojection.computeTransform(
+          lastFrame.parameters,
+          parameters,
+          canvasSize.width,
+          canvasSize.height
+        );
+        Reprojection.draw(
+          previewContext,
+          lastFrame.image,
+          previewTransform,
+          canvasSize.width,
+          canvasSize.height
+        );
+      }
+      setIsPreviewVisible(previewTransform !== null);
+
       try {
-        const result = await engine.renderFractal(fractalType, parameters, {
+        const options = {
           width: canvasSize.width,
           height: canvasSize.height,
           paletteType,
+          smooth: smoothColoring,
           useWebGPU: useWebGPU && engine.webGPUSupported,
           useWorkers: useMultiThread && engine.availableWorkers > 0,
-          onProgress: (progress) => {
-            setRenderProgress(progress);
+          onProgress: (progress: number, pass?: RenderPass) => {
+            if (!signal.aborted) {
+              setRenderProgress(progress);
+              setRenderPass(pass ?? null);
+            }
           },
-        });
+          // 粗いパスから順に表示して、操作中でもすぐに画面を更新する
+          progressive: true,
+          onPass: (imageData: ImageData, pass: RenderPass) => {
+            // 最後のパスは戻り値として描画する
+            if (signal.aborted || pass.number === pass.count) return;
+            canvasContext.putImageData(imageData, 0, 0);
+            setIsGPUPresented(false);
+            // プレビューより細かいパスが届いたら差し替える（プレビューが画面を覆わない場合はすぐに）
+            if (
+              !previewTransform ||
+              !Reprojection.coversFrame(previewTransform, canvasSize.width, canvasSize.height) ||
+              pass.step <= previewTransform.scale
+            ) {
+              setIsPreviewVisible(false);
+            }
+          },
+          // パンでは前のフレームの重なる部分を再利用し、新しく見える帯だけを計算する
+          reusePreviousFrame: true,
+          useTileCache: true,
+          signal,
+        };
+
+        // 上限の近くで脱出した画素が多ければ反復回数を増やす
+        const adaptIterations = ({ saturatedFraction, nearLimitFraction }: RenderStats) => {
+          if (
+            autoIterations &&
+            saturatedFraction !== undefined &&
+            nearLimitFraction !== undefined
+          ) {
+            iterationBoostRef.current = AutoIterations.adjustBoost(iterationBoostRef.current, {
+              saturatedFraction,
+              nearLimitFraction,
+            });
+            applyAutoIterations(parameters.zoom);
+          }
+        };
+
+        // WebGPUで描画できる場合は読み戻さずにキャンバスへ直接表示
+        const presented = gpuCanvas
+          ? await engine.presentFractal(fractalType, parameters, gpuCanvas, options)
+          : null;
+        if (presented) {
+          setIsGPUPresented(true);
+          setIsPreviewVisible(false);
+          // WebGPUのキャンバスは表示後に内容を読み出せないため、プレビューには使わない
+          lastFrameRef.current = null;
+          setPerformanceMetrics(engine.getPerformanceMetrics());
+          adaptIterations(presented.stats);
+          return;
+        }
+
+        const result = await engine.renderFractal(fractalType, parameters, options);
 
         canvasContext.putImageData(result.imageData, 0, 0);
+        setIsGPUPresented(false);
+        setIsPreviewVisible(false);
         setPerformanceMetrics(engine.getPerformanceMetrics());
 
+        // 次のパン・ズームのプレビュー用に描画したフレームを保持
+        const image = lastFrame?.image ?? document.createElement('canvas');
+        image.width = canvasSize.width;
+        image.height = canvasSize.height;
+        image.getContext('2d')?.putImageData(result.imageData, 0, 0);
+        lastFrameRef.current = {
+          fractalType,
+          parameters,
+          iterationData: result.iterationData,
+          smooth: smoothColoring,
+          method: result.method,
+          image,
+        };
+
+        adaptIterations(result.stats);
+
         // console.log(`✅ フラクタルレンダリング完了`);
         // console.log(`   方式: ${result.method}`);
         // console.log(`   時間: ${result.renderTime.toFixed(1)}ms`);
@@ -108,16 +346,411 @@ export const useFractalEngine = () => {
           // console.log(`   使用Worker数: ${result.stats.workersUsed}`);
         }
       } catch (err) {
+        // 新しいリクエストに置き換えられた場合はエラーとして扱わない
+        if (RenderCancellation.isAbortError(err)) return;
         console.error('レンダリングエラー:', err);
         setError(err instanceof Error ? err.message : 'Rendering failed');
       } finally {
-        setIsRendering(false);
-        setRenderProgress(0);
+        // 状態は最新のリクエストだけが更新する
+        if (!signal.aborted) {
+          setIsRendering(false);
+          setRenderProgress(0);
+          setRenderPass(null);
+        }
+      }
+    },
+    [
+      parameters,
+      fractalType,
+      paletteType,
+      smoothColoring,
+      useWebGPU,
+      useMultiThread,
+      autoIterations,
+      applyAutoIterations,
+    ]
+  );
+
+  // 画像の書き出し（WebGPU直接表示中でも読み戻し付きで描画し直す）
+  const exportImage = useCallback(
+    async (canvasSize: { width: number; height: number }) => {
+      const engine = engineRef.current;
+      if (!engine) return;
+
+      try {
+        const result = await engine.renderFractal(fractalType, parameters, {
+          width: canvasSize.width,
+          height: canvasSize.height,
+          paletteType,
+          smooth: smoothColoring,
+          useWebGPU: useWebGPU && engine.webGPUSupported,
+          useWorkers: useMultiThread && engine.availableWorkers > 0,
+          antiAliasing,
+        });
+        // 読み込み時に同じ表示を復元できるよう、パラメータと設定を埋め込む
+        const blob = await PngMetadata.embed(await ImageExport.toPngBlob(result.imageData), {
+          fractalType,
+          parameters,
+          paletteType,
+          smooth: smoothColoring,
+          width: canvasSize.width,
+          height: canvasSize.height,
+          antiAliasing,
+        });
+        ImageExport.download(blob, ImageExport.createFilename(fractalType));
+      } catch (err) {
+        console.error('画像書き出しエラー:', err);
+        setError(err instanceof Error ? err.message : 'Export failed');
+      }
+    },
+    [parameters, fractalType, paletteType, smoothColoring, useWebGPU, useMultiThread, antiAliasing]
+  );
+
+  // 画面の表示範囲を大きなサイズで書き出す（画面の描画とは独立して中断できる）
+  const exportPoster = useCallback(
+    async (size: { width: number; height: number }) => {
+      const engine = engineRef.current;
+      if (!engine || posterControllerRef.current) return;
+
+      const controller = new AbortController();
+      posterControllerRef.current = controller;
+      try {
+        // 保存ダイアログはクリック直後にしか開けないため、最初に開く
+        const destination = await PosterExport.openDestination(
+          ImageExport.createFilename(fractalType)
+        );
+        await PosterExport.render(
+          engine,
+          {
+            fractalType,
+            parameters,
+            width: size.width,
+            height: size.height,
+            renderOptions: {
+              paletteType,
+              smooth: smoothColoring,
+              useWebGPU: useWebGPU && engine.webGPUSupported,
+              useWorkers: useMultiThread && engine.availableWorkers > 0,
+              antiAliasing,
+            },
+            chunks: PngMetadata.createChunks({
+              fractalType,
+              parameters,
+              paletteType,
+              smooth: smoothColoring,
+              width: size.width,
+              height: size.height,
+              antiAliasing,
+            }),
+            signal: controller.signal,
+            onProgress: setPosterProgress,
+          },
+          destination
+        );
+      } catch (err) {
+        // 中断や保存ダイアログのキャンセルはエラーとして扱わない
+        if (!RenderCancellation.isAbortError(err)) {
+          console.error('ポスター書き出しエラー:', err);
+          setError(err instanceof Error ? err.message : 'Poster export failed');
+        }
+      } finally {
+        posterControllerRef.current = null;
+        setPosterProgress(null);
+      }
+    },
+    [parameters, fractalType, paletteType, smoothColoring, useWebGPU, useMultiThread, antiAliasing]
+  );
+
+  const cancelPosterExport = useCallback(() => {
+    posterControllerRef.current?.abort();
+  }, []);
+
+  // 保存した表示状態を適用（反復回数も保存時の値に戻すため自動調整は解除する）
+  // keepAutoIterations を指定した場合は自動調整の設定を変えず、その表示の間だけ保存時の反復回数を使う
+  const applyViewState = useCallback(
+    (view: FractalViewState, options: { keepAutoIterations?: boolean } = {}) => {
+      if (options.keepAutoIterations) {
+        restoredParametersRef.current = view.parameters;
+      } else {
+        setAutoIterations(false);
+      }
+      setPaletteType(view.paletteType);
+      setSmoothColoring(view.smooth);
+      if (view.fractalType === fractalType) {
+        setParameters(view.parameters);
+      } else {
+        pendingParametersRef.current = view.parameters;
+        setFractalType(view.fractalType);
+      }
+    },
+    [fractalType]
+  );
+
+  // メタデータを埋め込んだPNGから表示とアンチエイリアス設定を復元
+  // キャンバスサイズは呼び出し側で管理しているため、読み出したメタデータを返して呼び出し側で反映する
+  const importImage = useCallback(
+    async (file: Blob): Promise<FractalImageMetadata | null> => {
+      try {
+        const metadata = await PngMetadata.read(file);
+        if (!metadata) {
+          setError('The image has no fractal metadata');
+          return null;
+        }
+        applyViewState(metadata);
+        if (metadata.antiAliasing) {
+          setAntiAliasing(metadata.antiAliasing);
+        }
+        return metadata;
+      } catch (err) {
+        console.error('画像読み込みエラー:', err);
+        setError(err instanceof Error ? err.message : 'Import failed');
+        return null;
+      }
+    },
+    [applyViewState]
+  );
+
+  // URLハッシュの表示状態を読み込む（起動時と、アドレスバーでハッシュだけを変更したとき）
+  useEffect(() => {
+    const applyHash = () => {
+      const view = ViewUrl.fromHash(window.location.hash);
+      if (view) applyViewState(view);
+    };
+    if (!initialHashAppliedRef.current) {
+      initialHashAppliedRef.current = true;
+      applyHash();
+    }
+    window.addEventListener('hashchange', applyHash);
+    return () => window.removeEventListener('hashchange', applyHash);
+  }, [applyViewState]);
+
+  // 表示状態をURLハッシュへ反映（履歴は増やさない）
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      const hash = ViewUrl.toHash({ fractalType, parameters, paletteType, smooth: smoothColoring });
+      if (hash !== window.location.hash) {
+        window.history.replaceState(window.history.state, '', hash);
+      }
+    }, URL_UPDATE_DELAY);
+    return () => clearTimeout(timeoutId);
+  }, [fractalType, parameters, paletteType, smoothColoring]);
+
+  // 表示状態と設定を保存（次回の起動時に復元する）
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      SettingsStore.update({
+        fractalType,
+        parameters,
+        paletteType,
+        smooth: smoothColoring,
+        renderSettings: { useWebGPU, useMultiThread, antiAliasing, autoIterations },
+      });
+    }, SETTINGS_SAVE_DELAY);
+    return () => clearTimeout(timeoutId);
+  }, [
+    fractalType,
+    parameters,
+    paletteType,
+    smoothColoring,
+    useWebGPU,
+    useMultiThread,
+    antiAliasing,
+    autoIterations,
+  ]);
+
+  // 保存した設定を削除して既定の表示と設定に戻す
+  const resetSettings = useCallback(() => {
+    SettingsStore.clear();
+    const defaults = SettingsStore.defaults();
+    applyViewState(defaults);
+    setUseWebGPU(defaults.renderSettings.useWebGPU);
+    setUseMultiThread(defaults.renderSettings.useMultiThread);
+    setAntiAliasing(defaults.renderSettings.antiAliasing);
+    setAutoIterations(defaults.renderSettings.autoIterations);
+    const engine = engineRef.current;
+    if (engine) {
+      engine.setWorkerCount(FractalEngine.maxWorkers);
+      setWorkerCountState(engine.availableWorkers);
+    }
+  }, [applyViewState]);
+
+  // 保存済みのブックマークを読み込む
+  useEffect(() => {
+    if (!BookmarkStore.isSupported()) return;
+    const store = new BookmarkStore();
+    bookmarkStoreRef.current = store;
+    store
+      .load()
+      .then((loaded) => {
+        if (bookmarkStoreRef.current !== store) return;
+        bookmarksLoadedRef.current = true;
+        // 読み込み中に追加されたブックマークは後ろに残す
+        setBookmarks((current) => [...loaded, ...current]);
+      })
+      .catch((err) => console.error('ブックマーク読み込みエラー:', err));
+    return () => {
+      store.close();
+      bookmarkStoreRef.current = null;
+      bookmarksLoadedRef.current = false;
+    };
+  }, []);
+
+  // ブックマークの変更を保存
+  useEffect(() => {
+    if (!bookmarksLoadedRef.current) return;
+    bookmarkStoreRef.current
+      ?.save(bookmarks)
+      .catch((err) => console.error('ブックマーク保存エラー:', err));
+  }, [bookmarks]);
+
+  // 現在の表示のサムネイル（最後に描画したフレームを縮小し、ない場合は小さく描画する）
+  const createThumbnail = useCallback(
+    async (canvasSize: { width: number; height: number }) => {
+      const lastFrame = lastFrameRef.current;
+      if (
+        lastFrame &&
+        lastFrame.fractalType === fractalType &&
+        lastFrame.parameters === parameters
+      ) {
+        return ImageExport.createThumbnail(lastFrame.image);
+      }
+
+      const engine = engineRef.current;
+      if (!engine) return undefined;
+      const scale = ImageExport.thumbnailSize / Math.max(canvasSize.width, canvasSize.height);
+      const result = await engine.renderFractal(fractalType, parameters, {
+        width: Math.max(1, Math.round(canvasSize.width * scale)),
+        height: Math.max(1, Math.round(canvasSize.height * scale)),
+        paletteType,
+        smooth: smoothColoring,
+        useWebGPU: useWebGPU && engine.webGPUSupported,
+        useWorkers: useMultiThread && engine.availableWorkers > 0,
+      });
+      return ImageExport.createThumbnail(ImageExport.toCanvas(result.imageData));
+    },
+    [parameters, fractalType, paletteType, smoothColoring, useWebGPU, useMultiThread]
+  );
+
+  // 現在の表示をブックマークに追加
+  const addBookmark = useCallback(
+    async (canvasSize: { width: number; height: number }) => {
+      const view = { fractalType, parameters, paletteType, smooth: smoothColoring };
+      let thumbnail: string | undefined;
+      try {
+        thumbnail = await createThumbnail(canvasSize);
+      } catch (err) {
+        // サムネイルがなくてもブックマークは保存する
+        console.error('サムネイル作成エラー:', err);
       }
+      const bookmark = Bookmarks.create(view, Bookmarks.defaultName(view), thumbnail);
+      setBookmarks((current) => [...current, bookmark]);
     },
-    [parameters, fractalType, paletteType, useWebGPU, useMultiThread]
+    [parameters, fractalType, paletteType, smoothColoring, createThumbnail]
   );
 
+  const applyBookmark = useCallback(
+    (id: string) => {
+      const bookmark = bookmarks.find((entry) => entry.id === id);
+      if (bookmark) applyViewState(bookmark);
+    },
+    [bookmarks, applyViewState]
+  );
+
+  const renameBookmark = useCallback((id: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setBookmarks((current) =>
+      current.map((bookmark) => (bookmark.id === id ? { ...bookmark, name: trimmed } : bookmark))
+    );
+  }, []);
+
+  const deleteBookmark = useCallback((id: string) => {
+    setBookmarks((current) => current.filter((bookmark) => bookmark.id !== id));
+  }, []);
+
+  // ブックマークを前後へ移動（offset: -1 で1つ前、1 で1つ後ろ）
+  const moveBookmark = useCallback((id: string, offset: number) => {
+    setBookmarks((current) => Bookmarks.move(current, id, offset));
+  }, []);
+
+  // ブックマークの一覧をJSONファイルとして書き出す
+  const exportBookmarks = useCallback(() => {
+    const blob = new Blob([Bookmarks.toJson(bookmarks)], { type: 'application/json' });
+    ImageExport.download(blob, 'fractal-bookmarks.json');
+  }, [bookmarks]);
+
+  // JSONファイルのブックマークを一覧の後ろに追加
+  const importBookmarks = useCallback(async (file: Blob) => {
+    try {
+      const imported = Bookmarks.fromJson(await file.text());
+      setBookmarks((current) => [...current, ...imported]);
+    } catch (err) {
+      console.error('ブックマーク読み込みエラー:', err);
+      setError(err instanceof Error ? err.message : 'Bookmark import failed');
+    }
+  }, []);
+
+  // 表示の変更を履歴に記録（連続した操作中の変更と、反復回数の自動調整は1つの項目にまとめる）
+  useEffect(() => {
+    // フラクタルタイプの切り替え直後（パラメータが前のタイプのまま）は記録しない
+    if (parameters.type !== fractalType) return;
+    const gesture = gestureRef.current;
+    const inGesture = gesture.active || performance.now() - gesture.endedAt < GESTURE_SETTLE_TIME;
+    const coalesce = inGesture && gesture.recorded;
+    if (inGesture) gesture.recorded = true;
+
+    const view = { fractalType, parameters, paletteType, smooth: smoothColoring };
+    setHistory((current) =>
+      NavigationHistory.record(current, view, { coalesce, coalesceIterations: autoIterations })
+    );
+  }, [fractalType, parameters, paletteType, smoothColoring, autoIterations]);
+
+  // 描画が落ち着いたら、現在の履歴の項目にサムネイルを付ける
+  useEffect(() => {
+    const entry = history.entries[history.index];
+    const canvasSize = lastCanvasSizeRef.current;
+    if (isRendering || !entry || !canvasSize) return;
+    if (!NavigationHistory.needsThumbnail(history, parameters)) return;
+
+    const timeoutId = setTimeout(() => {
+      createThumbnail(canvasSize)
+        .then((thumbnail) => {
+          if (thumbnail) {
+            setHistory((current) =>
+              NavigationHistory.setThumbnail(current, entry.id, parameters, thumbnail)
+            );
+          }
+        })
+        .catch((err) => console.error('サムネイル作成エラー:', err));
+    }, HISTORY_THUMBNAIL_DELAY);
+    return () => clearTimeout(timeoutId);
+  }, [history, parameters, isRendering, createThumbnail]);
+
+  // 履歴の項目の表示へ移動
+  const goToHistory = useCallback(
+    (index: number) => {
+      const entry = history.entries[index];
+      if (!entry || index === history.index) return;
+      setHistory((current) => NavigationHistory.go(current, index));
+      applyViewState(entry.view, { keepAutoIterations: true });
+    },
+    [history, applyViewState]
+  );
+
+  const undo = useCallback(() => goToHistory(history.index - 1), [history.index, goToHistory]);
+
+  const redo = useCallback(() => goToHistory(history.index + 1), [history.index, goToHistory]);
+
+  // ドラッグ・ホイールなどの連続した操作の開始と終了（操作中の変更は履歴の1つの項目にまとめる）
+  const beginGesture = useCallback(() => {
+    gestureRef.current = { active: true, recorded: false, endedAt: 0 };
+  }, []);
+
+  const endGesture = useCallback(() => {
+    gestureRef.current.active = false;
+    gestureRef.current.endedAt = performance.now();
+  }, []);
+
   // パラメータ更新関数
   const updateZoom = useCallback((value: number) => {
     setParameters((prev) => {
@@ -128,7 +761,9 @@ export const useFractalEngine = () => {
     });
   }, []);
 
+  // 手動での変更は自動調整より優先する
   const updateIterations = useCallback((value: number) => {
+    setAutoIterations(false);
     const clampedValue = Math.max(10, Math.min(100000, value));
     setParameters((prev) => {
       if ('iterations' in prev) {
@@ -142,6 +777,15 @@ export const useFractalEngine = () => {
     setParameters((prev) => ({ ...prev, ...updates }) as AllFractalParameters);
   }, []);
 
+  // Worker数の変更（処理中のタイルは現在のWorkerで完了させる）
+  const setWorkerCount = useCallback((count: number) => {
+    const engine = engineRef.current;
+    if (!engine) return;
+    engine.setWorkerCount(count);
+    setWorkerCountState(engine.availableWorkers);
+    SettingsStore.update({ renderSettings: { workerCount: engine.availableWorkers } });
+  }, []);
+
   const resetView = useCallback(() => {
     setParameters(getDefaultParameters(fractalType));
   }, [fractalType]);
@@ -183,6 +827,7 @@ export const useFractalEngine = () => {
   // クリーンアップ
   useEffect(() => {
     return () => {
+      posterControllerRef.current?.abort();
       if (engineRef.current) {
         engineRef.current.dispose();
       }
@@ -209,15 +854,28 @@ export const useFractalEngine = () => {
     setError,
     isRendering,
     renderProgress,
+    renderPass,
     useWebGPU,
     setUseWebGPU,
     useMultiThread,
     setUseMultiThread,
+    autoIterations,
+    setAutoIterations,
+    workerCount,
+    setWorkerCount,
+    maxWorkers: FractalEngine.maxWorkers,
     enableAnimation,
     setEnableAnimation,
     paletteType,
     setPaletteType,
+    smoothColoring,
+    setSmoothColoring,
+    antiAliasing,
+    setAntiAliasing,
     performanceMetrics,
+    posterProgress,
+    isGPUPresented,
+    isPreviewVisible,
 
     // デュアルビューモード関連
     isDualView,
@@ -229,6 +887,28 @@ export const useFractalEngine = () => {
     // Functions
     initializeEngine,
     renderFractal,
+    exportImage,
+    exportPoster,
+    cancelPosterExport,
+    importImage,
+    applyViewState,
+    resetSettings,
+    bookmarks,
+    addBookmark,
+    applyBookmark,
+    renameBookmark,
+    deleteBookmark,
+    moveBookmark,
+    exportBookmarks,
+    importBookmarks,
+    history,
+    canUndo: NavigationHistory.canUndo(history),
+    canRedo: NavigationHistory.canRedo(history),
+    undo,
+    redo,
+    goToHistory,
+    beginGesture,
+    endGesture,
     updateZoom,
     updateIterations,
     updateParameters,
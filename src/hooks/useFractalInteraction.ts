@@ -1,18 +1,31 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
+import { CoordinateTransform } from '@/lib/fractal-utils';
+import { PreciseCoordinate } from '@/lib/precise-coordinates';
 import type { AllFractalParameters } from '@/types/fractal';
 
+// 摂動法による深いズームに対応した最大ズーム倍率
+const MAX_ZOOM = 1e60;
+
+// ホイール操作を1回の操作とみなす、最後の回転からの時間（ms）
+const WHEEL_GESTURE_IDLE = 300;
+
 interface UseFractalInteractionProps {
   parameters: AllFractalParameters;
   setParameters: (
     params: AllFractalParameters | ((prev: AllFractalParameters) => AllFractalParameters)
   ) => void;
   canvasSize: { width: number; height: number };
+  // ドラッグ・ピンチ・ホイールなどの連続した操作の開始と終了（履歴を1つの項目にまとめるため）
+  onGestureStart?: () => void;
+  onGestureEnd?: () => void;
 }
 
 export const useFractalInteraction = ({
   parameters,
   setParameters,
   canvasSize,
+  onGestureStart,
+  onGestureEnd,
 }: UseFractalInteractionProps) => {
   // マウス/タッチ操作用のstate
   const [isDragging, setIsDragging] = useState(false);
@@ -30,6 +43,21 @@ export const useFractalInteraction = ({
   const [lastPinchDistance, setLastPinchDistance] = useState(0);
   const [lastPinchCenter, setLastPinchCenter] = useState({ x: 0, y: 0 });
 
+  // パンの移動量の端数（整数画素に丸めた残りを次の移動に繰り越す）
+  const panRemainderRef = useRef({ x: 0, y: 0 });
+
+  // ホイール操作の終了を判定するタイマー（操作中でなければ null）
+  const wheelTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // パンを整数画素単位にそろえ、エンジンが前のフレームを平行移動して再利用できるようにする
+  const snapPanDelta = useCallback((deltaX: number, deltaY: number) => {
+    const x = deltaX + panRemainderRef.current.x;
+    const y = deltaY + panRemainderRef.current.y;
+    const snapped = { x: Math.round(x), y: Math.round(y) };
+    panRemainderRef.current = { x: x - snapped.x, y: y - snapped.y };
+    return snapped;
+  }, []);
+
   // 2点間の距離を計算
   const getDistance = useCallback((touch1: Touch, touch2: Touch) => {
     const dx = touch1.clientX - touch2.clientX;
@@ -52,6 +80,7 @@ export const useFractalInteraction = ({
 
       if (event.touches.length === 1 && event.touches[0]) {
         // シングルタッチ - タップまたはドラッグの可能性
+        onGestureStart?.();
         const touch = event.touches[0];
         const now = Date.now();
         setTouchStartTime(now);
@@ -68,7 +97,7 @@ export const useFractalInteraction = ({
         setLastPinchCenter(center);
       }
     },
-    [getDistance, getCenter]
+    [getDistance, getCenter, onGestureStart]
   );
 
   const handleTouchMove = useCallback(
@@ -101,23 +130,24 @@ export const useFractalInteraction = ({
           const deltaX = touch.clientX - lastPointerPos.x;
           const deltaY = touch.clientY - lastPointerPos.y;
 
-          const canvasDeltaX = (deltaX / rect.width) * canvasSize.width;
-          const canvasDeltaY = (deltaY / rect.height) * canvasSize.height;
-          const aspectRatio = canvasSize.width / canvasSize.height;
-          const scale = 3.0 / parameters.zoom;
-
-          setParameters((prev) => {
-            if ('centerX' in prev && 'centerY' in prev) {
-              return {
-                ...prev,
-                centerX: prev.centerX - (canvasDeltaX * scale * aspectRatio) / canvasSize.width,
-                centerY: prev.centerY - (canvasDeltaY * scale) / canvasSize.height,
-              } as AllFractalParameters;
-            }
-            return prev;
-          });
-
+          const canvasDelta = snapPanDelta(
+            (deltaX / rect.width) * canvasSize.width,
+            (deltaY / rect.height) * canvasSize.height
+          );
           setLastPointerPos({ x: touch.clientX, y: touch.clientY });
+          // 1画素に満たない移動は端数として繰り越すだけで、パラメータは更新しない
+          if (canvasDelta.x === 0 && canvasDelta.y === 0) return;
+
+          const delta = CoordinateTransform.screenDeltaToComplex(
+            canvasDelta.x,
+            canvasDelta.y,
+            canvasSize.width,
+            canvasSize.height,
+            parameters.zoom
+          );
+
+          // 中心座標は高精度のまま差分だけ移動
+          setParameters((prev) => PreciseCoordinate.offsetCenter(prev, -delta.real, -delta.imag));
         }
       } else if (event.touches.length === 2 && isPinching && event.touches[0] && event.touches[1]) {
         // ピンチズーム
@@ -137,21 +167,20 @@ export const useFractalInteraction = ({
           const centerY = center.y - rect.top;
           const canvasX = (centerX / rect.width) * canvasSize.width;
           const canvasY = (centerY / rect.height) * canvasSize.height;
-          const aspectRatio = canvasSize.width / canvasSize.height;
-          const currentScale = 3.0 / parameters.zoom;
-          const complexX =
-            ('centerX' in parameters ? parameters.centerX : 0) +
-            ((canvasX - canvasSize.width / 2) * currentScale * aspectRatio) / canvasSize.width;
-          const complexY =
-            ('centerY' in parameters ? parameters.centerY : 0) +
-            ((canvasY - canvasSize.height / 2) * currentScale) / canvasSize.height;
-
-          setParameters((prev) => ({
-            ...prev,
-            zoom: Math.max(0.001, Math.min(1e15, prev.zoom * zoomFactor)),
-            centerX: complexX,
-            centerY: complexY,
-          }));
+          const delta = CoordinateTransform.screenDeltaToComplex(
+            canvasX - canvasSize.width / 2,
+            canvasY - canvasSize.height / 2,
+            canvasSize.width,
+            canvasSize.height,
+            parameters.zoom
+          );
+
+          setParameters((prev) =>
+            PreciseCoordinate.withZoom(
+              PreciseCoordinate.offsetCenter(prev, delta.real, delta.imag),
+              Math.max(0.001, Math.min(MAX_ZOOM, prev.zoom * zoomFactor))
+            )
+          );
         }
 
         setLastPinchDistance(distance);
@@ -168,6 +197,7 @@ export const useFractalInteraction = ({
       setParameters,
       getDistance,
       getCenter,
+      snapPanDelta,
     ]
   );
 
@@ -193,26 +223,15 @@ export const useFractalInteraction = ({
               // タップした位置を中心に設定（PC版と同じ動作）
               const canvasX = (x / rect.width) * canvasSize.width;
               const canvasY = (y / rect.height) * canvasSize.height;
-              const aspectRatio = canvasSize.width / canvasSize.height;
-              const scale = 3.0 / parameters.zoom;
-
-              const complexX =
-                ('centerX' in parameters ? parameters.centerX : 0) +
-                ((canvasX - canvasSize.width / 2) * scale * aspectRatio) / canvasSize.width;
-              const complexY =
-                ('centerY' in parameters ? parameters.centerY : 0) +
-                ((canvasY - canvasSize.height / 2) * scale) / canvasSize.height;
-
-              setParameters((prev) => {
-                if ('centerX' in prev && 'centerY' in prev) {
-                  return {
-                    ...prev,
-                    centerX: complexX,
-                    centerY: complexY,
-                  } as AllFractalParameters;
-                }
-                return prev;
-              });
+              const delta = CoordinateTransform.screenDeltaToComplex(
+                canvasX - canvasSize.width / 2,
+                canvasY - canvasSize.height / 2,
+                canvasSize.width,
+                canvasSize.height,
+                parameters.zoom
+              );
+
+              setParameters((prev) => PreciseCoordinate.offsetCenter(prev, delta.real, delta.imag));
             }
           }
         }
@@ -221,6 +240,7 @@ export const useFractalInteraction = ({
         setIsPinching(false);
         setLastPinchDistance(0);
         setTouchStartTime(0);
+        onGestureEnd?.();
       } else if (event.touches.length === 1 && event.touches[0]) {
         setIsPinching(false);
         setLastPinchDistance(0);
@@ -228,16 +248,20 @@ export const useFractalInteraction = ({
         setLastPointerPos({ x: event.touches[0].clientX, y: event.touches[0].clientY });
       }
     },
-    [isDragging, touchStartTime, touchStartPos, canvasSize, parameters, setParameters]
+    [isDragging, touchStartTime, touchStartPos, canvasSize, parameters, setParameters, onGestureEnd]
   );
 
   // Pointer Event handlers (デスクトップ用)
-  const handlePointerDown = useCallback((event: React.PointerEvent) => {
-    event.preventDefault();
-    setIsDragging(true);
-    setLastPointerPos({ x: event.clientX, y: event.clientY });
-    (event.target as HTMLElement).setPointerCapture(event.pointerId);
-  }, []);
+  const handlePointerDown = useCallback(
+    (event: React.PointerEvent) => {
+      event.preventDefault();
+      setIsDragging(true);
+      setLastPointerPos({ x: event.clientX, y: event.clientY });
+      (event.target as HTMLElement).setPointerCapture(event.pointerId);
+      onGestureStart?.();
+    },
+    [onGestureStart]
+  );
 
   const handlePointerMove = useCallback(
     (event: React.PointerEvent) => {
@@ -251,58 +275,89 @@ export const useFractalInteraction = ({
       // 座標変換をその場で実行（parametersの最新値を使用）
       const canvasX = (pointerX / rect.width) * canvasSize.width;
       const canvasY = (pointerY / rect.height) * canvasSize.height;
-      const aspectRatio = canvasSize.width / canvasSize.height;
-      const scale = 3.0 / parameters.zoom;
-      const complexX =
-        ('centerX' in parameters ? parameters.centerX : 0) +
-        ((canvasX - canvasSize.width / 2) * scale * aspectRatio) / canvasSize.width;
-      const complexY =
-        ('centerY' in parameters ? parameters.centerY : 0) +
-        ((canvasY - canvasSize.height / 2) * scale) / canvasSize.height;
-
-      setCoordinates({ x: complexX, y: complexY });
+      const pointerDelta = CoordinateTransform.screenDeltaToComplex(
+        canvasX - canvasSize.width / 2,
+        canvasY - canvasSize.height / 2,
+        canvasSize.width,
+        canvasSize.height,
+        parameters.zoom
+      );
+
+      setCoordinates({
+        x: parameters.centerX + pointerDelta.real,
+        y: parameters.centerY + pointerDelta.imag,
+      });
 
       if (isDragging && !isPinching) {
         const deltaX = event.clientX - lastPointerPos.x;
         const deltaY = event.clientY - lastPointerPos.y;
 
-        const canvasDeltaX = (deltaX / rect.width) * canvasSize.width;
-        const canvasDeltaY = (deltaY / rect.height) * canvasSize.height;
-
-        setParameters((prev) => {
-          if ('centerX' in prev && 'centerY' in prev) {
-            return {
-              ...prev,
-              centerX: prev.centerX - (canvasDeltaX * scale * aspectRatio) / canvasSize.width,
-              centerY: prev.centerY - (canvasDeltaY * scale) / canvasSize.height,
-            } as AllFractalParameters;
-          }
-          return prev;
-        });
-
+        const canvasDelta = snapPanDelta(
+          (deltaX / rect.width) * canvasSize.width,
+          (deltaY / rect.height) * canvasSize.height
+        );
         setLastPointerPos({ x: event.clientX, y: event.clientY });
+        // 1画素に満たない移動は端数として繰り越すだけで、パラメータは更新しない
+        if (canvasDelta.x === 0 && canvasDelta.y === 0) return;
+
+        const delta = CoordinateTransform.screenDeltaToComplex(
+          canvasDelta.x,
+          canvasDelta.y,
+          canvasSize.width,
+          canvasSize.height,
+          parameters.zoom
+        );
+
+        // 中心座標は高精度のまま差分だけ移動
+        setParameters((prev) => PreciseCoordinate.offsetCenter(prev, -delta.real, -delta.imag));
       }
     },
-    [isDragging, isPinching, lastPointerPos, canvasSize, setParameters]
+    [isDragging, isPinching, lastPointerPos, canvasSize, setParameters, snapPanDelta]
   );
 
-  const handlePointerUp = useCallback((event: React.PointerEvent) => {
-    setIsDragging(false);
-    (event.target as HTMLElement).releasePointerCapture(event.pointerId);
-  }, []);
+  const handlePointerUp = useCallback(
+    (event: React.PointerEvent) => {
+      setIsDragging(false);
+      (event.target as HTMLElement).releasePointerCapture(event.pointerId);
+      onGestureEnd?.();
+    },
+    [onGestureEnd]
+  );
 
   const handleWheel = useCallback(
     (event: WheelEvent) => {
       event.preventDefault();
+      // 続けて回したホイールは1回の操作として扱う
+      if (wheelTimerRef.current) {
+        clearTimeout(wheelTimerRef.current);
+      } else {
+        onGestureStart?.();
+      }
+      wheelTimerRef.current = setTimeout(() => {
+        wheelTimerRef.current = null;
+        onGestureEnd?.();
+      }, WHEEL_GESTURE_IDLE);
+
       const zoomFactor = event.deltaY > 0 ? 0.8 : 1.25;
-      setParameters((prev) => ({
-        ...prev,
-        zoom: Math.max(0.001, Math.min(1e15, prev.zoom * zoomFactor)),
-      }));
+      setParameters((prev) =>
+        PreciseCoordinate.withZoom(
+          prev,
+          Math.max(0.001, Math.min(MAX_ZOOM, prev.zoom * zoomFactor))
+        )
+      );
     },
-    [setParameters]
+    [setParameters, onGestureStart, onGestureEnd]
   );
 
+  // アンマウント時にホイール操作の終了タイマーを止める
+  useEffect(() => {
+    return () => {
+      if (wheelTimerRef.current) {
+        clearTimeout(wheelTimerRef.current);
+      }
+    };
+  }, []);
+
   // イベントリスナーの設定
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -338,25 +393,15 @@ export const useFractalInteraction = ({
       // 座標変換をその場で実行
       const canvasX = (clickX / rect.width) * canvasSize.width;
       const canvasY = (clickY / rect.height) * canvasSize.height;
-      const aspectRatio = canvasSize.width / canvasSize.height;
-      const scale = 3.0 / parameters.zoom;
-      const complexX =
-        ('centerX' in parameters ? parameters.centerX : 0) +
-        ((canvasX - canvasSize.width / 2) * scale * aspectRatio) / canvasSize.width;
-      const complexY =
-        ('centerY' in parameters ? parameters.centerY : 0) +
-        ((canvasY - canvasSize.height / 2) * scale) / canvasSize.height;
-
-      setParameters((prev) => {
-        if ('centerX' in prev && 'centerY' in prev) {
-          return {
-            ...prev,
-            centerX: complexX,
-            centerY: complexY,
-          } as AllFractalParameters;
-        }
-        return prev;
-      });
+      const delta = CoordinateTransform.screenDeltaToComplex(
+        canvasX - canvasSize.width / 2,
+        canvasY - canvasSize.height / 2,
+        canvasSize.width,
+        canvasSize.height,
+        parameters.zoom
+      );
+
+      setParameters((prev) => PreciseCoordinate.offsetCenter(prev, delta.real, delta.imag));
     },
     [isDragging, isPinching, canvasSize, setParameters]
   );
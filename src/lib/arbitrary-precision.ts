@@ -0,0 +1,82 @@
+/**
+ * BigInt固定小数点による任意精度演算
+ * 実数 x を「x * 2^bits を丸めた整数」として保持する
+ */
+export const FixedPoint = {
+  /**
+   * ズーム倍率から必要な小数部ビット数を計算
+   * ピクセル間隔より十分細かい精度（+64bit）を確保する
+   */
+  precisionBitsForZoom: (zoom: number): number => {
+    const zoomBits = Math.max(0, Math.ceil(Math.log2(Math.max(1, zoom))));
+    // 32bit単位に切り上げてキャッシュ効率と再現性を確保
+    return Math.ceil((zoomBits + 64) / 32) * 32;
+  },
+
+  /**
+   * 倍精度浮動小数点数を固定小数点に変換（誤差なし）
+   */
+  fromNumber: (value: number, bits: number): bigint => {
+    if (!Number.isFinite(value) || value === 0) return 0n;
+
+    const sign = value < 0 ? -1n : 1n;
+    const abs = Math.abs(value);
+    if (abs < 2 ** -1000) return 0n;
+
+    // value = mantissa * 2^(exponent - 52) に分解（2の冪による除算は誤差なし）
+    const exponent = Math.floor(Math.log2(abs));
+    const shift = exponent - 52;
+    let mantissa = abs / 2 ** shift;
+    // log2の丸め誤差で仮数が53bitからずれた場合の補正
+    let adjustedShift = shift;
+    while (mantissa >= 2 ** 53) {
+      mantissa /= 2;
+      adjustedShift++;
+    }
+    while (mantissa < 2 ** 52) {
+      mantissa *= 2;
+      adjustedShift--;
+    }
+
+    const integer = BigInt(Math.round(mantissa));
+    const totalShift = adjustedShift + bits;
+    const scaled = totalShift >= 0 ? integer << BigInt(totalShift) : integer >> BigInt(-totalShift);
+    return sign * scaled;
+  },
+
+  /**
+   * 固定小数点を倍精度浮動小数点数に変換（上位64bitのみ使用）
+   */
+  toNumber: (value: bigint, bits: number): number => {
+    if (value === 0n) return 0;
+
+    const negative = value < 0n;
+    const abs = negative ? -value : value;
+    const length = abs.toString(16).length * 4;
+    const shift = Math.max(0, length - 64);
+    const top = Number(abs >> BigInt(shift));
+
+    // 指数が大きい場合のアンダーフローを避けるため2段階で乗算
+    const exponent = shift - bits;
+    const half = Math.trunc(exponent / 2);
+    const result = top * 2 ** half * 2 ** (exponent - half);
+    return negative ? -result : result;
+  },
+
+  /**
+   * 固定小数点同士の乗算
+   */
+  multiply: (a: bigint, b: bigint, bits: number): bigint => {
+    return (a * b) >> BigInt(bits);
+  },
+
+  /**
+   * 固定小数点の精度を変更
+   */
+  rescale: (value: bigint, fromBits: number, toBits: number): bigint => {
+    if (toBits === fromBits) return value;
+    return toBits > fromBits
+      ? value << BigInt(toBits - fromBits)
+      : value >> BigInt(fromBits - toBits);
+  },
+} as const;
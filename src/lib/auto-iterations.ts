@@ -0,0 +1,122 @@
+import type { FractalType, IterationBuffer } from '@/types/fractal';
+
+/**
+ * 反復回数の自動調整
+ *
+ * ズームが深くなるほど境界付近の点は脱出までに多くの反復を必要とするため、
+ * ズーム倍率の桁数から基準の反復回数を決める。
+ * さらに前のフレームで上限の近くで脱出した画素が多ければ、細部が切れているとみなして上乗せする。
+ * 上限に達した画素（saturatedFraction）は集合内部の点も含むため、上乗せの判断には使わない。
+ */
+
+// 反復回数のフレーム統計
+export interface IterationStatistics {
+  // 反復回数の上限に達した画素の割合（0〜1）
+  saturatedFraction: number;
+  // 上限の NEAR_LIMIT_RATIO 以上で脱出した画素の割合（0〜1）
+  nearLimitFraction: number;
+}
+
+// 反復回数の範囲（手動入力と同じ）
+const MIN_ITERATIONS = 10;
+const MAX_ITERATIONS = 100000;
+
+// ズーム倍率1での反復回数と、ズームの桁数に対する増え方
+const BASE_ITERATIONS = 100;
+const ITERATIONS_PER_DECADE = 150;
+const DEPTH_EXPONENT = 1.25;
+
+// 上限の近くで脱出したとみなす割合
+const NEAR_LIMIT_RATIO = 0.9;
+
+// 上乗せ倍率を増やす・減らすしきい値（間を空けて振動を防ぐ）
+const RAISE_THRESHOLD = 0.005;
+const LOWER_THRESHOLD = 0.0005;
+
+// 上乗せ倍率の変化量と上限
+const RAISE_FACTOR = 1.5;
+const LOWER_FACTOR = 1.25;
+const MAX_BOOST = 16;
+
+// 値が変わっても再レンダリングしない相対差
+const CHANGE_TOLERANCE = 0.1;
+
+export const AutoIterations = {
+  /**
+   * ズーム倍率から求める基準の反復回数
+   */
+  forZoom: (zoom: number): number => {
+    const depth = Math.max(0, Math.log10(zoom));
+    return BASE_ITERATIONS + ITERATIONS_PER_DECADE * depth ** DEPTH_EXPONENT;
+  },
+
+  /**
+   * 前のフレームの統計から上乗せ倍率を更新
+   */
+  adjustBoost: (boost: number, statistics: IterationStatistics): number => {
+    if (statistics.nearLimitFraction > RAISE_THRESHOLD) {
+      return Math.min(MAX_BOOST, boost * RAISE_FACTOR);
+    }
+    if (statistics.nearLimitFraction < LOWER_THRESHOLD) {
+      return Math.max(1, boost / LOWER_FACTOR);
+    }
+    return boost;
+  },
+
+  /**
+   * 自動調整した反復回数（10刻みで丸め、手動入力と同じ範囲に収める）
+   */
+  resolve: (zoom: number, boost: number): number => {
+    const iterations = Math.round((AutoIterations.forZoom(zoom) * boost) / 10) * 10;
+    return Math.min(MAX_ITERATIONS, Math.max(MIN_ITERATIONS, iterations));
+  },
+
+  /**
+   * 現在の反復回数から変える価値があるか（小さな変化での再レンダリングを避ける）
+   */
+  shouldUpdate: (current: number, next: number): boolean => {
+    return Math.abs(next - current) > current * CHANGE_TOLERANCE;
+  },
+
+  /**
+   * 上限の近くで脱出したとみなす反復回数
+   */
+  nearLimit: (maxIterations: number): number => maxIterations * NEAR_LIMIT_RATIO,
+
+  /**
+   * 数えた画素数からの統計（WebGPUで集計した場合）
+   */
+  fromCounts: (saturated: number, nearLimit: number, totalPixels: number): IterationStatistics => {
+    return {
+      saturatedFraction: totalPixels > 0 ? saturated / totalPixels : 0,
+      nearLimitFraction: totalPixels > 0 ? nearLimit / totalPixels : 0,
+    };
+  },
+
+  /**
+   * 反復回数バッファの統計
+   * ニュートン法は値に根の番号を含むため対象外（null）
+   */
+  measure: (
+    fractalType: FractalType,
+    iterationData: IterationBuffer,
+    maxIterations: number
+  ): IterationStatistics | null => {
+    const { data } = iterationData;
+    if (fractalType === 'newton' || data.length === 0) return null;
+
+    const nearLimit = AutoIterations.nearLimit(maxIterations);
+    let saturated = 0;
+    let escapedNearLimit = 0;
+    for (let index = 0; index < data.length; index++) {
+      const iterations = data[index] ?? 0;
+      if (iterations >= maxIterations) {
+        saturated++;
+      } else if (iterations >= nearLimit) {
+        escapedNearLimit++;
+      }
+    }
+
+    return AutoIterations.fromCounts(saturated, escapedNearLimit, data.length);
+  },
+} as const;
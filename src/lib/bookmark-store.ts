@@ -0,0 +1,95 @@
+import type { FractalBookmark } from '@/types/fractal';
+
+/**
+ * IndexedDB によるブックマークの保存
+ *
+ * ブックマークは数十件程度でサムネイルも小さいため、変更のたびに一覧全体を書き直す。
+ * 並び順は position に保存し、読み込み時にその順に並べる。
+ */
+
+const DATABASE_NAME = 'fractal-explorer';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'bookmarks';
+
+// 保存するレコード（並び順を含む）
+interface BookmarkRecord extends FractalBookmark {
+  position: number;
+}
+
+/**
+ * IndexedDB のリクエストを Promise に変換
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class BookmarkStore {
+  private database: Promise<IDBDatabase> | null = null;
+
+  /**
+   * IndexedDB を使えるか（プライベートブラウジングなどでは使えない場合がある）
+   */
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * 保存されたブックマークを並び順に読み込む
+   */
+  async load(): Promise<FractalBookmark[]> {
+    const database = await this.open();
+    const store = database.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const records = (await requestToPromise(store.getAll())) as BookmarkRecord[];
+    return records
+      .sort((a, b) => a.position - b.position)
+      .map(({ position: _position, ...bookmark }) => bookmark);
+  }
+
+  /**
+   * ブックマークの一覧を保存（保存済みの内容は置き換える）
+   */
+  async save(bookmarks: FractalBookmark[]): Promise<void> {
+    const database = await this.open();
+    const transaction = database.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    store.clear();
+    bookmarks.forEach((bookmark, position) => {
+      store.put({ ...bookmark, position } satisfies BookmarkRecord);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+    });
+  }
+
+  /**
+   * データベースを閉じる
+   */
+  close(): void {
+    const database = this.database;
+    this.database = null;
+    void database?.then((opened) => opened.close()).catch(() => undefined);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        }
+      };
+      this.database = requestToPromise(request);
+      // 開けなかった場合は次の呼び出しで開き直す
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+    return this.database;
+  }
+}
@@ -0,0 +1,96 @@
+import type { FractalBookmark, FractalViewState } from '@/types/fractal';
+import { ViewState } from './view-state';
+
+/**
+ * ブックマークの作成・並べ替えとJSONでの読み書き
+ *
+ * 読み込んだJSONは表示状態を ViewState で検証し、壊れた項目は読み飛ばす。
+ * 既存のブックマークと混ざっても重複しないよう、読み込んだ項目には新しいIDを振る。
+ */
+
+// 書き出すJSONの形式のバージョン
+const BOOKMARKS_VERSION = 1;
+
+// サムネイルとして受け付ける data URL
+const THUMBNAIL_PATTERN = /^data:image\/(png|jpeg|webp);base64,[A-Za-z0-9+/=]+$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export const Bookmarks = {
+  /**
+   * 表示状態からブックマークを作成
+   */
+  create: (view: FractalViewState, name: string, thumbnail?: string): FractalBookmark => {
+    return {
+      id: crypto.randomUUID(),
+      name,
+      fractalType: view.fractalType,
+      parameters: view.parameters,
+      paletteType: view.paletteType,
+      smooth: view.smooth,
+      ...(thumbnail ? { thumbnail } : {}),
+      createdAt: Date.now(),
+    };
+  },
+
+  /**
+   * 既定の名前（フラクタルタイプとズーム倍率）
+   */
+  defaultName: (view: FractalViewState): string => {
+    return `${view.fractalType} ×${view.parameters.zoom.toPrecision(3)}`;
+  },
+
+  /**
+   * 項目を移動した新しい配列（範囲外の移動は元の配列のまま）
+   */
+  move: (bookmarks: FractalBookmark[], id: string, offset: number): FractalBookmark[] => {
+    const from = bookmarks.findIndex((bookmark) => bookmark.id === id);
+    const to = from + offset;
+    const item = bookmarks[from];
+    if (!item || to < 0 || to >= bookmarks.length) return bookmarks;
+
+    const moved = bookmarks.filter((bookmark) => bookmark.id !== id);
+    moved.splice(to, 0, item);
+    return moved;
+  },
+
+  /**
+   * JSON文字列に変換
+   */
+  toJson: (bookmarks: FractalBookmark[]): string => {
+    return JSON.stringify({ version: BOOKMARKS_VERSION, bookmarks }, null, 2);
+  },
+
+  /**
+   * JSON文字列から読み込む（形式が異なる場合は例外）
+   */
+  fromJson: (text: string): FractalBookmark[] => {
+    const value: unknown = JSON.parse(text);
+    if (
+      !isRecord(value) ||
+      value.version !== BOOKMARKS_VERSION ||
+      !Array.isArray(value.bookmarks)
+    ) {
+      throw new Error('Unsupported bookmark file');
+    }
+
+    const bookmarks: FractalBookmark[] = [];
+    for (const entry of value.bookmarks) {
+      const view = ViewState.normalize(entry);
+      if (!view || !isRecord(entry)) continue;
+
+      const { name, thumbnail, createdAt } = entry;
+      bookmarks.push({
+        ...Bookmarks.create(
+          view,
+          typeof name === 'string' && name.trim() ? name.trim() : Bookmarks.defaultName(view),
+          typeof thumbnail === 'string' && THUMBNAIL_PATTERN.test(thumbnail) ? thumbnail : undefined
+        ),
+        ...(typeof createdAt === 'number' && Number.isFinite(createdAt) ? { createdAt } : {}),
+      });
+    }
+    return bookmarks;
+  },
+} as const;
@@ -0,0 +1,75 @@
+/**
+ * キャンバスサイズのプリセットと上限
+ *
+ * デスクトップはプリセットから選び、モバイルは画面の大きさに合わせる（一辺 MOBILE_MAX_SIZE まで）。
+ * 保存した設定や画像から読み込んだサイズもこの範囲に収め、描画できないほど大きなキャンバスを作らない。
+ */
+
+// キャンバスの幅と高さ
+export interface CanvasDimensions {
+  width: number;
+  height: number;
+}
+
+// デスクトップの最大のサイズ（画像から読み込んだサイズもこれに収める）
+const LARGEST_DESKTOP_PRESET: CanvasDimensions = { width: 2560, height: 1440 };
+
+// デスクトップで選べるサイズ（小さい順）
+const DESKTOP_PRESETS: readonly CanvasDimensions[] = [
+  { width: 800, height: 600 },
+  { width: 1024, height: 768 },
+  { width: 1920, height: 1080 },
+  LARGEST_DESKTOP_PRESET,
+];
+
+// モバイルの一辺の上限（パフォーマンス考慮）
+const MOBILE_MAX_SIZE = 2048;
+
+// 縮小したときの一辺の下限
+const MIN_SIZE = 64;
+
+export const CanvasSize = {
+  desktopPresets: DESKTOP_PRESETS,
+
+  /**
+   * デスクトップのプリセットのいずれかと一致するか
+   */
+  isDesktopPreset: (size: CanvasDimensions): boolean => {
+    return DESKTOP_PRESETS.some(
+      (preset) => preset.width === size.width && preset.height === size.height
+    );
+  },
+
+  /**
+   * 画像などのサイズを最大のプリセットに収める（縦横比を保って縮小、不正なサイズは null）
+   */
+  fitDesktop: (size: CanvasDimensions): CanvasDimensions | null => {
+    const { width, height } = size;
+    if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+      return null;
+    }
+    const scale = Math.min(
+      1,
+      LARGEST_DESKTOP_PRESET.width / width,
+      LARGEST_DESKTOP_PRESET.height / height
+    );
+    return {
+      width: Math.max(MIN_SIZE, Math.round(width * scale)),
+      height: Math.max(MIN_SIZE, Math.round(height * scale)),
+    };
+  },
+
+  /**
+   * モバイルで画面の大きさ（デバイスピクセル単位）に合わせたサイズ
+   */
+  forMobileScreen: (
+    screenWidth: number,
+    screenHeight: number,
+    devicePixelRatio: number
+  ): CanvasDimensions => {
+    return {
+      width: Math.min(Math.floor(screenWidth * devicePixelRatio), MOBILE_MAX_SIZE),
+      height: Math.min(Math.floor(screenHeight * devicePixelRatio), MOBILE_MAX_SIZE),
+    };
+  },
+} as const;
@@ -1,41 +1,91 @@
 import type {
   AllFractalParameters,
+  AntiAliasingSettings,
   BurningShipParameters,
+  ColorPalette as ColorPaletteSettings,
   ExtendedPerformance,
   FractalType,
+  IterationBuffer,
   JuliaParameters,
   MandelbrotParameters,
   NewtonParameters,
-  WorkerErrorPayload,
 } from '@/types/fractal';
-import type {
-  CompleteMessage,
-  ProgressMessage,
-  RenderMessage,
-  WorkerMessage,
-} from '@/workers/fractal-worker';
+import type { CompleteMessage, RenderMessage, SharedTileBuffers } from '@/workers/fractal-worker';
+import { FixedPoint } from './arbitrary-precision';
+import { AutoIterations } from './auto-iterations';
 import { ColorPalette, FractalCalculations } from './fractal-utils';
-import { WebGPUEngine } from './webgpu-engine';
+import { IterationBuffers } from './iteration-buffer';
+import { ParameterHash } from './parameter-hash';
+import { Perturbation, type PerturbationData, type PerturbationFractalType } from './perturbation';
+import { PreciseCoordinate } from './precise-coordinates';
+import { ProgressiveSampling, type RenderPass, type SamplingPattern } from './progressive-sampling';
+import { LatestRequestScheduler, RenderCancellation } from './render-cancellation';
+import { Reprojection } from './reprojection';
+import { SmoothColoring } from './smooth-coloring';
+import { SampleAccumulator, type SampleOffset, Supersampling } from './supersampling';
+import { TileCache, TileGrid } from './tile-cache';
+import { type TileRequest, TileScheduler, TileSizeTuner } from './tile-scheduler';
+import { type GPUPrecision, WebGPUEngine } from './webgpu-engine';
+import { WorkerPool } from './worker-pool';
 
 export interface RenderOptions {
   width: number;
   height: number;
   paletteType?: string;
+  // 正規化反復回数による縞のないカラーリング（ニュートン法は対象外）
+  smooth?: boolean;
   useWebGPU?: boolean;
   useWorkers?: boolean;
+  // クロスオリジン分離時にWorkerが共有バッファへ直接書き込む（既定で有効、非対応環境では無視）
+  useSharedMemory?: boolean;
   workerCount?: number;
+  // Workerへ配るタイルの一辺（省略時は計測したタイルの計算時間から決める）
   tileSize?: number;
-  onProgress?: (progress: number) => void;
+  // 段階的レンダリング中は何番目のパスかも通知する（progress は全パスを通した進捗）
+  onProgress?: (progress: number, pass?: RenderPass) => void;
+  // 1/8 → 1/4 → 1/2 → 等倍の順に解像度を上げて描画する（WebGPUでは1回で描画）
+  progressive?: boolean;
+  // 段階的レンダリングの各パスの画像（最後のパスの画像は戻り値と同じ）
+  onPass?: (imageData: ImageData, pass: RenderPass) => void;
+  // 前回のフレームから整数画素だけパンした場合、重なる部分を再利用して新しく見える帯だけを計算する
+  reusePreviousFrame?: boolean;
+  // 複素平面のタイル単位で反復回数をキャッシュし、計算済みの場所は着色だけで描画する
+  useTileCache?: boolean;
+  // 描画したフレームを recolor 用に保持する（既定で有効、書き出しのタイルのような一度きりの描画では無効にする）
+  retainFrame?: boolean;
+  // 画素内の位置をずらした複数のサンプルから色を求める（段階的レンダリング・キャッシュとは併用しない）
+  antiAliasing?: AntiAliasingSettings;
+  // 中断されると AbortError で終了する（Workerの処理待ちタイルも取り消す）
+  signal?: AbortSignal;
 }
 
 export interface RenderResult {
   imageData: ImageData;
-  iterationData: number[][];
+  iterationData: IterationBuffer;
   renderTime: number;
   method: 'cpu' | 'webgpu' | 'workers';
   stats: RenderStats;
 }
 
+// 色だけに関わる設定（反復回数を計算し直さずに変更できる）
+export interface PaletteOptions {
+  paletteType?: string;
+  // 正規化反復回数は計算時に決まるため、計算時と同じ値のみ指定できる
+  smooth?: boolean;
+}
+
+// 再着色できる描画済みのフレーム（反復回数とその計算条件）
+export interface RenderedFrame {
+  fractalType: FractalType;
+  parameters: AllFractalParameters;
+  iterationData: IterationBuffer;
+  smooth: boolean;
+  method: RenderResult['method'];
+}
+
+// キャンバスへ直接表示した結果（CPUへ読み戻さないため画素・反復回数データを持たない）
+export type PresentationResult = Omit<RenderResult, 'imageData' | 'iterationData'>;
+
 export interface RenderStats {
   totalPixels: number;
   averageIterations: number;
@@ -44,6 +94,33 @@ export interface RenderStats {
   memoryUsed: number;
   tilesProcessed?: number;
   workersUsed?: number;
+  sharedMemory?: boolean;
+  // 前のフレームから再利用した画素数
+  reusedPixels?: number;
+  // タイルキャッシュから再利用したタイル数
+  cachedTiles?: number;
+  deepZoom?: DeepZoomStats;
+  precision?: RenderPrecision;
+  // スーパーサンプリングでの1画素あたりの平均サンプル数
+  samplesPerPixel?: number;
+  // 反復回数の上限に達した画素の割合（ニュートン法は対象外）
+  saturatedFraction?: number;
+  // 上限の近くで脱出した画素の割合（反復回数の自動調整に使う）
+  nearLimitFraction?: number;
+}
+
+// 実際に使用した演算精度（arbitrary は摂動法のBigInt参照軌道）
+export type RenderPrecision = GPUPrecision | 'f64' | 'arbitrary';
+
+export interface DeepZoomStats {
+  referenceIterations: number;
+  skippedIterations: number;
+  precisionBits: number;
+}
+
+export interface FractalEngineOptions {
+  // タイルキャッシュのメモリ上限（バイト）
+  tileCacheBudget?: number;
 }
 
 export interface PerformanceMetrics {
@@ -54,12 +131,47 @@ export interface PerformanceMetrics {
   totalRenderTime: number;
   memoryUsage: number;
   gpuMemoryUsage?: number;
+  // Workerの処理を待っているタイル数
+  queueDepth: number;
+  // 直近のWorkerレンダリングでの各Workerの稼働率（0〜1）
+  workerUtilization: number[];
+}
+
+// 段階的レンダリングのパスと、全パスで共有する反復回数バッファ
+interface PassTarget {
+  pass: RenderPass;
+  iterationData: IterationBuffer;
+  // Workerが直接書き込む共有バッファ（iterations は iterationData と同じメモリ）
+  shared?: SharedTileBuffers;
+}
+
+// パンで再利用する前回のフレーム
+interface PreviousFrame {
+  fractalType: FractalType;
+  parameters: AllFractalParameters;
+  smooth: boolean;
+  iterationData: IterationBuffer;
+}
+
+// 摂動法の参照軌道と、中心座標の固定小数点の精度
+interface PreparedPerturbation {
+  perturbation: PerturbationData;
+  bits: number;
+}
+
+// Worker数の上限
+const MAX_WORKERS = 32;
+
+/**
+ * SharedArrayBuffer をWorkerと共有できるか（COOP/COEP によるクロスオリジン分離が必要）
+ */
+function isSharedMemoryAvailable(): boolean {
+  return typeof SharedArrayBuffer !== 'undefined' && globalThis.crossOriginIsolated === true;
 }
 
 export class FractalEngine {
   private webgpuEngine: WebGPUEngine | null = null;
-  private workers: Worker[] = [];
-  private workerPool: Worker[] = [];
+  private workerPool: WorkerPool | null = null;
   private isWebGPUSupported = false;
   private performanceHistory: number[] = [];
   private renderCount = 0;
@@ -67,11 +179,25 @@ export class FractalEngine {
   private initializationPromise: Promise<void>;
   private isInitialized = false;
   private currentRenderingTasks = new Map<string, Promise<RenderResult>>();
-
-  constructor() {
+  private requestScheduler = new LatestRequestScheduler();
+  private previousFrame: PreviousFrame | null = null;
+  private lastFrame: RenderedFrame | null = null;
+  private tileCache: TileCache;
+  private tileSizeTuner = new TileSizeTuner();
+  private workerUtilization: number[] = [];
+
+  constructor(options: FractalEngineOptions = {}) {
+    this.tileCache = new TileCache(options.tileCacheBudget);
     this.initializationPromise = this.initializeAsync();
   }
 
+  /**
+   * タイルキャッシュのメモリ上限を変更（超えた分は古いタイルから破棄）
+   */
+  setTileCacheBudget(budgetBytes: number): void {
+    this.tileCache.setBudget(budgetBytes);
+  }
+
   /**
    * 初期化完了を待つ
    */
@@ -106,73 +232,63 @@ export class FractalEngine {
     this.isInitialized = true;
     // console.log('🎯 FractalEngine 初期化完了');
     // console.log(`  - WebGPU対応: ${this.isWebGPUSupported}`);
-    // console.log(`  - 利用可能Worker数: ${this.workerPool.length}`);
+    // console.log(`  - 利用可能Worker数: ${this.availableWorkers}`);
   }
 
   private async initializeWorkerPool(): Promise<void> {
-    const hardwareConcurrency = navigator.hardwareConcurrency;
-    // 論理スレッド数を最大限活用（ただし安全性のため32を上限とする）
-    const workerCount = Math.min(hardwareConcurrency || 4, 32);
+    // 論理スレッド数を最大限活用（ただし安全性のため上限を設ける）
+    const workerCount = FractalEngine.maxWorkers;
 
-    // console.log(`🔧 Worker初期化開始:`);
-    // console.log(`  - navigator.hardwareConcurrency: ${hardwareConcurrency}`);
-    // console.log(`  - 作成予定Worker数: ${workerCount} (論理スレッド数を最大限活用)`);
+    // console.log(`🔧 Worker初期化開始: ${workerCount} workers`);
 
-    const workerPromises: Promise<Worker>[] = [];
-
-    for (let i = 0; i < workerCount; i++) {
-      const workerPromise = new Promise<Worker>((resolve, reject) => {
-        try {
-          // console.log(`  Worker ${i + 1} 作成中...`);
-          const worker = new Worker(new URL('../workers/fractal-worker.ts', import.meta.url), {
+    try {
+      this.workerPool = new WorkerPool({
+        createWorker: () =>
+          new Worker(new URL('../workers/fractal-worker.ts', import.meta.url), {
             type: 'module',
-          });
-
-          // Worker初期化完了を待つ
-          let workerInitialized = false;
-          const initTimeout = setTimeout(() => {
-            if (!workerInitialized) {
-              console.warn(`⚠️ Worker ${i + 1} 初期化タイムアウト`);
-              resolve(worker); // タイムアウトしても追加
-            }
-          }, 2000);
-
-          worker.addEventListener('message', (event) => {
-            if (event.data.id === 'init' && !workerInitialized) {
-              // console.log(`✅ Worker ${i + 1} 初期化完了:`, event.data.payload);
-              workerInitialized = true;
-              clearTimeout(initTimeout);
-              resolve(worker);
-            }
-          });
-
-          worker.addEventListener('error', (error) => {
-            console.error(`❌ Worker ${i + 1} エラー:`, error);
-            clearTimeout(initTimeout);
-            reject(error);
-          });
-        } catch (error) {
-          console.error(`❌ Worker ${i + 1} 作成失敗:`, error);
-          reject(error);
-        }
+          }),
+        size: workerCount,
       });
-
-      workerPromises.push(workerPromise);
+      // 起動に失敗したWorkerはプールから除かれる
+      await this.workerPool.ready();
+    } catch (error) {
+      console.error('❌ Worker作成失敗:', error);
+      this.workerPool?.dispose();
+      this.workerPool = null;
     }
 
-    // 全Workerの初期化完了を待つ（失敗したものは除外）
-    const results = await Promise.allSettled(workerPromises);
+    // console.log(`🎯 Worker初期化完了: ${this.availableWorkers}/${workerCount} workers`);
+  }
 
-    results.forEach((result, index) => {
-      if (result.status === 'fulfilled') {
-        this.workerPool.push(result.value);
-        // console.log(`  ✅ Worker ${index + 1} 追加成功`);
-      } else {
-        console.error(`  ❌ Worker ${index + 1} 初期化失敗:`, result.reason);
-      }
-    });
+  /**
+   * 作成できるWorker数の上限（論理スレッド数、最大32）
+   */
+  static get maxWorkers(): number {
+    const hardwareConcurrency =
+      typeof navigator !== 'undefined' ? navigator.hardwareConcurrency : undefined;
+    return Math.min(hardwareConcurrency || 4, MAX_WORKERS);
+  }
 
-    // console.log(`🎯 Worker初期化完了: ${this.workerPool.length}/${workerCount} workers`);
+  /**
+   * Worker数を変更（処理中のWorkerはタイルを終えてから終了する）
+   */
+  setWorkerCount(count: number): void {
+    this.workerPool?.resize(Math.min(Math.max(1, Math.round(count)), FractalEngine.maxWorkers));
+  }
+
+  /**
+   * 新しい表示のリクエストを開始し、前のリクエストを中断する（最新のリクエストが優先）
+   * 返されたシグナルを renderFractal / presentFractal の signal に渡す
+   */
+  beginRequest(signal?: AbortSignal): AbortSignal {
+    return this.requestScheduler.next(signal);
+  }
+
+  /**
+   * beginRequest で開始したリクエストを中断
+   */
+  cancelRequest(): void {
+    this.requestScheduler.cancel();
   }
 
   /**
@@ -183,17 +299,16 @@ export class FractalEngine {
     parameters: AllFractalParameters,
     options: RenderOptions
   ): Promise<RenderResult> {
-    // 軽量な重複レンダリング防止のためのキーを生成（JSON.stringify回避）
-    let renderKey: string;
-    if (fractalType === 'julia') {
-      const juliaParams = parameters as JuliaParameters;
-      renderKey = `julia_${juliaParams.c.real.toFixed(4)}_${juliaParams.c.imag.toFixed(4)}_${juliaParams.iterations}_${options.width}_${options.height}`;
-    } else {
-      renderKey = `${fractalType}_${parameters.iterations}_${options.width}_${options.height}`;
-    }
+    RenderCancellation.throwIfAborted(options.signal);
+
+    // 出力に影響するパラメータ・オプションをすべて含むキーで重複レンダリングを防ぐ
+    const renderKey = ParameterHash.forRender(fractalType, parameters, options);
 
     // 同じ内容のレンダリングが既に実行中の場合は、その結果を返す
-    const existingTask = this.currentRenderingTasks.get(renderKey);
+    // 中断可能なレンダリング（他の呼び出し元の中断に巻き込まれる）と
+    // 途中のパスを受け取るレンダリング（後の呼び出し元にパスが届かない）は共有しない
+    const shareable = !options.signal && !options.onPass;
+    const existingTask = shareable ? this.currentRenderingTasks.get(renderKey) : undefined;
     if (existingTask) {
       return existingTask;
     }
@@ -202,21 +317,33 @@ export class FractalEngine {
 
     const renderTask = (async (): Promise<RenderResult> => {
       try {
-        let result: RenderResult;
-
-        // レンダリング方法を決定
-        if (
-          options.useWebGPU &&
-          this.isWebGPUSupported &&
-          this.webgpuEngine?.initialized &&
-          fractalType === 'mandelbrot'
-        ) {
-          // WebGPUは現在マンデルブロ集合のみ対応
-          result = await this.renderWithWebGPU(parameters as MandelbrotParameters, options);
-        } else if (options.useWorkers && this.workerPool.length > 0) {
-          result = await this.renderWithWorkers(fractalType, parameters, options);
-        } else {
-          result = await this.renderWithCPU(fractalType, parameters, options);
+        const supersampled = Supersampling.factor(options.antiAliasing) > 1;
+        const result = supersampled
+          ? await this.renderSupersampled(fractalType, parameters, options)
+          : await this.renderFrame(fractalType, parameters, options);
+
+        // 完了までに中断された結果は古いため返さない
+        RenderCancellation.throwIfAborted(options.signal);
+
+        // スーパーサンプリングした画像は1つのサンプル位置の反復回数からは再現できないため、
+        // 再着色やパン時の再利用には使わない
+        if (!supersampled && options.retainFrame !== false) {
+          this.lastFrame = {
+            fractalType,
+            parameters,
+            iterationData: result.iterationData,
+            smooth: options.smooth ?? false,
+            method: result.method,
+          };
+
+          if (options.reusePreviousFrame) {
+            this.previousFrame = {
+              fractalType,
+              parameters,
+              smooth: options.smooth ?? false,
+              iterationData: result.iterationData,
+            };
+          }
         }
 
         const renderTime = performance.now() - startTime;
@@ -224,32 +351,611 @@ export class FractalEngine {
         // パフォーマンス統計を更新
         this.updatePerformanceStats(renderTime);
 
+        const iterationStatistics = AutoIterations.measure(
+          fractalType,
+          result.iterationData,
+          parameters.iterations
+        );
+
         return {
           ...result,
           renderTime,
           stats: {
             ...result.stats,
+            ...iterationStatistics,
+            precision: result.stats.precision ?? 'f64',
             performanceScore: this.calculatePerformanceScore(result.stats),
           },
         };
       } finally {
         // タスク完了後にキャッシュから削除
-        this.currentRenderingTasks.delete(renderKey);
+        if (shareable) {
+          this.currentRenderingTasks.delete(renderKey);
+        }
       }
     })();
 
     // タスクをキャッシュに保存
-    this.currentRenderingTasks.set(renderKey, renderTask);
+    if (shareable) {
+      this.currentRenderingTasks.set(renderKey, renderTask);
+    }
 
     return renderTask;
   }
 
+  /**
+   * 1回分のフレームをレンダリング（表示位置と設定からレンダリング方法を選ぶ）
+   */
+  private async renderFrame(
+    fractalType: FractalType,
+    parameters: AllFractalParameters,
+    options: RenderOptions
+  ): Promise<RenderResult> {
+    const gpuPrecision = this.getGPUPrecision(fractalType, parameters, options);
+    const panOffset =
+      options.reusePreviousFrame && !gpuPrecision
+        ? this.findPanOffset(fractalType, parameters, options)
+        : null;
+
+    // レンダリング方法を決定
+    if (panOffset && this.previousFrame) {
+      return this.renderPanned(fractalType, parameters, options, this.previousFrame, panOffset);
+    }
+    if (
+      options.useTileCache &&
+      !gpuPrecision &&
+      !Perturbation.isDeepZoom(fractalType, parameters.zoom)
+    ) {
+      // 摂動法ではタイルごとに参照軌道が必要になるため、キャッシュは倍精度の範囲のみ
+      return this.renderWithTileCache(fractalType, parameters, options);
+    }
+    if (options.progressive && !gpuPrecision) {
+      return this.renderProgressive(fractalType, parameters, options);
+    }
+    if (Perturbation.isDeepZoom(fractalType, parameters.zoom)) {
+      // 倍精度の限界を超えるズームでは摂動法を使用（WebGPUは非対応）
+      return this.renderWithPerturbation(
+        fractalType as PerturbationFractalType,
+        parameters,
+        options
+      );
+    }
+    if (gpuPrecision) {
+      return this.renderWithWebGPU(fractalType, parameters, options, gpuPrecision);
+    }
+    if (options.useWorkers && this.availableWorkers > 0) {
+      return this.renderWithWorkers(fractalType, parameters, options);
+    }
+    return this.renderWithCPU(fractalType, parameters, options);
+  }
+
+  /**
+   * スーパーサンプリングによるアンチエイリアス
+   * サンプル位置ごとに中心をずらしたフレームを通常のレンダラーで描画し、フィルタで重み付けして合成する
+   * 適応型では画素の中心で1回描画した後、隣接画素と色の差が大きい画素だけに追加のサンプルを計算する
+   */
+  private async renderSupersampled(
+    fractalType: FractalType,
+    parameters: AllFractalParameters,
+    options: RenderOptions
+  ): Promise<RenderResult> {
+    const { width, height, smooth = false } = options;
+    const settings = options.antiAliasing as AntiAliasingSettings;
+    const offsets = Supersampling.offsets(settings);
+    const pixelSize = 3.0 / (parameters.zoom * height);
+
+    // 各サンプル位置のフレームは1回で描画し、キャッシュや前のフレームは使わない
+    const { antiAliasing: _antiAliasing, onPass: _onPass, ...frameOptions } = options;
+    const renderSample = (offset: SampleOffset | null, progressStart: number, share: number) =>
+      this.renderFrame(
+        fractalType,
+        offset
+          ? PreciseCoordinate.offsetCenter(parameters, offset.x * pixelSize, offset.y * pixelSize)
+          : parameters,
+        {
+          ...frameOptions,
+          progressive: false,
+          reusePreviousFrame: false,
+          useTileCache: false,
+          onProgress: (progress) => options.onProgress?.(progressStart + progress * share),
+        }
+      );
+
+    // 摂動法は点ごとの計算ができないため、適応型は倍精度の範囲のみ
+    if (settings.adaptive && !Perturbation.isDeepZoom(fractalType, parameters.zoom)) {
+      const base = await renderSample(null, 0, 0.5);
+      RenderCancellation.throwIfAborted(options.signal);
+
+      const mask = Supersampling.edgeMask(base.imageData);
+      const imageData = new ImageData(new Uint8ClampedArray(base.imageData.data), width, height);
+      const paletteType = this.resolvePaletteType(
+        fractalType,
+        options.paletteType,
+        base.method === 'workers'
+      );
+      const weights = offsets.map(
+        (offset) =>
+          Supersampling.kernel(settings.filter, offset.x) *
+          Supersampling.kernel(settings.filter, offset.y)
+      );
+      const totalWeight = 1 + weights.reduce((sum, weight) => sum + weight, 0);
+
+      let refinedPixels = 0;
+      for (let y = 0; y < height; y++) {
+        const columns: number[] = [];
+        for (let x = 0; x < width; x++) {
+          if (mask[y * width + x]) columns.push(x);
+        }
+        if (columns.length === 0) continue;
+
+        // 行内の対象画素の追加サンプルをまとめて着色
+        const samples = IterationBuffers.create(offsets.length, columns.length);
+        columns.forEach((x, row) => {
+          offsets.forEach((offset, index) => {
+            samples.data[row * offsets.length + index] = this.calculatePoint(
+              fractalType,
+              parameters,
+              parameters.centerX + (x + offset.x - width / 2) * pixelSize,
+              parameters.centerY + (y + offset.y - height / 2) * pixelSize,
+              smooth
+            );
+          });
+        });
+        const colors = this.colorize(fractalType, parameters, samples, paletteType, smooth).data;
+
+        // 中心のサンプル（重み1）と追加のサンプルを重み付きで平均
+        columns.forEach((x, row) => {
+          const pixel = (y * width + x) * 4;
+          for (let channel = 0; channel < 4; channel++) {
+            let sum = base.imageData.data[pixel + channel] ?? 0;
+            weights.forEach((weight, index) => {
+              sum += weight * (colors[(row * offsets.length + index) * 4 + channel] ?? 0);
+            });
+            imageData.data[pixel + channel] = Math.round(sum / totalWeight);
+          }
+        });
+        refinedPixels += columns.length;
+
+        if (y % 20 === 0) {
+          options.onProgress?.(0.5 + (0.5 * y) / height);
+          await RenderCancellation.checkpoint(options.signal);
+        }
+      }
+
+      return {
+        ...base,
+        imageData,
+        stats: {
+          ...base.stats,
+          samplesPerPixel: 1 + (refinedPixels * offsets.length) / (width * height),
+        },
+      };
+    }
+
+    const accumulator = new SampleAccumulator(width, height, settings.filter);
+    let first: RenderResult | null = null;
+    for (const [index, offset] of offsets.entries()) {
+      const sample = await renderSample(offset, index / offsets.length, 1 / offsets.length);
+      RenderCancellation.throwIfAborted(options.signal);
+      accumulator.add(sample.imageData, offset);
+      first ??= sample;
+    }
+    if (!first) {
+      throw new Error('No supersampling offsets');
+    }
+
+    return {
+      ...first,
+      imageData: accumulator.resolve(),
+      stats: { ...first.stats, samplesPerPixel: offsets.length },
+    };
+  }
+
+  /**
+   * 描画済みのフレームを反復回数を計算し直さずに着色し直す（既定は最後にレンダリングしたフレーム）
+   * smooth が計算時と異なる場合は再計算が必要なため null
+   */
+  recolor(
+    paletteOptions: PaletteOptions,
+    frame: RenderedFrame | null = this.lastFrame
+  ): ImageData | null {
+    if (!frame || (paletteOptions.smooth ?? frame.smooth) !== frame.smooth) {
+      return null;
+    }
+
+    return this.colorize(
+      frame.fractalType,
+      frame.parameters,
+      frame.iterationData,
+      this.resolvePaletteType(
+        frame.fractalType,
+        paletteOptions.paletteType,
+        frame.method === 'workers'
+      ),
+      frame.smooth
+    );
+  }
+
+  /**
+   * 前回のフレームから整数画素だけパンした場合の移動量（再利用できない場合は null）
+   */
+  private findPanOffset(
+    fractalType: FractalType,
+    parameters: AllFractalParameters,
+    options: RenderOptions
+  ): { dx: number; dy: number } | null {
+    const frame = this.previousFrame;
+    if (
+      !frame ||
+      frame.iterationData.width !== options.width ||
+      frame.iterationData.height !== options.height ||
+      frame.smooth !== (options.smooth ?? false) ||
+      !Reprojection.isViewChange(frame.fractalType, frame.parameters, fractalType, parameters)
+    ) {
+      return null;
+    }
+
+    const transform = Reprojection.computeTransform(
+      frame.parameters,
+      parameters,
+      options.width,
+      options.height
+    );
+    return Reprojection.panOffset(transform, options.width, options.height);
+  }
+
+  /**
+   * 前回のフレームを平行移動し、新しく見える帯だけを計算して描画
+   * 帯はピクセル間隔を保ったまま1枚のフレームとして描画し、反復回数を合成してから全体を着色する
+   */
+  private async renderPanned(
+    fractalType: FractalType,
+    parameters: AllFractalParameters,
+    options: RenderOptions,
+    frame: PreviousFrame,
+    offset: { dx: number; dy: number }
+  ): Promise<RenderResult> {
+    const { width, height, smooth = false } = options;
+    const iterationData = Reprojection.shift(frame.iterationData, offset.dx, offset.dy);
+    const regions = Reprojection.exposedRegions(offset.dx, offset.dy, width, height);
+    const exposedPixels = regions.reduce((sum, region) => sum + region.width * region.height, 0);
+    const useWorkers = options.useWorkers && this.availableWorkers > 0;
+
+    let method: RenderResult['method'] = useWorkers ? 'workers' : 'cpu';
+    let completedPixels = 0;
+    for (const region of regions) {
+      const regionParameters = Reprojection.regionParameters(parameters, region, width, height);
+      const regionPixels = region.width * region.height;
+      const regionOptions: RenderOptions = {
+        ...options,
+        width: region.width,
+        height: region.height,
+        progressive: false,
+        reusePreviousFrame: false,
+        onProgress: (progress) =>
+          options.onProgress?.((completedPixels + progress * regionPixels) / exposedPixels),
+      };
+
+      let regionResult: RenderResult;
+      if (Perturbation.isDeepZoom(fractalType, regionParameters.zoom)) {
+        regionResult = await this.renderWithPerturbation(
+          fractalType as PerturbationFractalType,
+          regionParameters,
+          regionOptions
+        );
+      } else if (useWorkers) {
+        regionResult = await this.renderWithWorkers(fractalType, regionParameters, regionOptions);
+      } else {
+        regionResult = await this.renderWithCPU(fractalType, regionParameters, regionOptions);
+      }
+
+      IterationBuffers.copyTile(iterationData, regionResult.iterationData, region.x, region.y);
+      method = regionResult.method;
+      completedPixels += regionPixels;
+    }
+
+    const imageData = this.colorize(
+      fractalType,
+      parameters,
+      iterationData,
+      this.resolvePaletteType(fractalType, options.paletteType, useWorkers),
+      smooth
+    );
+    const stats = this.calculateStats(iterationData);
+
+    return {
+      imageData,
+      iterationData,
+      renderTime: 0,
+      method,
+      stats: {
+        ...stats,
+        memoryUsed: this.estimateMemoryUsage(width, height),
+        reusedPixels: width * height - exposedPixels,
+      },
+    };
+  }
+
+  /**
+   * メインスレッドで着色し直す場合のパレット（各レンダラーの既定値に合わせる）
+   */
+  private resolvePaletteType(
+    fractalType: FractalType,
+    requestedPalette: string | undefined,
+    useWorkers: boolean | undefined
+  ): string {
+    const paletteType = requestedPalette || (useWorkers ? 'rainbow' : 'mandelbrot');
+    // Workerと同じく、既定のパレットの場合はニュートン法専用パレットを使う
+    return useWorkers && fractalType === 'newton' && paletteType === 'rainbow'
+      ? 'newton'
+      : paletteType;
+  }
+
+  /**
+   * タイルキャッシュを使ったレンダリング
+   * 足りないタイルだけを計算し（段階的レンダリング時はタイルごとにパスを重ねる）、画面を組み立てて着色する
+   */
+  private async renderWithTileCache(
+    fractalType: FractalType,
+    parameters: AllFractalParameters,
+    options: RenderOptions
+  ): Promise<RenderResult> {
+    const { width, height, smooth = false } = options;
+    const { tileSize } = TileGrid;
+    const layout = TileGrid.layout(parameters, width, height);
+    const useWorkers = options.useWorkers && this.availableWorkers > 0;
+    const paletteType = this.resolvePaletteType(fractalType, options.paletteType, useWorkers);
+
+    // 画面に必要なタイル（計算が必要なものは空のバッファを用意）
+    const tiles = new Map<string, IterationBuffer>();
+    const missing: { key: string; tileX: number; tileY: number; iterationData: IterationBuffer }[] =
+      [];
+    for (let tileY = layout.minTileY; tileY <= layout.maxTileY; tileY++) {
+      for (let tileX = layout.minTileX; tileX <= layout.maxTileX; tileX++) {
+        const key = TileGrid.key(fractalType, parameters, smooth, layout.level, tileX, tileY);
+        let tile = this.tileCache.get(key);
+        if (!tile) {
+          tile = IterationBuffers.create(tileSize, tileSize);
+          missing.push({ key, tileX, tileY, iterationData: tile });
+        }
+        tiles.set(`${tileX}:${tileY}`, tile);
+      }
+    }
+
+    const passes =
+      options.progressive && missing.length > 0
+        ? ProgressiveSampling.createPasses()
+        : [{ number: 1, count: 1, step: 1 }];
+    let completedShare = 0;
+
+    for (const pass of passes) {
+      const share = pass.count > 1 ? ProgressiveSampling.share(pass) : 1;
+
+      for (const [index, tile] of missing.entries()) {
+        const tileOptions: RenderOptions = {
+          ...options,
+          width: tileSize,
+          height: tileSize,
+          progressive: false,
+          reusePreviousFrame: false,
+          useTileCache: false,
+          onProgress: (progress) =>
+            options.onProgress?.(
+              completedShare + (share * (index + progress)) / missing.length,
+              pass.count > 1 ? pass : undefined
+            ),
+        };
+        const tileParameters = TileGrid.tileParameters(parameters, layout, tile.tileX, tile.tileY);
+        const target: PassTarget = { pass, iterationData: tile.iterationData };
+
+        if (useWorkers) {
+          await this.renderWithWorkers(fractalType, tileParameters, tileOptions, undefined, target);
+        } else {
+          await this.renderWithCPU(fractalType, tileParameters, tileOptions, target);
+        }
+        RenderCancellation.throwIfAborted(options.signal);
+      }
+      completedShare += share;
+
+      if (pass.count > 1) {
+        // 計算中のタイルはサンプルをブロックに広げて表示
+        const previews = new Map(
+          missing.map((tile) => [
+            `${tile.tileX}:${tile.tileY}`,
+            ProgressiveSampling.fillBlocks(tile.iterationData, pass.step),
+          ])
+        );
+        const preview = TileGrid.assemble(layout, width, height, (tileX, tileY) => {
+          const key = `${tileX}:${tileY}`;
+          return previews.get(key) ?? tiles.get(key);
+        });
+        options.onPass?.(
+          this.colorize(fractalType, parameters, preview, paletteType, smooth),
+          pass
+        );
+      }
+    }
+
+    for (const tile of missing) {
+      this.tileCache.set(tile.key, tile.iterationData);
+    }
+
+    const iterationData = TileGrid.assemble(layout, width, height, (tileX, tileY) =>
+      tiles.get(`${tileX}:${tileY}`)
+    );
+    const imageData = this.colorize(fractalType, parameters, iterationData, paletteType, smooth);
+    const stats = this.calculateStats(iterationData);
+
+    return {
+      imageData,
+      iterationData,
+      renderTime: 0,
+      method: useWorkers ? 'workers' : 'cpu',
+      stats: {
+        ...stats,
+        memoryUsed: this.estimateMemoryUsage(width, height),
+        cachedTiles: tiles.size - missing.length,
+      },
+    };
+  }
+
+  /**
+   * 粗いパスから順に解像度を上げて描画（計算済みのサンプルは次のパスで再利用する）
+   */
+  private async renderProgressive(
+    fractalType: FractalType,
+    parameters: AllFractalParameters,
+    options: RenderOptions
+  ): Promise<RenderResult> {
+    const { width, height } = options;
+    const useWorkers = options.useWorkers && this.availableWorkers > 0;
+    const shared = useWorkers ? this.createSharedBuffers(width, height, options) : undefined;
+    const iterationData: IterationBuffer = shared
+      ? { width, height, data: new Float32Array(shared.iterations) }
+      : IterationBuffers.create(width, height);
+
+    // 深いズームの参照軌道は全パスで共通
+    const prepared = Perturbation.isDeepZoom(fractalType, parameters.zoom)
+      ? this.preparePerturbation(fractalType as PerturbationFractalType, parameters, options)
+      : undefined;
+
+    let result: RenderResult | null = null;
+    let completedShare = 0;
+
+    for (const pass of ProgressiveSampling.createPasses()) {
+      const share = ProgressiveSampling.share(pass);
+      const target: PassTarget = { pass, iterationData, ...(shared ? { shared } : {}) };
+      const passOptions: RenderOptions = {
+        ...options,
+        onProgress: (progress) => options.onProgress?.(completedShare + progress * share, pass),
+      };
+
+      if (prepared) {
+        result = await this.renderWithPerturbation(
+          fractalType as PerturbationFractalType,
+          parameters,
+          passOptions,
+          target,
+          prepared
+        );
+      } else if (useWorkers) {
+        result = await this.renderWithWorkers(
+          fractalType,
+          parameters,
+          passOptions,
+          undefined,
+          target
+        );
+      } else {
+        result = await this.renderWithCPU(fractalType, parameters, passOptions, target);
+      }
+
+      completedShare += share;
+      RenderCancellation.throwIfAborted(options.signal);
+      options.onPass?.(result.imageData, pass);
+    }
+
+    if (!result) {
+      throw new Error('Progressive rendering produced no passes');
+    }
+    return result;
+  }
+
+  /**
+   * WebGPUで計算・着色し、キャンバスへ直接表示（対話中のフレーム向け）
+   * WebGPUで描画できない場合（非対応・深いズーム・精度不足）は null を返すので renderFractal を使う
+   * キャンバスの width/height がそのまま描画解像度になる
+   */
+  async presentFractal(
+    fractalType: FractalType,
+    parameters: AllFractalParameters,
+    canvas: HTMLCanvasElement,
+    options: RenderOptions
+  ): Promise<PresentationResult | null> {
+    RenderCancellation.throwIfAborted(options.signal);
+
+    const precision = this.getGPUPrecision(fractalType, parameters, options);
+    if (!precision || !this.webgpuEngine) {
+      return null;
+    }
+
+    const startTime = performance.now();
+
+    const paletteType = options.paletteType || 'mandelbrot';
+    const rootCount =
+      fractalType === 'newton' && paletteType === 'newton'
+        ? (parameters as NewtonParameters).roots?.length || 3
+        : 0;
+    const palette =
+      rootCount > 0
+        ? ColorPalette.getNewtonPalette(256, rootCount)
+        : ColorPalette.getPalette(paletteType, 256);
+
+    // ニュートン法は値に根の番号を含むため、反復回数の統計を集計しない（AutoIterations.measure と同じ）
+    const counts = await this.webgpuEngine.presentFractal(
+      canvas,
+      fractalType,
+      parameters,
+      palette,
+      precision,
+      { smooth: options.smooth ?? false },
+      rootCount,
+      fractalType === 'newton' ? null : AutoIterations.nearLimit(parameters.iterations)
+    );
+
+    const renderTime = performance.now() - startTime;
+    this.updatePerformanceStats(renderTime);
+
+    // 反復回数は読み戻さず、GPUで数えた画素数から自動調整用の統計だけを求める
+    const totalPixels = canvas.width * canvas.height;
+    const stats: RenderStats = {
+      totalPixels,
+      averageIterations: 0,
+      maxIterations: parameters.iterations,
+      performanceScore: 0,
+      memoryUsed: this.estimateMemoryUsage(canvas.width, canvas.height),
+      precision,
+      ...(counts ? AutoIterations.fromCounts(counts.saturated, counts.nearLimit, totalPixels) : {}),
+    };
+
+    return {
+      renderTime,
+      method: 'webgpu',
+      stats: {
+        ...stats,
+        performanceScore: this.calculatePerformanceScore(stats),
+      },
+    };
+  }
+
+  /**
+   * WebGPUで描画する場合の演算精度
+   * ズーム倍率に応じて f32 → df64 と精度を上げ、足りない場合や摂動法を使う深いズームでは null
+   */
+  private getGPUPrecision(
+    fractalType: FractalType,
+    parameters: AllFractalParameters,
+    options: RenderOptions
+  ): GPUPrecision | null {
+    if (
+      !options.useWebGPU ||
+      !this.isWebGPUSupported ||
+      !this.webgpuEngine?.initialized ||
+      Perturbation.isDeepZoom(fractalType, parameters.zoom)
+    ) {
+      return null;
+    }
+    return WebGPUEngine.selectPrecision(fractalType, parameters, options.height);
+  }
+
   /**
    * WebGPUレンダリング
    */
   private async renderWithWebGPU(
-    parameters: MandelbrotParameters,
-    options: RenderOptions
+    fractalType: FractalType,
+    parameters: AllFractalParameters,
+    options: RenderOptions,
+    precision: GPUPrecision
   ): Promise<RenderResult> {
     if (!this.webgpuEngine) {
       throw new Error('WebGPU engine not available');
@@ -257,16 +963,21 @@ export class FractalEngine {
 
     // console.log('⚡ WebGPUレンダリング開始 - GPU並列計算を使用');
 
-    const iterationData = await this.webgpuEngine.renderMandelbrot(
+    const iterationData = await this.webgpuEngine.renderFractal(
+      fractalType,
       parameters,
       options.width,
-      options.height
+      options.height,
+      precision,
+      options.smooth ?? false
     );
 
-    const imageData = ColorPalette.applyPalette(
+    const imageData = this.colorize(
+      fractalType,
+      parameters,
       iterationData,
-      parameters.iterations,
-      options.paletteType || 'mandelbrot'
+      options.paletteType || 'mandelbrot',
+      options.smooth
     );
 
     const stats = this.calculateStats(iterationData);
@@ -279,6 +990,157 @@ export class FractalEngine {
       stats: {
         ...stats,
         memoryUsed: this.estimateMemoryUsage(options.width, options.height),
+        precision,
+      },
+    };
+  }
+
+  /**
+   * 反復回数データをメインスレッドで着色
+   */
+  private colorize(
+    fractalType: FractalType,
+    parameters: AllFractalParameters,
+    iterationData: IterationBuffer,
+    paletteType: string,
+    smooth = false
+  ): ImageData {
+    if (fractalType === 'newton' && paletteType === 'newton') {
+      // CPU版と同じく根の数に応じたNewton専用パレットを使用
+      const rootCount = (parameters as NewtonParameters).roots?.length || 3;
+      return this.applyNewtonPalette(
+        iterationData,
+        parameters.iterations,
+        ColorPalette.getNewtonPalette(256, rootCount),
+        rootCount,
+        { smooth }
+      );
+    }
+    return ColorPalette.applyPalette(iterationData, parameters.iterations, paletteType, { smooth });
+  }
+
+  /**
+   * 摂動法の参照軌道を画面中心で計算
+   */
+  private preparePerturbation(
+    fractalType: PerturbationFractalType,
+    parameters: AllFractalParameters,
+    options: RenderOptions
+  ): PreparedPerturbation {
+    const { width, height } = options;
+    const aspectRatio = width / height;
+    const scale = 3.0 / parameters.zoom;
+
+    // ピクセル間隔を表現できる精度で画面中心を参照点にする
+    const bits = FixedPoint.precisionBitsForZoom(parameters.zoom * Math.max(width, height));
+    // 文字列で保持された高精度な中心座標があればそれを使う
+    const center = PreciseCoordinate.getCenter(parameters, bits);
+    const maxDelta = Math.hypot((scale * aspectRatio) / 2, scale / 2);
+
+    const perturbation = Perturbation.prepare(
+      fractalType,
+      center.x,
+      center.y,
+      bits,
+      parameters.iterations,
+      parameters.escapeRadius,
+      maxDelta
+    );
+
+    return { perturbation, bits };
+  }
+
+  /**
+   * 摂動法による深いズームのレンダリング
+   * 参照軌道をメインスレッドで1本だけ高精度計算し、各ピクセルは差分で反復する
+   * 段階的レンダリングでは計算済みの参照軌道 prepared を各パスで使い回す
+   */
+  private async renderWithPerturbation(
+    fractalType: PerturbationFractalType,
+    parameters: AllFractalParameters,
+    options: RenderOptions,
+    target?: PassTarget,
+    prepared?: PreparedPerturbation
+  ): Promise<RenderResult> {
+    const { perturbation, bits } =
+      prepared ?? this.preparePerturbation(fractalType, parameters, options);
+
+    // 参照軌道の計算中に新しいリクエストが来ていれば破棄
+    await RenderCancellation.checkpoint(options.signal);
+
+    const result =
+      options.useWorkers && this.availableWorkers > 0
+        ? await this.renderWithWorkers(fractalType, parameters, options, perturbation, target)
+        : await this.renderPerturbationCPU(parameters, options, perturbation, target);
+
+    return {
+      ...result,
+      stats: {
+        ...result.stats,
+        precision: 'arbitrary',
+        deepZoom: {
+          referenceIterations: perturbation.referenceLength - 1,
+          skippedIterations: perturbation.series?.skip ?? 0,
+          precisionBits: bits,
+        },
+      },
+    };
+  }
+
+  /**
+   * 摂動法のシングルスレッドCPUレンダリング
+   */
+  private async renderPerturbationCPU(
+    parameters: AllFractalParameters,
+    options: RenderOptions,
+    perturbation: PerturbationData,
+    target?: PassTarget
+  ): Promise<RenderResult> {
+    const defaultPalette = perturbation.fractalType === 'burning-ship' ? 'fire' : 'mandelbrot';
+    const { width, height, paletteType = defaultPalette, smooth = false } = options;
+    const sampling = target?.pass ?? ProgressiveSampling.fullResolution;
+    const iterationData = target?.iterationData ?? IterationBuffers.create(width, height);
+    const aspectRatio = width / height;
+    const scale = 3.0 / parameters.zoom;
+
+    for (let y = 0; y < height; y += sampling.step) {
+      const deltaY = ((y - height / 2) * scale) / height;
+
+      const { start, stride } = ProgressiveSampling.columns(y, 0, sampling);
+      for (let x = start; x < width; x += stride) {
+        const deltaX = ((x - width / 2) * scale * aspectRatio) / width;
+        iterationData.data[y * width + x] = Perturbation.iteratePixel(
+          perturbation,
+          deltaX,
+          deltaY,
+          parameters.iterations,
+          parameters.escapeRadius,
+          smooth
+        );
+      }
+
+      if (y % 20 === 0) {
+        options.onProgress?.(y / height);
+        await RenderCancellation.checkpoint(options.signal);
+      }
+    }
+
+    const imageData = ColorPalette.applyPalette(
+      ProgressiveSampling.fillBlocks(iterationData, sampling.step),
+      parameters.iterations,
+      paletteType,
+      { smooth }
+    );
+    const stats = this.calculateStats(iterationData);
+
+    return {
+      imageData,
+      iterationData,
+      renderTime: 0,
+      method: 'cpu',
+      stats: {
+        ...stats,
+        memoryUsed: this.estimateMemoryUsage(width, height),
       },
     };
   }
@@ -289,102 +1151,123 @@ export class FractalEngine {
   private async renderWithWorkers(
     fractalType: FractalType,
     parameters: AllFractalParameters,
-    options: RenderOptions
+    options: RenderOptions,
+    perturbation?: PerturbationData,
+    target?: PassTarget
   ): Promise<RenderResult> {
-    const { width, height, paletteType = 'rainbow' } = options;
-
-    // タイルサイズを動的に最適化（解像度とWorker数に基づく）
-    const workerCount = this.workerPool.length;
-    const totalPixels = width * height;
-    const pixelsPerWorker = totalPixels / workerCount;
-
-    // 最適なタイルサイズを計算（高頻度レンダリング対応でタイルサイズを大きめに調整）
-    let tileSize: number;
-    if (pixelsPerWorker < 8192) {
-      // 64x128以下
-      tileSize = 64;
-    } else if (pixelsPerWorker < 32768) {
-      // 128x256以下
-      tileSize = 96;
-    } else if (pixelsPerWorker < 131072) {
-      // 256x512以下
-      tileSize = 128;
-    } else {
-      tileSize = 160; // 大きめのタイルで通信オーバーヘッド削減
+    const { width, height, paletteType = 'rainbow', smooth = false } = options;
+    const sampling = target?.pass ?? ProgressiveSampling.fullResolution;
+
+    const pool = this.workerPool;
+    if (!pool) {
+      throw new Error('Worker pool not available');
     }
 
+    // これまでのタイルの計算時間から、1タイルが目標時間で終わるサイズを選ぶ
+    const tileSize = options.tileSize ?? this.tileSizeTuner.tileSize(width, height, pool.size);
+
     // ニュートンフラクタルの場合も、ユーザーが選択したパレットタイプを尊重
     // ただし、デフォルトが指定されていない場合のみnewtonパレットを使用
     const effectivePaletteType =
       fractalType === 'newton' && paletteType === 'rainbow' ? 'newton' : paletteType;
 
-    const tilesX = Math.ceil(width / tileSize);
-    const tilesY = Math.ceil(height / tileSize);
-    const totalTiles = tilesX * tilesY;
+    // 中心から外側へ順に処理し、注目している部分を先に仕上げる
+    const tiles = TileScheduler.centerOut(width, height, tileSize);
+    const totalTiles = tiles.length;
 
     // console.log(
-    //   `🚀 マルチスレッドレンダリング開始 - ${this.workerPool.length}個のWorkerでタイル処理 (${totalTiles}タイル, タイルサイズ: ${tileSize}x${tileSize})`
+    //   `🚀 マルチスレッドレンダリング開始 - ${pool.size}個のWorkerでタイル処理 (${totalTiles}タイル, タイルサイズ: ${tileSize}x${tileSize})`
     // );
 
+    // クロスオリジン分離されていれば、Workerが共有バッファへ直接書き込みタイル合成を省く
+    // 段階的レンダリングでは各パスで同じバッファを使う
+    const shared = target ? target.shared : this.createSharedBuffers(width, height, options);
+
     // 最終画像を作成
     const finalImageData = new ImageData(width, height);
-    const iterationData: number[][] = Array(height)
-      .fill(0)
-      .map(() => Array(width).fill(0));
-
-    const workerPromises: Promise<void>[] = [];
+    const iterationData: IterationBuffer =
+      target?.iterationData ??
+      (shared
+        ? { width, height, data: new Float32Array(shared.iterations) }
+        : IterationBuffers.create(width, height));
+
+    // タイルを中心から順にプールのキューへ積み、手の空いたWorkerが次のタイルを取る
+    // （計算の重いタイルが偏っても他のWorkerは待たない）
     let completedTiles = 0;
+    const busyBefore = pool.busyTimes;
+    const startTime = performance.now();
+    const samplingShare = ProgressiveSampling.share(sampling);
+
+    const renderTile = async (tile: TileRequest): Promise<void> => {
+      const tileResult = await this.renderTileWithWorker(
+        pool,
+        fractalType,
+        parameters,
+        width,
+        height,
+        tile.x,
+        tile.y,
+        tile.width,
+        tile.height,
+        effectivePaletteType,
+        smooth,
+        perturbation,
+        shared,
+        options.signal,
+        target?.pass
+      );
+      // Workerが計測した計算時間を次のタイルサイズの決定に使う
+      this.tileSizeTuner.record(
+        tile.width * tile.height * samplingShare,
+        tileResult.payload.renderTime
+      );
 
-    for (let ty = 0; ty < tilesY; ty++) {
-      for (let tx = 0; tx < tilesX; tx++) {
-        const tileX = tx * tileSize;
-        const tileY = ty * tileSize;
-        const tileWidth = Math.min(tileSize, width - tileX);
-        const tileHeight = Math.min(tileSize, height - tileY);
-
-        const workerIndex = workerPromises.length % this.workerPool.length;
-        const worker = this.workerPool[workerIndex];
-
-        if (!worker) continue;
-
-        const promise = this.renderTileWithWorker(
-          worker,
-          fractalType,
-          parameters,
-          width,
-          height,
-          tileX,
-          tileY,
-          tileWidth,
-          tileHeight,
-          effectivePaletteType
-        ).then((tileResult) => {
-          // タイル結果を合成
-          this.compositeTile(
-            finalImageData,
-            iterationData,
-            tileResult,
-            tileX,
-            tileY,
-            tileWidth,
-            tileHeight
-          );
+      // タイル結果を合成（共有バッファ使用時は書き込み済み）
+      if (!shared) {
+        const tileIterations = tileResult.payload.iterationData;
+        if (target && tileIterations) {
+          // 前のパスの値を上書きしないよう、このパスで計算した点だけを反映
+          ProgressiveSampling.copySamples(iterationData, tileIterations, tile.x, tile.y, sampling);
+        } else {
+          this.compositeTile(finalImageData, iterationData, tileResult, tile.x, tile.y);
+        }
+      }
 
-          completedTiles++;
-          const progress = completedTiles / totalTiles;
-          options.onProgress?.(progress);
-        });
+      completedTiles++;
+      const progress = completedTiles / totalTiles;
+      options.onProgress?.(progress);
+    };
 
-        workerPromises.push(promise);
-      }
+    try {
+      await Promise.all(tiles.map(renderTile));
+    } finally {
+      const elapsed = performance.now() - startTime;
+      const busyAfter = pool.busyTimes;
+      this.workerUtilization = busyAfter.map((busy, index) =>
+        elapsed > 0 ? Math.min(1, Math.max(0, busy - (busyBefore[index] ?? 0)) / elapsed) : 0
+      );
+    }
+    RenderCancellation.throwIfAborted(options.signal);
+
+    let imageData = finalImageData;
+    if (target) {
+      // Workerはこのパスの点しか着色しないため、ブロックに広げてから全体を着色し直す
+      imageData = this.colorize(
+        fractalType,
+        parameters,
+        ProgressiveSampling.fillBlocks(iterationData, sampling.step),
+        effectivePaletteType,
+        smooth
+      );
+    } else if (shared) {
+      // ImageData は共有メモリを参照できないため、全タイル完了後に1回だけコピー
+      finalImageData.data.set(new Uint8ClampedArray(shared.pixels));
     }
-
-    await Promise.all(workerPromises);
 
     const stats = this.calculateStats(iterationData);
 
     return {
-      imageData: finalImageData,
+      imageData,
       iterationData,
       renderTime: 0, // 外部で設定
       method: 'workers',
@@ -392,18 +1275,37 @@ export class FractalEngine {
         ...stats,
         memoryUsed: this.estimateMemoryUsage(width, height),
         tilesProcessed: totalTiles,
-        workersUsed: this.workerPool.length,
+        workersUsed: pool.size,
+        sharedMemory: shared !== undefined,
       },
     };
   }
 
+  /**
+   * Workerが直接書き込む画面全体の共有バッファ（クロスオリジン分離されていない場合は undefined）
+   */
+  private createSharedBuffers(
+    width: number,
+    height: number,
+    options: RenderOptions
+  ): SharedTileBuffers | undefined {
+    if (options.useSharedMemory === false || !isSharedMemoryAvailable()) {
+      return undefined;
+    }
+    return {
+      pixels: new SharedArrayBuffer(width * height * 4),
+      iterations: new SharedArrayBuffer(width * height * 4),
+    };
+  }
+
   /**
    * シングルスレッドCPUレンダリング
    */
   private async renderWithCPU(
     fractalType: FractalType,
     parameters: AllFractalParameters,
-    options: RenderOptions
+    options: RenderOptions,
+    target?: PassTarget
   ): Promise<RenderResult> {
     const { width, height, paletteType = 'mandelbrot' } = options;
 
@@ -413,14 +1315,14 @@ export class FractalEngine {
 
     switch (fractalType) {
       case 'mandelbrot':
-        return this.renderMandelbrotCPU(parameters as MandelbrotParameters, options);
+        return this.renderMandelbrotCPU(parameters as MandelbrotParameters, options, target);
       case 'julia':
-        return this.renderJuliaCPU(parameters as JuliaParameters, options);
+        return this.renderJuliaCPU(parameters as JuliaParameters, options, target);
       case 'burning-ship':
-        return this.renderBurningShipCPU(parameters as BurningShipParameters, options);
+        return this.renderBurningShipCPU(parameters as BurningShipParameters, options, target);
       case 'newton':
         // console.log('Newton fractal パラメータ:', parameters);
-        return this.renderNewtonCPU(parameters as NewtonParameters, options);
+        return this.renderNewtonCPU(parameters as NewtonParameters, options, target);
       default:
         throw new Error(`Unsupported fractal type for CPU rendering: ${fractalType}`);
     }
@@ -431,17 +1333,18 @@ export class FractalEngine {
    */
   private async renderMandelbrotCPU(
     parameters: MandelbrotParameters,
-    options: RenderOptions
+    options: RenderOptions,
+    target?: PassTarget
   ): Promise<RenderResult> {
-    const { width, height, paletteType = 'mandelbrot' } = options;
-    const iterationData: number[][] = [];
+    const { width, height, paletteType = 'mandelbrot', smooth = false } = options;
+    const sampling = target?.pass ?? ProgressiveSampling.fullResolution;
+    const iterationData = target?.iterationData ?? IterationBuffers.create(width, height);
     const aspectRatio = width / height;
     const scale = 3.0 / parameters.zoom;
 
-    for (let y = 0; y < height; y++) {
-      const row: number[] = [];
-
-      for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y += sampling.step) {
+      const { start, stride } = ProgressiveSampling.columns(y, 0, sampling);
+      for (let x = start; x < width; x += stride) {
         const real = parameters.centerX + ((x - width / 2) * scale * aspectRatio) / width;
         const imaginary = parameters.centerY + ((y - height / 2) * scale) / height;
 
@@ -449,22 +1352,27 @@ export class FractalEngine {
           real,
           imaginary,
           parameters.iterations,
-          parameters.escapeRadius
+          parameters.escapeRadius,
+          smooth
         );
 
-        row.push(iterations);
+        iterationData.data[y * width + x] = iterations;
       }
 
-      iterationData.push(row);
-
-      // 進行報告（setTimeoutなしで高速化）
+      // 進行報告と中断の受付（signal 指定時のみイベントループへ制御を返す）
       if (y % 20 === 0) {
         const progress = y / height;
         options.onProgress?.(progress);
+        await RenderCancellation.checkpoint(options.signal);
       }
     }
 
-    const imageData = ColorPalette.applyPalette(iterationData, parameters.iterations, paletteType);
+    const imageData = ColorPalette.applyPalette(
+      ProgressiveSampling.fillBlocks(iterationData, sampling.step),
+      parameters.iterations,
+      paletteType,
+      { smooth }
+    );
     const stats = this.calculateStats(iterationData);
 
     return {
@@ -484,17 +1392,18 @@ export class FractalEngine {
    */
   private async renderJuliaCPU(
     parameters: JuliaParameters,
-    options: RenderOptions
+    options: RenderOptions,
+    target?: PassTarget
   ): Promise<RenderResult> {
-    const { width, height, paletteType = 'julia' } = options;
-    const iterationData: number[][] = [];
+    const { width, height, paletteType = 'julia', smooth = false } = options;
+    const sampling = target?.pass ?? ProgressiveSampling.fullResolution;
+    const iterationData = target?.iterationData ?? IterationBuffers.create(width, height);
     const aspectRatio = width / height;
     const scale = 3.0 / parameters.zoom;
 
-    for (let y = 0; y < height; y++) {
-      const row: number[] = [];
-
-      for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y += sampling.step) {
+      const { start, stride } = ProgressiveSampling.columns(y, 0, sampling);
+      for (let x = start; x < width; x += stride) {
         const real = parameters.centerX + ((x - width / 2) * scale * aspectRatio) / width;
         const imaginary = parameters.centerY + ((y - height / 2) * scale) / height;
 
@@ -503,22 +1412,27 @@ export class FractalEngine {
           imaginary,
           parameters.c,
           parameters.iterations,
-          parameters.escapeRadius
+          parameters.escapeRadius,
+          smooth
         );
 
-        row.push(iterations);
+        iterationData.data[y * width + x] = iterations;
       }
 
-      iterationData.push(row);
-
-      // 進行報告（setTimeoutなしで高速化）
+      // 進行報告と中断の受付（signal 指定時のみイベントループへ制御を返す）
       if (y % 20 === 0) {
         const progress = y / height;
         options.onProgress?.(progress);
+        await RenderCancellation.checkpoint(options.signal);
       }
     }
 
-    const imageData = ColorPalette.applyPalette(iterationData, parameters.iterations, paletteType);
+    const imageData = ColorPalette.applyPalette(
+      ProgressiveSampling.fillBlocks(iterationData, sampling.step),
+      parameters.iterations,
+      paletteType,
+      { smooth }
+    );
     const stats = this.calculateStats(iterationData);
 
     return {
@@ -538,17 +1452,18 @@ export class FractalEngine {
    */
   private async renderBurningShipCPU(
     parameters: BurningShipParameters,
-    options: RenderOptions
+    options: RenderOptions,
+    target?: PassTarget
   ): Promise<RenderResult> {
-    const { width, height, paletteType = 'fire' } = options;
-    const iterationData: number[][] = [];
+    const { width, height, paletteType = 'fire', smooth = false } = options;
+    const sampling = target?.pass ?? ProgressiveSampling.fullResolution;
+    const iterationData = target?.iterationData ?? IterationBuffers.create(width, height);
     const aspectRatio = width / height;
     const scale = 3.0 / parameters.zoom;
 
-    for (let y = 0; y < height; y++) {
-      const row: number[] = [];
-
-      for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y += sampling.step) {
+      const { start, stride } = ProgressiveSampling.columns(y, 0, sampling);
+      for (let x = start; x < width; x += stride) {
         const real = parameters.centerX + ((x - width / 2) * scale * aspectRatio) / width;
         const imaginary = parameters.centerY + ((y - height / 2) * scale) / height;
 
@@ -556,22 +1471,27 @@ export class FractalEngine {
           real,
           imaginary,
           parameters.iterations,
-          parameters.escapeRadius
+          parameters.escapeRadius,
+          smooth
         );
 
-        row.push(iterations);
+        iterationData.data[y * width + x] = iterations;
       }
 
-      iterationData.push(row);
-
-      // 進行報告（setTimeoutなしで高速化）
+      // 進行報告と中断の受付（signal 指定時のみイベントループへ制御を返す）
       if (y % 20 === 0) {
         const progress = y / height;
         options.onProgress?.(progress);
+        await RenderCancellation.checkpoint(options.signal);
       }
     }
 
-    const imageData = ColorPalette.applyPalette(iterationData, parameters.iterations, paletteType);
+    const imageData = ColorPalette.applyPalette(
+      ProgressiveSampling.fillBlocks(iterationData, sampling.step),
+      parameters.iterations,
+      paletteType,
+      { smooth }
+    );
     const stats = this.calculateStats(iterationData);
 
     return {
@@ -591,10 +1511,12 @@ export class FractalEngine {
    */
   private async renderNewtonCPU(
     parameters: NewtonParameters,
-    options: RenderOptions
+    options: RenderOptions,
+    target?: PassTarget
   ): Promise<RenderResult> {
     const { width, height } = options;
-    const iterationData: number[][] = [];
+    const sampling = target?.pass ?? ProgressiveSampling.fullResolution;
+    const iterationData = target?.iterationData ?? IterationBuffers.create(width, height);
     const aspectRatio = width / height;
     const scale = 3.0 / parameters.zoom;
 
@@ -608,17 +1530,15 @@ export class FractalEngine {
       // console.log(`🎨 Extended palette mode: RGB + Gray palette for ${rootCount} roots`);
     }
 
-    for (let y = 0; y < height; y++) {
-      const row: number[] = [];
-
-      for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y += sampling.step) {
+      const { start, stride } = ProgressiveSampling.columns(y, 0, sampling);
+      for (let x = start; x < width; x += stride) {
         const real = parameters.centerX + ((x - width / 2) * scale * aspectRatio) / width;
         const imaginary = parameters.centerY + ((y - height / 2) * scale) / height;
 
         const result = FractalCalculations.newton(
           real,
           imaginary,
-          parameters.polynomial,
           parameters.tolerance,
           parameters.iterations,
           parameters.roots
@@ -627,15 +1547,14 @@ export class FractalEngine {
         // 根の番号に基づいて色分け (root * 100 + iterations)
         const colorValue =
           result.root >= 0 ? result.root * 100 + result.iterations : parameters.iterations;
-        row.push(colorValue);
+        iterationData.data[y * width + x] = colorValue;
       }
 
-      iterationData.push(row);
-
-      // 進行報告（setTimeoutなしで高速化）
+      // 進行報告と中断の受付（signal 指定時のみイベントループへ制御を返す）
       if (y % 20 === 0) {
         const progress = y / height;
         options.onProgress?.(progress);
+        await RenderCancellation.checkpoint(options.signal);
       }
     }
 
@@ -646,10 +1565,11 @@ export class FractalEngine {
       // Newton専用パレット（根が4以上の場合はグレーパレット含む）
       const dynamicPalette = ColorPalette.getNewtonPalette(256, rootCount);
       const imageData = this.applyNewtonPalette(
-        iterationData,
+        ProgressiveSampling.fillBlocks(iterationData, sampling.step),
         parameters.iterations,
         dynamicPalette,
-        rootCount
+        rootCount,
+        { smooth: options.smooth ?? false }
       );
       const stats = this.calculateStats(iterationData);
 
@@ -666,9 +1586,10 @@ export class FractalEngine {
     } else {
       // 標準パレット（他のフラクタルと同様の処理）
       const imageData = ColorPalette.applyPalette(
-        iterationData,
+        ProgressiveSampling.fillBlocks(iterationData, sampling.step),
         parameters.iterations,
-        selectedPaletteType
+        selectedPaletteType,
+        { smooth: options.smooth ?? false }
       );
       const stats = this.calculateStats(iterationData);
 
@@ -690,17 +1611,17 @@ export class FractalEngine {
    * 根の数に応じて最適化されたカラーマッピングを行う
    */
   private applyNewtonPalette(
-    iterationData: number[][],
+    iterationData: IterationBuffer,
     maxIterations: number,
     palette: number[][],
-    rootCount: number
+    rootCount: number,
+    settings: Pick<ColorPaletteSettings, 'smooth'> = { smooth: false }
   ): ImageData {
-    if (!iterationData || iterationData.length === 0 || !iterationData[0]) {
+    const { width, height, data } = iterationData;
+    if (width === 0 || height === 0) {
       return new ImageData(1, 1);
     }
 
-    const width = iterationData[0].length;
-    const height = iterationData.length;
     const imageData = new ImageData(width, height);
 
     // パレットの色セット数を計算（根が4以上の場合はグレーパレットを含む）
@@ -708,60 +1629,50 @@ export class FractalEngine {
     const totalColorSets = useExtendedPalette ? rootCount + 1 : rootCount;
     const colorsPerSet = Math.floor(palette.length / totalColorSets);
 
-    for (let y = 0; y < height; y++) {
-      const row = iterationData[y];
-      if (!row) continue;
+    for (let pixel = 0; pixel < data.length; pixel++) {
+      const colorValue = data[pixel] ?? maxIterations;
+      const index = pixel * 4;
 
-      for (let x = 0; x < width; x++) {
-        const colorValue = row[x];
-        if (colorValue === undefined) continue;
-
-        const index = (y * width + x) * 4;
-
-        if (colorValue === maxIterations) {
-          // 収束しなかった点は黒
+      if (colorValue === maxIterations) {
+        // 収束しなかった点は黒
+        imageData.data[index] = 0;
+        imageData.data[index + 1] = 0;
+        imageData.data[index + 2] = 0;
+        imageData.data[index + 3] = 255;
+      } else {
+        // 根のインデックスと反復回数を分離
+        const rootIndex = Math.floor(colorValue / 100);
+        const iterations = colorValue % 100;
+        const iterationOffset = (iterations / maxIterations) * (colorsPerSet - 1);
+
+        if (rootIndex >= 0 && rootIndex < rootCount) {
+          // 通常の根の色（RGB色相パレット）
+          const colorSetOffset = rootIndex * colorsPerSet;
+          SmoothColoring.writeColor(
+            imageData.data,
+            index,
+            palette,
+            colorSetOffset + iterationOffset,
+            settings.smooth,
+            colorSetOffset + colorsPerSet - 1
+          );
+        } else if (useExtendedPalette && rootIndex >= rootCount) {
+          // 4以上の根の場合、グレーパレットを使用
+          const graySetOffset = rootCount * colorsPerSet;
+          SmoothColoring.writeColor(
+            imageData.data,
+            index,
+            palette,
+            graySetOffset + iterationOffset,
+            settings.smooth,
+            graySetOffset + colorsPerSet - 1
+          );
+        } else {
+          // デフォルト色（黒）
           imageData.data[index] = 0;
           imageData.data[index + 1] = 0;
           imageData.data[index + 2] = 0;
           imageData.data[index + 3] = 255;
-        } else {
-          // 根のインデックスと反復回数を分離
-          const rootIndex = Math.floor(colorValue / 100);
-          const iterations = colorValue % 100;
-
-          if (rootIndex >= 0 && rootIndex < rootCount) {
-            // 通常の根の色（RGB色相パレット）
-            const colorSetOffset = rootIndex * colorsPerSet;
-            const iterationOffset = Math.floor((iterations / maxIterations) * (colorsPerSet - 1));
-            const paletteIndex = colorSetOffset + iterationOffset;
-
-            const color = palette[paletteIndex];
-            if (color) {
-              imageData.data[index] = color[0] || 0;
-              imageData.data[index + 1] = color[1] || 0;
-              imageData.data[index + 2] = color[2] || 0;
-              imageData.data[index + 3] = color[3] || 255;
-            }
-          } else if (useExtendedPalette && rootIndex >= rootCount) {
-            // 4以上の根の場合、グレーパレットを使用
-            const graySetOffset = rootCount * colorsPerSet;
-            const iterationOffset = Math.floor((iterations / maxIterations) * (colorsPerSet - 1));
-            const paletteIndex = graySetOffset + iterationOffset;
-
-            const color = palette[paletteIndex];
-            if (color) {
-              imageData.data[index] = color[0] || 0;
-              imageData.data[index + 1] = color[1] || 0;
-              imageData.data[index + 2] = color[2] || 0;
-              imageData.data[index + 3] = color[3] || 255;
-            }
-          } else {
-            // デフォルト色（黒）
-            imageData.data[index] = 0;
-            imageData.data[index + 1] = 0;
-            imageData.data[index + 2] = 0;
-            imageData.data[index + 3] = 255;
-          }
         }
       }
     }
@@ -773,7 +1684,7 @@ export class FractalEngine {
    * Workerでタイルをレンダリング
    */
   private async renderTileWithWorker(
-    worker: Worker,
+    pool: WorkerPool,
     fractalType: FractalType,
     parameters: AllFractalParameters,
     width: number,
@@ -782,51 +1693,35 @@ export class FractalEngine {
     tileY: number,
     tileWidth: number,
     tileHeight: number,
-    paletteType: string
+    paletteType: string,
+    smooth: boolean,
+    perturbation?: PerturbationData,
+    shared?: SharedTileBuffers,
+    signal?: AbortSignal,
+    sampling?: SamplingPattern
   ): Promise<CompleteMessage> {
-    return new Promise((resolve, reject) => {
-      const messageId = crypto.randomUUID();
-
-      const handleMessage = (event: MessageEvent<WorkerMessage>) => {
-        const message = event.data;
-
-        if (message.id !== messageId) return;
-
-        if (message.type === 'complete') {
-          worker.removeEventListener('message', handleMessage);
-          resolve(message as CompleteMessage);
-        } else if (message.type === 'error') {
-          worker.removeEventListener('message', handleMessage);
-          const errorPayload = message.payload as WorkerErrorPayload;
-          const errorMessage =
-            typeof errorPayload === 'string'
-              ? errorPayload
-              : errorPayload?.error || 'Worker error occurred';
-          console.error('Worker error details:', errorPayload);
-          reject(new Error(errorMessage));
-        }
-      };
-
-      worker.addEventListener('message', handleMessage);
-
-      const renderMessage: RenderMessage = {
-        id: messageId,
-        type: 'render',
-        payload: {
-          fractalType,
-          parameters,
-          width,
-          height,
-          tileX,
-          tileY,
-          tileWidth,
-          tileHeight,
-          paletteType,
-        },
-      };
+    const renderMessage: RenderMessage = {
+      id: crypto.randomUUID(),
+      type: 'render',
+      payload: {
+        fractalType,
+        parameters,
+        width,
+        height,
+        tileX,
+        tileY,
+        tileWidth,
+        tileHeight,
+        paletteType,
+        smooth,
+        ...(perturbation ? { perturbation } : {}),
+        ...(shared ? { shared } : {}),
+        ...(sampling ? { sampling } : {}),
+      },
+    };
 
-      worker.postMessage(renderMessage);
-    });
+    // 中断時はプールが処理待ちのタイルを取り消す（Worker側のキューからも取り除く）
+    return pool.run<CompleteMessage>({ message: renderMessage, ...(signal ? { signal } : {}) });
   }
 
   /**
@@ -834,44 +1729,79 @@ export class FractalEngine {
    */
   private compositeTile(
     finalImageData: ImageData,
-    iterationData: number[][],
+    iterationData: IterationBuffer,
     tileResult: CompleteMessage,
     tileX: number,
-    tileY: number,
-    tileWidth: number,
-    tileHeight: number
+    tileY: number
   ): void {
     const { imageData: tileImageData, iterationData: tileIterations } = tileResult.payload;
 
     if (!tileImageData || !tileIterations) return;
 
-    // 画像データを合成
-    for (let y = 0; y < tileHeight; y++) {
-      for (let x = 0; x < tileWidth; x++) {
-        const srcIndex = (y * tileWidth + x) * 4;
-        const destIndex = ((tileY + y) * finalImageData.width + (tileX + x)) * 4;
-
-        if (srcIndex < tileImageData.data.length && destIndex < finalImageData.data.length) {
-          finalImageData.data[destIndex] = tileImageData.data[srcIndex] || 0;
-          finalImageData.data[destIndex + 1] = tileImageData.data[srcIndex + 1] || 0;
-          finalImageData.data[destIndex + 2] = tileImageData.data[srcIndex + 2] || 0;
-          finalImageData.data[destIndex + 3] = tileImageData.data[srcIndex + 3] || 255;
-        }
-      }
+    // 画像データを行単位で合成
+    const rows = Math.min(tileImageData.height, finalImageData.height - tileY);
+    const rowLength = Math.min(tileImageData.width, finalImageData.width - tileX) * 4;
+    for (let y = 0; y < rows; y++) {
+      const sourceStart = y * tileImageData.width * 4;
+      finalImageData.data.set(
+        tileImageData.data.subarray(sourceStart, sourceStart + rowLength),
+        ((tileY + y) * finalImageData.width + tileX) * 4
+      );
     }
 
     // イテレーションデータを合成
-    for (let y = 0; y < tileHeight; y++) {
-      const tileRow = tileIterations[y];
-      const destRow = iterationData[tileY + y];
-      if (tileRow && destRow) {
-        for (let x = 0; x < tileWidth; x++) {
-          const srcValue = tileRow[x];
-          if (srcValue !== undefined) {
-            destRow[tileX + x] = srcValue;
-          }
-        }
+    IterationBuffers.copyTile(iterationData, tileIterations, tileX, tileY);
+  }
+
+  /**
+   * 1点の反復回数（CPUレンダラーと同じ値。ニュートン法は根の番号を含む）
+   */
+  private calculatePoint(
+    fractalType: FractalType,
+    parameters: AllFractalParameters,
+    real: number,
+    imaginary: number,
+    smooth: boolean
+  ): number {
+    switch (fractalType) {
+      case 'mandelbrot':
+        return FractalCalculations.mandelbrot(
+          real,
+          imaginary,
+          parameters.iterations,
+          parameters.escapeRadius,
+          smooth
+        );
+      case 'julia':
+        return FractalCalculations.julia(
+          real,
+          imaginary,
+          (parameters as JuliaParameters).c,
+          parameters.iterations,
+          parameters.escapeRadius,
+          smooth
+        );
+      case 'burning-ship':
+        return FractalCalculations.burningShip(
+          real,
+          imaginary,
+          parameters.iterations,
+          parameters.escapeRadius,
+          smooth
+        );
+      case 'newton': {
+        const newton = parameters as NewtonParameters;
+        const result = FractalCalculations.newton(
+          real,
+          imaginary,
+          newton.tolerance,
+          newton.iterations,
+          newton.roots
+        );
+        return result.root >= 0 ? result.root * 100 + result.iterations : newton.iterations;
       }
+      default:
+        throw new Error(`Unsupported fractal type: ${fractalType}`);
     }
   }
 
@@ -901,25 +1831,17 @@ export class FractalEngine {
   /**
    * レンダリング統計を計算
    */
-  private calculateStats(iterationData: number[][]): RenderStats {
-    const height = iterationData.length;
-    const width = iterationData[0]?.length || 0;
-    const totalPixels = width * height;
+  private calculateStats(iterationData: IterationBuffer): RenderStats {
+    const { data } = iterationData;
+    const totalPixels = data.length;
 
     let totalIterations = 0;
     let maxIterations = 0;
 
-    for (let y = 0; y < height; y++) {
-      const row = iterationData[y];
-      if (row) {
-        for (let x = 0; x < width; x++) {
-          const iterations = row[x];
-          if (iterations !== undefined) {
-            totalIterations += iterations;
-            maxIterations = Math.max(maxIterations, iterations);
-          }
-        }
-      }
+    for (let index = 0; index < data.length; index++) {
+      const iterations = data[index] ?? 0;
+      totalIterations += iterations;
+      maxIterations = Math.max(maxIterations, iterations);
     }
 
     const averageIterations = totalPixels > 0 ? totalIterations / totalPixels : 0;
@@ -999,6 +1921,8 @@ export class FractalEngine {
       renderCount: this.renderCount,
       totalRenderTime: this.totalRenderTime,
       memoryUsage: Math.round(memoryUsage * 100) / 100,
+      queueDepth: this.workerPool?.queueDepth ?? 0,
+      workerUtilization: [...this.workerUtilization],
     };
   }
 
@@ -1013,21 +1937,27 @@ export class FractalEngine {
    * 利用可能Worker数を取得
    */
   get availableWorkers(): number {
-    return this.workerPool.length;
+    return this.workerPool?.size ?? 0;
   }
 
   /**
    * エンジンを破棄
    */
   dispose(): void {
+    // 実行中のリクエストを中断
+    this.requestScheduler.cancel();
+    this.previousFrame = null;
+    this.lastFrame = null;
+    this.tileCache.clear();
+
     // WebGPUエンジンを破棄
     if (this.webgpuEngine) {
       this.webgpuEngine.dispose();
     }
 
-    // Workerを終了
-    this.workerPool.forEach((worker) => worker.terminate());
-    this.workerPool = [];
+    // Workerを終了（処理待ちのタイルは失敗させる）
+    this.workerPool?.dispose();
+    this.workerPool = null;
 
     // 統計をリセット
     this.performanceHistory = [];
@@ -1,10 +1,16 @@
 import type {
   AllFractalParameters,
+  ColorPalette as ColorPaletteSettings,
   Complex,
   ExtendedPerformance,
+  FractalParameters,
   FractalType,
-  WorkerPoolMessage,
+  IterationBuffer,
+  PreciseCoordinates,
 } from '@/types/fractal';
+import { InteriorDetection } from './interior-detection';
+import { PreciseCoordinate } from './precise-coordinates';
+import { SmoothColoring } from './smooth-coloring';
 
 /**
  * 複素数演算ユーティリティ
@@ -101,12 +107,6 @@ export function getDefaultParameters(type: FractalType): AllFractalParameters {
         centerY: 0,
         iterations: 100,
         escapeRadius: 4,
-        polynomial: [
-          { real: 1, imag: 0 }, // z^3
-          { real: 0, imag: 0 }, // z^2
-          { real: 0, imag: 0 }, // z
-          { real: -1, imag: 0 }, // constant
-        ],
         tolerance: 1e-6,
         roots: [
           { real: 1, imag: 0 }, // 1
@@ -372,49 +372,42 @@ export const ColorPalette = (() => {
 
   /**
    * カラーパレットをImageDataに適用
+   * settings.smooth が有効な場合は小数の反復回数に合わせて隣接色を補間する
    */
   const applyPalette = (
-    iterationData: number[][],
+    iterationData: IterationBuffer,
     maxIterations: number,
-    paletteType: string = 'mandelbrot'
+    paletteType: string = 'mandelbrot',
+    settings: Pick<ColorPaletteSettings, 'smooth'> = { smooth: false }
   ): ImageData => {
-    if (!iterationData || iterationData.length === 0 || !iterationData[0]) {
+    const { width, height, data } = iterationData;
+    if (width === 0 || height === 0) {
       return new ImageData(1, 1);
     }
 
-    const width = iterationData[0].length;
-    const height = iterationData.length;
     const imageData = new ImageData(width, height);
 
     const palette = getPalette(paletteType, 256);
 
-    for (let y = 0; y < height; y++) {
-      const row = iterationData[y];
-      if (!row) continue;
-
-      for (let x = 0; x < width; x++) {
-        const iterations = row[x];
-        if (iterations === undefined) continue;
-
-        const index = (y * width + x) * 4;
-
-        if (iterations === maxIterations) {
-          // 集合内の点は黒
-          imageData.data[index] = 0;
-          imageData.data[index + 1] = 0;
-          imageData.data[index + 2] = 0;
-          imageData.data[index + 3] = 255;
-        } else {
-          // カラーパレットから色を取得
-          const colorIndex = Math.floor((iterations / maxIterations) * (palette.length - 1));
-          const color = palette[colorIndex];
-          if (color) {
-            imageData.data[index] = color[0] || 0;
-            imageData.data[index + 1] = color[1] || 0;
-            imageData.data[index + 2] = color[2] || 0;
-            imageData.data[index + 3] = color[3] || 255;
-          }
-        }
+    for (let pixel = 0; pixel < data.length; pixel++) {
+      const iterations = data[pixel] ?? maxIterations;
+      const index = pixel * 4;
+
+      if (iterations === maxIterations) {
+        // 集合内の点は黒
+        imageData.data[index] = 0;
+        imageData.data[index + 1] = 0;
+        imageData.data[index + 2] = 0;
+        imageData.data[index + 3] = 255;
+      } else {
+        // カラーパレットから色を取得
+        SmoothColoring.writeColor(
+          imageData.data,
+          index,
+          palette,
+          (iterations / maxIterations) * (palette.length - 1),
+          settings.smooth
+        );
       }
     }
 
@@ -615,6 +608,44 @@ export const CoordinateTransform = {
     const y = ((complex.imag - centerY) * zoom) / aspectRatio + canvasHeight / 2;
     return { x, y };
   },
+
+  /**
+   * キャンバス上の移動量を複素平面上の移動量に変換（レンダラーと同じ写像）
+   */
+  screenDeltaToComplex: (
+    deltaX: number,
+    deltaY: number,
+    canvasWidth: number,
+    canvasHeight: number,
+    zoom: number
+  ): Complex => {
+    const aspectRatio = canvasWidth / canvasHeight;
+    const scale = 3.0 / zoom;
+    return {
+      real: (deltaX * scale * aspectRatio) / canvasWidth,
+      imag: (deltaY * scale) / canvasHeight,
+    };
+  },
+
+  /**
+   * キャンバス上の点を高精度な複素平面座標（10進数文字列）に変換
+   */
+  screenToComplexPrecise: (
+    screenX: number,
+    screenY: number,
+    canvasWidth: number,
+    canvasHeight: number,
+    parameters: FractalParameters
+  ): Pick<PreciseCoordinates, 'centerX' | 'centerY'> => {
+    const delta = CoordinateTransform.screenDeltaToComplex(
+      screenX - canvasWidth / 2,
+      screenY - canvasHeight / 2,
+      canvasWidth,
+      canvasHeight,
+      parameters.zoom
+    );
+    return PreciseCoordinate.offset(parameters, delta.real, delta.imag);
+  },
 } as const;
 
 /**
@@ -705,93 +736,6 @@ export const MemoryMonitor = {
   },
 } as const;
 
-/**
- * WebWorker管理ユーティリティ
- */
-export class WorkerPool {
-  private workers: Worker[] = [];
-  private availableWorkers: Worker[] = [];
-  private busyWorkers: Set<Worker> = new Set();
-
-  constructor(workerScript: string, poolSize: number = navigator.hardwareConcurrency || 4) {
-    for (let i = 0; i < poolSize; i++) {
-      const worker = new Worker(workerScript, { type: 'module' });
-      this.workers.push(worker);
-      this.availableWorkers.push(worker);
-    }
-  }
-
-  async execute<T>(message: WorkerPoolMessage): Promise<T> {
-    return new Promise((resolve, reject) => {
-      const worker = this.getAvailableWorker();
-      if (!worker) {
-        reject(new Error('No available workers'));
-        return;
-      }
-
-      const messageId = crypto.randomUUID();
-      const messageWithId = { ...message, id: messageId };
-
-      const handleMessage = (event: MessageEvent) => {
-        if (event.data.id === messageId) {
-          worker.removeEventListener('message', handleMessage);
-          worker.removeEventListener('error', handleError);
-          this.releaseWorker(worker);
-
-          if (event.data.type === 'error') {
-            reject(new Error(event.data.payload.error));
-          } else {
-            resolve(event.data.payload);
-          }
-        }
-      };
-
-      const handleError = (error: ErrorEvent) => {
-        worker.removeEventListener('message', handleMessage);
-        worker.removeEventListener('error', handleError);
-        this.releaseWorker(worker);
-        reject(error);
-      };
-
-      worker.addEventListener('message', handleMessage);
-      worker.addEventListener('error', handleError);
-      worker.postMessage(messageWithId);
-    });
-  }
-
-  private getAvailableWorker(): Worker | null {
-    const worker = this.availableWorkers.pop();
-    if (worker) {
-      this.busyWorkers.add(worker);
-    }
-    return worker || null;
-  }
-
-  private releaseWorker(worker: Worker): void {
-    this.busyWorkers.delete(worker);
-    this.availableWorkers.push(worker);
-  }
-
-  terminate(): void {
-    this.workers.forEach((worker) => worker.terminate());
-    this.workers = [];
-    this.availableWorkers = [];
-    this.busyWorkers.clear();
-  }
-
-  get size(): number {
-    return this.workers.length;
-  }
-
-  get availableCount(): number {
-    return this.availableWorkers.length;
-  }
-
-  get busyCount(): number {
-    return this.busyWorkers.size;
-  }
-}
-
 /**
  * フラクタル計算アルゴリズム
  */
@@ -803,20 +747,20 @@ export const FractalCalculations = {
     real: number,
     imaginary: number,
     maxIterations: number,
-    escapeRadius: number
+    escapeRadius: number,
+    smooth: boolean = false
   ): number => {
-    let zx = 0;
-    let zy = 0;
-    let iteration = 0;
-
-    while (zx * zx + zy * zy <= escapeRadius && iteration < maxIterations) {
-      const temp = zx * zx - zy * zy + real;
-      zy = 2 * zx * zy + imaginary;
-      zx = temp;
-      iteration++;
-    }
-
-    return iteration;
+    // 内部の点は周期を検出した時点で打ち切る
+    const { iteration, magnitudeSquared } = InteriorDetection.mandelbrot(
+      real,
+      imaginary,
+      maxIterations,
+      escapeRadius
+    );
+
+    return smooth
+      ? SmoothColoring.iterationCount(iteration, magnitudeSquared, maxIterations)
+      : iteration;
   },
 
   /**
@@ -827,7 +771,8 @@ export const FractalCalculations = {
     imaginary: number,
     c: Complex,
     maxIterations: number,
-    escapeRadius: number
+    escapeRadius: number,
+    smooth: boolean = false
   ): number => {
     let zx = real;
     let zy = imaginary;
@@ -840,7 +785,9 @@ export const FractalCalculations = {
       iteration++;
     }
 
-    return iteration;
+    return smooth
+      ? SmoothColoring.iterationCount(iteration, zx * zx + zy * zy, maxIterations)
+      : iteration;
   },
 
   /**
@@ -850,7 +797,8 @@ export const FractalCalculations = {
     real: number,
     imaginary: number,
     maxIterations: number,
-    escapeRadius: number
+    escapeRadius: number,
+    smooth: boolean = false
   ): number => {
     let zx = 0;
     let zy = 0;
@@ -863,7 +811,9 @@ export const FractalCalculations = {
       iteration++;
     }
 
-    return iteration;
+    return smooth
+      ? SmoothColoring.iterationCount(iteration, zx * zx + zy * zy, maxIterations)
+      : iteration;
   },
 
   /**
@@ -872,7 +822,6 @@ export const FractalCalculations = {
   newton: (
     real: number,
     imaginary: number,
-    polynomial: Complex[],
     tolerance: number,
     maxIterations: number,
     roots: Complex[]
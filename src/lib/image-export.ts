@@ -0,0 +1,93 @@
+import type { FractalType } from '@/types/fractal';
+
+// サムネイルの長辺の画素数
+const THUMBNAIL_SIZE = 160;
+
+// ダウンロードを始めてから Blob の URL を解放するまでの時間（ms）
+const REVOKE_DELAY = 60000;
+
+/**
+ * レンダリング結果の画像書き出し
+ *
+ * WebGPUでキャンバスへ直接表示している場合は画素がCPU側にないため、
+ * 書き出し時は読み戻し付きで描画し直した ImageData を使う。
+ */
+export const ImageExport = {
+  // サムネイルの長辺の画素数
+  thumbnailSize: THUMBNAIL_SIZE,
+
+  /**
+   * ImageData を描いたキャンバス
+   */
+  toCanvas: (imageData: ImageData): HTMLCanvasElement => {
+    const canvas = document.createElement('canvas');
+    canvas.width = imageData.width;
+    canvas.height = imageData.height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas 2D context not available');
+    }
+    context.putImageData(imageData, 0, 0);
+    return canvas;
+  },
+
+  /**
+   * ImageData をPNGに変換
+   */
+  toPngBlob: (imageData: ImageData): Promise<Blob> => {
+    let canvas: HTMLCanvasElement;
+    try {
+      canvas = ImageExport.toCanvas(imageData);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+
+    return new Promise((resolve, reject) => {
+      canvas.toBlob((blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error('PNG encoding failed'));
+        }
+      }, 'image/png');
+    });
+  },
+
+  /**
+   * 縦横比を保って縮小したサムネイル（JPEG の data URL）
+   */
+  createThumbnail: (source: HTMLCanvasElement, maxSize = THUMBNAIL_SIZE): string => {
+    const scale = Math.min(1, maxSize / Math.max(source.width, source.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(source.width * scale));
+    canvas.height = Math.max(1, Math.round(source.height * scale));
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas 2D context not available');
+    }
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(source, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.8);
+  },
+
+  /**
+   * Blob をファイルとしてダウンロード
+   */
+  download: (blob: Blob, filename: string): void => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    // click() の直後に解放するとダウンロードが始まる前に読めなくなるブラウザがあるため、時間を置いて解放する
+    setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY);
+  },
+
+  /**
+   * 書き出しファイル名（フラクタルタイプと日時）
+   */
+  createFilename: (fractalType: FractalType, extension = 'png'): string => {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    return `${fractalType}-${timestamp}.${extension}`;
+  },
+} as const;
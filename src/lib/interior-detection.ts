@@ -0,0 +1,82 @@
+/**
+ * マンデルブロ集合の内部判定
+ *
+ * 内部の点は脱出しないため、反復回数の上限まで計算すると描画時間の大半を占める。
+ * 主カージオイドと周期2のバルブは式で判定し、それ以外は軌道の周期をBrent法で検出して打ち切る。
+ * 内部と判定した点は上限まで反復した場合と同じ値（maxIterations）を返す。
+ */
+
+// 軌道が周期に入ったとみなす距離（倍精度。深いズームに入る手前のピクセル間隔より小さい）
+const PERIOD_EPSILON = 1e-14;
+
+// マンデルブロ集合の軌道の計算結果
+export interface MandelbrotOrbit {
+  // 脱出までの反復回数（内部の点は maxIterations）
+  iteration: number;
+  // 最後の z の絶対値の2乗（スムーズカラーリング用）
+  magnitudeSquared: number;
+}
+
+export const InteriorDetection = {
+  /**
+   * c が主カージオイドの内部か
+   */
+  isInMainCardioid: (real: number, imaginary: number): boolean => {
+    const x = real - 0.25;
+    const q = x * x + imaginary * imaginary;
+    return q * (q + x) <= 0.25 * imaginary * imaginary;
+  },
+
+  /**
+   * c が周期2のバルブ（中心 -1、半径 1/4 の円）の内部か
+   */
+  isInPeriod2Bulb: (real: number, imaginary: number): boolean => {
+    const x = real + 1;
+    return x * x + imaginary * imaginary <= 0.0625;
+  },
+
+  /**
+   * 内部判定付きでマンデルブロ集合の軌道を計算
+   * 保存点を 1, 2, 4, ... 回ごとに更新し、z が保存点に戻ったら周期に入ったとみなす（Brent法）
+   */
+  mandelbrot: (
+    real: number,
+    imaginary: number,
+    maxIterations: number,
+    escapeRadius: number
+  ): MandelbrotOrbit => {
+    if (InteriorDetection.isInMainCardioid(real, imaginary)) {
+      return { iteration: maxIterations, magnitudeSquared: 0 };
+    }
+    if (InteriorDetection.isInPeriod2Bulb(real, imaginary)) {
+      return { iteration: maxIterations, magnitudeSquared: 0 };
+    }
+
+    let zx = 0;
+    let zy = 0;
+    let iteration = 0;
+    let checkX = 0;
+    let checkY = 0;
+    let checkIteration = 0;
+    let checkInterval = 1;
+
+    while (zx * zx + zy * zy <= escapeRadius && iteration < maxIterations) {
+      const temp = zx * zx - zy * zy + real;
+      zy = 2 * zx * zy + imaginary;
+      zx = temp;
+      iteration++;
+
+      if (Math.abs(zx - checkX) < PERIOD_EPSILON && Math.abs(zy - checkY) < PERIOD_EPSILON) {
+        return { iteration: maxIterations, magnitudeSquared: zx * zx + zy * zy };
+      }
+      if (iteration - checkIteration === checkInterval) {
+        checkX = zx;
+        checkY = zy;
+        checkIteration = iteration;
+        checkInterval *= 2;
+      }
+    }
+
+    return { iteration, magnitudeSquared: zx * zx + zy * zy };
+  },
+} as const;
@@ -0,0 +1,36 @@
+import type { IterationBuffer } from '@/types/fractal';
+
+/**
+ * 反復回数バッファの生成とタイル合成
+ *
+ * 画素ごとの値は Float32Array に行優先で格納する。
+ * ニュートン法の root * 100 + iterations やスムーズカラーリングの小数値も f32 で表現できる。
+ */
+export const IterationBuffers = {
+  /**
+   * 0 で初期化したバッファを作成
+   */
+  create: (width: number, height: number): IterationBuffer => {
+    return { width, height, data: new Float32Array(width * height) };
+  },
+
+  /**
+   * タイルのバッファを (tileX, tileY) の位置に行単位でコピー
+   */
+  copyTile: (
+    target: IterationBuffer,
+    tile: IterationBuffer,
+    tileX: number,
+    tileY: number
+  ): void => {
+    const rows = Math.min(tile.height, target.height - tileY);
+    const columns = Math.min(tile.width, target.width - tileX);
+    for (let y = 0; y < rows; y++) {
+      const sourceStart = y * tile.width;
+      target.data.set(
+        tile.data.subarray(sourceStart, sourceStart + columns),
+        (tileY + y) * target.width + tileX
+      );
+    }
+  },
+} as const;
@@ -0,0 +1,120 @@
+import type { AllFractalParameters, FractalViewState } from '@/types/fractal';
+
+/**
+ * 表示の移動履歴（元に戻す・やり直し）
+ *
+ * React の state として扱えるよう、履歴は変更せずに新しい値を返す関数で更新する。
+ * ドラッグやホイールの連続した操作は、最初の変更で追加した項目を書き換えて1つの項目にまとめる。
+ */
+
+// 保持する項目数の上限（古いものから捨てる）
+const MAX_ENTRIES = 100;
+
+export interface HistoryEntry {
+  id: string;
+  view: FractalViewState;
+  // パンくずリストに表示するサムネイル（data URL、描画が終わるまでは未設定）
+  thumbnail?: string;
+}
+
+export interface NavigationHistoryState {
+  entries: HistoryEntry[];
+  // 現在の表示に対応する項目
+  index: number;
+}
+
+/**
+ * 反復回数以外のパラメータが同じか
+ */
+function differsOnlyInIterations(a: AllFractalParameters, b: AllFractalParameters): boolean {
+  return JSON.stringify({ ...a, iterations: 0 }) === JSON.stringify({ ...b, iterations: 0 });
+}
+
+function isSameView(a: FractalViewState, b: FractalViewState): boolean {
+  return (
+    a.fractalType === b.fractalType &&
+    a.parameters === b.parameters &&
+    a.paletteType === b.paletteType &&
+    a.smooth === b.smooth
+  );
+}
+
+export const NavigationHistory = {
+  /**
+   * 空の履歴
+   */
+  empty: (): NavigationHistoryState => ({ entries: [], index: -1 }),
+
+  /**
+   * 表示の変更を記録
+   * coalesce が true で現在の項目が最新の場合は、新しい項目を追加せずに現在の項目を書き換える。
+   * coalesceIterations が true の場合は、反復回数だけの変更（自動調整）も書き換えにする。
+   */
+  record: (
+    state: NavigationHistoryState,
+    view: FractalViewState,
+    options: { coalesce?: boolean; coalesceIterations?: boolean } = {}
+  ): NavigationHistoryState => {
+    const current = state.entries[state.index];
+    // 元に戻す・やり直しで表示した項目そのもの
+    if (current && isSameView(current.view, view)) return state;
+
+    const isLatest = state.index === state.entries.length - 1;
+    const replace =
+      current !== undefined &&
+      isLatest &&
+      (options.coalesce ||
+        (options.coalesceIterations &&
+          current.view.fractalType === view.fractalType &&
+          differsOnlyInIterations(current.view.parameters, view.parameters)));
+
+    if (replace) {
+      const entries = state.entries.slice(0, -1);
+      entries.push({ id: current.id, view });
+      return { entries, index: state.index };
+    }
+
+    const entries = [...state.entries.slice(0, state.index + 1), { id: crypto.randomUUID(), view }];
+    const trimmed = entries.slice(Math.max(0, entries.length - MAX_ENTRIES));
+    return { entries: trimmed, index: trimmed.length - 1 };
+  },
+
+  canUndo: (state: NavigationHistoryState): boolean => state.index > 0,
+
+  canRedo: (state: NavigationHistoryState): boolean => state.index < state.entries.length - 1,
+
+  /**
+   * 指定した項目へ移動（範囲外の場合は元の履歴のまま）
+   */
+  go: (state: NavigationHistoryState, index: number): NavigationHistoryState => {
+    return index >= 0 && index < state.entries.length && index !== state.index
+      ? { ...state, index }
+      : state;
+  },
+
+  /**
+   * サムネイルが未設定の現在の項目か
+   */
+  needsThumbnail: (state: NavigationHistoryState, parameters: AllFractalParameters): boolean => {
+    const current = state.entries[state.index];
+    return current !== undefined && !current.thumbnail && current.view.parameters === parameters;
+  },
+
+  /**
+   * 項目にサムネイルを設定（その間に項目が書き換えられた場合は設定しない）
+   */
+  setThumbnail: (
+    state: NavigationHistoryState,
+    id: string,
+    parameters: AllFractalParameters,
+    thumbnail: string
+  ): NavigationHistoryState => {
+    const matches = (entry: HistoryEntry) =>
+      entry.id === id && entry.view.parameters === parameters;
+    if (!state.entries.some(matches)) return state;
+    return {
+      ...state,
+      entries: state.entries.map((entry) => (matches(entry) ? { ...entry, thumbnail } : entry)),
+    };
+  },
+} as const;
@@ -0,0 +1,147 @@
+import type { AllFractalParameters, AntiAliasingSettings, FractalType } from '@/types/fractal';
+import { PreciseCoordinate } from './precise-coordinates';
+
+/**
+ * パラメータの正規化とハッシュ
+ *
+ * キーの順序や undefined のフィールドに左右されない正規形の文字列を作り、
+ * 同じ画像になるパラメータは同じキー、異なる画像になるパラメータは異なるキーになるようにする。
+ * 重複レンダリングの検出やキャッシュのキーとして使う。
+ */
+
+// 出力画像に影響するレンダリングオプション（コールバックや中断用シグナルは含めない）
+export interface HashedRenderOptions {
+  width: number;
+  height: number;
+  paletteType?: string;
+  smooth?: boolean;
+  useWebGPU?: boolean;
+  useWorkers?: boolean;
+  tileSize?: number;
+  progressive?: boolean;
+  reusePreviousFrame?: boolean;
+  useTileCache?: boolean;
+  antiAliasing?: AntiAliasingSettings;
+}
+
+/**
+ * 値を正規形の文字列に変換（オブジェクトのキーは整列し、undefined のフィールドは省く）
+ */
+function serialize(value: unknown): string {
+  switch (typeof value) {
+    case 'number':
+      // -0 は 0 と同じ座標を表す
+      return Object.is(value, -0) ? '0' : String(value);
+    case 'string':
+      return JSON.stringify(value);
+    case 'boolean':
+      return String(value);
+    case 'object': {
+      if (value === null) return 'null';
+      if (Array.isArray(value)) {
+        return `[${value.map(serialize).join(',')}]`;
+      }
+      const entries = Object.entries(value)
+        .filter(([, entry]) => entry !== undefined)
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([key, entry]) => `${JSON.stringify(key)}:${serialize(entry)}`);
+      return `{${entries.join(',')}}`;
+    }
+    default:
+      return 'null';
+  }
+}
+
+/**
+ * 53ビットの文字列ハッシュ（cyrb53）
+ */
+function hashString(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+export const ParameterHash = {
+  /**
+   * フラクタルパラメータの正規形
+   * precise は古い値を除いた実効的な表示位置に置き換える
+   */
+  canonicalize: (fractalType: FractalType, parameters: AllFractalParameters): string => {
+    return serialize({
+      fractalType,
+      parameters: { ...parameters, precise: PreciseCoordinate.toPrecise(parameters) },
+    });
+  },
+
+  /**
+   * 表示位置（中心座標・ズーム倍率）を除いたフラクタルパラメータの正規形
+   */
+  canonicalizeContent: (fractalType: FractalType, parameters: AllFractalParameters): string => {
+    const {
+      centerX: _centerX,
+      centerY: _centerY,
+      zoom: _zoom,
+      precise: _precise,
+      ...content
+    } = parameters;
+    return serialize({ fractalType, content });
+  },
+
+  /**
+   * 表示位置を除いたフラクタルパラメータのハッシュ（同じ画像の別の場所を表すか）
+   */
+  forContent: (fractalType: FractalType, parameters: AllFractalParameters): string => {
+    return hashString(ParameterHash.canonicalizeContent(fractalType, parameters));
+  },
+
+  /**
+   * フラクタルパラメータのハッシュ
+   */
+  forParameters: (fractalType: FractalType, parameters: AllFractalParameters): string => {
+    return hashString(ParameterHash.canonicalize(fractalType, parameters));
+  },
+
+  /**
+   * パラメータと出力に影響するレンダリングオプションのキー
+   * ハッシュの衝突で別の画像を返さないよう、ハッシュせずに正規形の文字列をそのまま使う
+   */
+  forRender: (
+    fractalType: FractalType,
+    parameters: AllFractalParameters,
+    options: HashedRenderOptions
+  ): string => {
+    const {
+      width,
+      height,
+      paletteType,
+      smooth,
+      useWebGPU,
+      useWorkers,
+      tileSize,
+      progressive,
+      reusePreviousFrame,
+      useTileCache,
+      antiAliasing,
+    } = options;
+    return `${ParameterHash.canonicalize(fractalType, parameters)}|${serialize({
+      width,
+      height,
+      paletteType,
+      smooth,
+      useWebGPU,
+      useWorkers,
+      tileSize,
+      progressive,
+      reusePreviousFrame,
+      useTileCache,
+      antiAliasing,
+    })}`;
+  },
+} as const;
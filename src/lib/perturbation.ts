@@ -0,0 +1,282 @@
+import type { FractalType } from '@/types/fractal';
+import { FixedPoint } from './arbitrary-precision';
+import { SmoothColoring } from './smooth-coloring';
+
+/**
+ * 摂動法（perturbation theory）による深いズーム用の計算
+ *
+ * 画面中心を参照点として高精度（BigInt固定小数点）で軌道を1本だけ計算し、
+ * 他のピクセルは参照軌道からの差分 δ を倍精度で反復する。
+ * δ_{n+1} = 2·Z_n·δ_n + δ_n² + δc
+ */
+
+// 摂動法に対応するフラクタルタイプ
+export type PerturbationFractalType = Extract<FractalType, 'mandelbrot' | 'burning-ship'>;
+
+// 倍精度での直接計算が破綻し始めるズーム倍率
+export const DEEP_ZOOM_THRESHOLD = 1e11;
+
+// 級数近似の打ち切り判定に使う相対誤差
+const SERIES_TOLERANCE = 1e-3;
+
+/**
+ * 級数近似の係数
+ * δ_skip ≈ A·δc + B·δc² + C·δc³
+ */
+export interface SeriesApproximation {
+  skip: number;
+  a: [number, number];
+  b: [number, number];
+  c: [number, number];
+}
+
+/**
+ * Workerに渡す摂動計算用データ
+ */
+export interface PerturbationData {
+  fractalType: PerturbationFractalType;
+  // 参照軌道 [Z0.re, Z0.im, Z1.re, Z1.im, ...]
+  referenceOrbit: Float64Array;
+  // 参照軌道の点数（脱出した場合は脱出点まで）
+  referenceLength: number;
+  series: SeriesApproximation | null;
+  precisionBits: number;
+}
+
+/**
+ * Burning Ship用: |c + d| - |c| を桁落ちなく計算
+ */
+function diffAbs(c: number, d: number): number {
+  const cd = c + d;
+  if (c >= 0) {
+    return cd >= 0 ? d : -d - 2 * c;
+  }
+  return cd > 0 ? d + 2 * c : -d;
+}
+
+export const Perturbation = {
+  /**
+   * 摂動法が必要なズーム倍率かどうか
+   */
+  isDeepZoom: (fractalType: FractalType, zoom: number): boolean => {
+    return (
+      (fractalType === 'mandelbrot' || fractalType === 'burning-ship') &&
+      zoom >= DEEP_ZOOM_THRESHOLD
+    );
+  },
+
+  /**
+   * 参照点の軌道を高精度で計算
+   */
+  computeReferenceOrbit: (
+    fractalType: PerturbationFractalType,
+    centerX: bigint,
+    centerY: bigint,
+    bits: number,
+    maxIterations: number,
+    escapeRadius: number
+  ): { orbit: Float64Array; length: number } => {
+    const orbit = new Float64Array((maxIterations + 1) * 2);
+    const shift = BigInt(bits);
+    let x = 0n;
+    let y = 0n;
+    let length = 1;
+
+    for (let i = 1; i <= maxIterations; i++) {
+      const x2 = (x * x) >> shift;
+      const y2 = (y * y) >> shift;
+      let xy2 = (2n * x * y) >> shift;
+      if (fractalType === 'burning-ship' && xy2 < 0n) {
+        xy2 = -xy2;
+      }
+
+      x = x2 - y2 + centerX;
+      y = xy2 + centerY;
+
+      const zr = FixedPoint.toNumber(x, bits);
+      const zi = FixedPoint.toNumber(y, bits);
+      orbit[i * 2] = zr;
+      orbit[i * 2 + 1] = zi;
+      length = i + 1;
+
+      if (zr * zr + zi * zi > escapeRadius) {
+        break;
+      }
+    }
+
+    return { orbit, length };
+  },
+
+  /**
+   * 級数近似の係数と省略可能な反復回数を計算（マンデルブロ集合のみ）
+   * maxDelta は画面内で参照点から最も遠いピクセルまでの距離
+   */
+  computeSeriesApproximation: (
+    orbit: Float64Array,
+    length: number,
+    maxDelta: number,
+    escapeRadius: number
+  ): SeriesApproximation | null => {
+    let ar = 0;
+    let ai = 0;
+    let br = 0;
+    let bi = 0;
+    let cr = 0;
+    let ci = 0;
+    let skip = 0;
+    let best: SeriesApproximation | null = null;
+    const escapeMagnitude = Math.sqrt(escapeRadius);
+
+    // 最後の点は再基準化に使うため省略対象から除外
+    for (let n = 0; n < length - 2; n++) {
+      const zr = orbit[n * 2] ?? 0;
+      const zi = orbit[n * 2 + 1] ?? 0;
+
+      // A' = 2ZA + 1, B' = 2ZB + A², C' = 2ZC + 2AB
+      const nextAr = 2 * (zr * ar - zi * ai) + 1;
+      const nextAi = 2 * (zr * ai + zi * ar);
+      const nextBr = 2 * (zr * br - zi * bi) + (ar * ar - ai * ai);
+      const nextBi = 2 * (zr * bi + zi * br) + 2 * ar * ai;
+      const nextCr = 2 * (zr * cr - zi * ci) + 2 * (ar * br - ai * bi);
+      const nextCi = 2 * (zr * ci + zi * cr) + 2 * (ar * bi + ai * br);
+
+      const term1 = Math.hypot(nextAr, nextAi) * maxDelta;
+      const term2 = Math.hypot(nextBr, nextBi) * maxDelta * maxDelta;
+      const term3 = Math.hypot(nextCr, nextCi) * maxDelta * maxDelta * maxDelta;
+
+      // 3次の項が無視できなくなったら打ち切り
+      if (!Number.isFinite(term3) || (term2 > 0 && term3 > term2 * SERIES_TOLERANCE)) {
+        break;
+      }
+
+      // 近似後の点が脱出半径に近づく場合も打ち切り
+      const nextZr = orbit[(n + 1) * 2] ?? 0;
+      const nextZi = orbit[(n + 1) * 2 + 1] ?? 0;
+      if (Math.hypot(nextZr, nextZi) + term1 + term2 > escapeMagnitude * 0.5) {
+        break;
+      }
+
+      ar = nextAr;
+      ai = nextAi;
+      br = nextBr;
+      bi = nextBi;
+      cr = nextCr;
+      ci = nextCi;
+      skip = n + 1;
+      best = { skip, a: [ar, ai], b: [br, bi], c: [cr, ci] };
+    }
+
+    return best && best.skip > 0 ? best : null;
+  },
+
+  /**
+   * 画面中心を参照点として摂動計算用データを準備
+   */
+  prepare: (
+    fractalType: PerturbationFractalType,
+    centerX: bigint,
+    centerY: bigint,
+    bits: number,
+    maxIterations: number,
+    escapeRadius: number,
+    maxDelta: number
+  ): PerturbationData => {
+    const { orbit, length } = Perturbation.computeReferenceOrbit(
+      fractalType,
+      centerX,
+      centerY,
+      bits,
+      maxIterations,
+      escapeRadius
+    );
+
+    // Burning Shipは絶対値を含み解析的でないため級数近似は使わない
+    const series =
+      fractalType === 'mandelbrot'
+        ? Perturbation.computeSeriesApproximation(orbit, length, maxDelta, escapeRadius)
+        : null;
+
+    return {
+      fractalType,
+      referenceOrbit: orbit,
+      referenceLength: length,
+      series,
+      precisionBits: bits,
+    };
+  },
+
+  /**
+   * 参照点からの差分 (dcx, dcy) のピクセルを反復
+   * 参照軌道が尽きた場合や |z| < |δ| となった場合は再基準化（rebasing）する
+   * smooth が有効な場合は正規化反復回数を返す
+   */
+  iteratePixel: (
+    data: PerturbationData,
+    dcx: number,
+    dcy: number,
+    maxIterations: number,
+    escapeRadius: number,
+    smooth: boolean = false
+  ): number => {
+    const orbit = data.referenceOrbit;
+    const lastIndex = data.referenceLength - 1;
+    const burningShip = data.fractalType === 'burning-ship';
+
+    let dx = 0;
+    let dy = 0;
+    let n = 0;
+    let m = 0;
+
+    const series = data.series;
+    if (series) {
+      // δ = A·δc + B·δc² + C·δc³
+      const dc2r = dcx * dcx - dcy * dcy;
+      const dc2i = 2 * dcx * dcy;
+      const dc3r = dc2r * dcx - dc2i * dcy;
+      const dc3i = dc2r * dcy + dc2i * dcx;
+      const [ar, ai] = series.a;
+      const [br, bi] = series.b;
+      const [cr, ci] = series.c;
+      dx = ar * dcx - ai * dcy + br * dc2r - bi * dc2i + cr * dc3r - ci * dc3i;
+      dy = ar * dcy + ai * dcx + br * dc2i + bi * dc2r + cr * dc3i + ci * dc3r;
+      n = series.skip;
+      m = series.skip;
+    }
+
+    while (n < maxIterations) {
+      const zr = orbit[m * 2] ?? 0;
+      const zi = orbit[m * 2 + 1] ?? 0;
+
+      let nextDx: number;
+      let nextDy: number;
+      if (burningShip) {
+        nextDx = 2 * zr * dx + dx * dx - 2 * zi * dy - dy * dy + dcx;
+        nextDy = 2 * diffAbs(zr * zi, zr * dy + dx * zi + dx * dy) + dcy;
+      } else {
+        nextDx = 2 * (zr * dx - zi * dy) + dx * dx - dy * dy + dcx;
+        nextDy = 2 * (zr * dy + zi * dx) + 2 * dx * dy + dcy;
+      }
+      dx = nextDx;
+      dy = nextDy;
+      m++;
+      n++;
+
+      const fullR = (orbit[m * 2] ?? 0) + dx;
+      const fullI = (orbit[m * 2 + 1] ?? 0) + dy;
+      const magnitudeSquared = fullR * fullR + fullI * fullI;
+
+      if (magnitudeSquared > escapeRadius) {
+        return smooth ? SmoothColoring.iterationCount(n, magnitudeSquared, maxIterations) : n;
+      }
+
+      // 再基準化: 参照軌道の終端に達したか、差分が全体値より大きくなった場合
+      if (m >= lastIndex || magnitudeSquared < dx * dx + dy * dy) {
+        dx = fullR;
+        dy = fullI;
+        m = 0;
+      }
+    }
+
+    return maxIterations;
+  },
+} as const;
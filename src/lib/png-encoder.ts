@@ -0,0 +1,196 @@
+/**
+ * 行単位でストリーミングするPNGエンコーダー
+ *
+ * 画像全体をメモリに持たず、受け取った行をすぐに圧縮して出力先へ書き込む（RGBA 8ビット、インターレースなし）。
+ * 圧縮はブラウザの CompressionStream（zlib形式の deflate）を使い、出力を IDAT チャンクに分けて書き込む。
+ */
+
+// PNGのシグネチャ
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// 1つの IDAT チャンクにまとめる圧縮データの目安（バイト）
+const IDAT_CHUNK_SIZE = 64 * 1024;
+
+// 1画素のバイト数（RGBA）
+const BYTES_PER_PIXEL = 4;
+
+// Paeth フィルタの番号
+const FILTER_PAETH = 4;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32（PNGチャンクの検査値）
+ */
+function crc32(bytes: Uint8Array, crc = 0xffffffff): number {
+  let value = crc;
+  for (let i = 0; i < bytes.length; i++) {
+    value = (CRC_TABLE[(value ^ (bytes[i] ?? 0)) & 0xff] ?? 0) ^ (value >>> 8);
+  }
+  return value;
+}
+
+/**
+ * PNGチャンク（長さ・種類・データ・CRC）
+ */
+export function createPngChunk(type: string, data: Uint8Array): Uint8Array<ArrayBuffer> {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(data, 8);
+  const crc = crc32(chunk.subarray(4, 8 + data.length)) ^ 0xffffffff;
+  view.setUint32(8 + data.length, crc >>> 0);
+  return chunk;
+}
+
+function paeth(left: number, up: number, upperLeft: number): number {
+  const estimate = left + up - upperLeft;
+  const distanceLeft = Math.abs(estimate - left);
+  const distanceUp = Math.abs(estimate - up);
+  const distanceUpperLeft = Math.abs(estimate - upperLeft);
+  if (distanceLeft <= distanceUp && distanceLeft <= distanceUpperLeft) return left;
+  return distanceUp <= distanceUpperLeft ? up : upperLeft;
+}
+
+export class PngEncoder {
+  private readonly output: WritableStreamDefaultWriter<Uint8Array>;
+  private readonly compressor: WritableStreamDefaultWriter<Uint8Array>;
+  // ヘッダーと、圧縮データを IDAT チャンクとして書き出す処理（失敗は writeRows / finish で受け取る）
+  private readonly drained: Promise<void>;
+  private previousRow: Uint8Array;
+  private writtenRows = 0;
+
+  /**
+   * @param chunks IHDR と IDAT の間に入れる補助チャンク（テキストなど）
+   */
+  constructor(
+    private readonly width: number,
+    private readonly height: number,
+    destination: WritableStream<Uint8Array>,
+    chunks: Uint8Array[] = []
+  ) {
+    this.output = destination.getWriter();
+    this.previousRow = new Uint8Array(width * BYTES_PER_PIXEL);
+
+    const compression = new CompressionStream('deflate');
+    this.compressor = compression.writable.getWriter();
+    this.drained = this.writeHeader(chunks).then(() => this.drain(compression.readable));
+    // writeRows / finish を呼ぶまでの間に失敗しても未処理の拒否にしない
+    this.drained.catch(() => undefined);
+  }
+
+  /**
+   * 上から順に行を追加（rgba は rows 行分の RGBA 画素）
+   */
+  async writeRows(rgba: Uint8Array | Uint8ClampedArray, rows: number): Promise<void> {
+    const rowBytes = this.width * BYTES_PER_PIXEL;
+    if (rgba.length < rows * rowBytes) {
+      throw new Error('Row data is shorter than the specified row count');
+    }
+    if (this.writtenRows + rows > this.height) {
+      throw new Error('Too many rows for the PNG height');
+    }
+
+    for (let row = 0; row < rows; row++) {
+      const current = rgba.subarray(row * rowBytes, (row + 1) * rowBytes);
+      const filtered = new Uint8Array(rowBytes + 1);
+      filtered[0] = FILTER_PAETH;
+      for (let i = 0; i < rowBytes; i++) {
+        const left = i >= BYTES_PER_PIXEL ? (current[i - BYTES_PER_PIXEL] ?? 0) : 0;
+        const up = this.previousRow[i] ?? 0;
+        const upperLeft = i >= BYTES_PER_PIXEL ? (this.previousRow[i - BYTES_PER_PIXEL] ?? 0) : 0;
+        filtered[i + 1] = ((current[i] ?? 0) - paeth(left, up, upperLeft)) & 0xff;
+      }
+      this.previousRow = Uint8Array.from(current);
+      await this.untilDrained(this.compressor.write(filtered));
+    }
+    this.writtenRows += rows;
+  }
+
+  /**
+   * 残りの圧縮データと IEND を書き込んで出力先を閉じる
+   */
+  async finish(): Promise<void> {
+    if (this.writtenRows !== this.height) {
+      throw new Error(`PNG is incomplete: ${this.writtenRows}/${this.height} rows`);
+    }
+    await this.untilDrained(this.compressor.close());
+    await this.drained;
+    await this.output.write(createPngChunk('IEND', new Uint8Array(0)));
+    await this.output.close();
+  }
+
+  /**
+   * 書き込みを中止（出力先も中止し、書きかけのファイルは残さない）
+   */
+  async abort(reason?: unknown): Promise<void> {
+    await Promise.allSettled([this.compressor.abort(reason), this.output.abort(reason)]);
+  }
+
+  /**
+   * 圧縮ストリームへの操作を待つ（出力先が失敗した場合はその時点で失敗する）
+   * 出力先が失敗すると圧縮データが読まれなくなり、圧縮ストリームへの書き込みが終わらないため
+   */
+  private async untilDrained(operation: Promise<void>): Promise<void> {
+    // 先に失敗した場合、後から中止される操作の拒否は使わない
+    operation.catch(() => undefined);
+    await Promise.race([operation, this.drained]);
+  }
+
+  private async writeHeader(chunks: Uint8Array[]): Promise<void> {
+    const header = new Uint8Array(13);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, this.width);
+    view.setUint32(4, this.height);
+    header[8] = 8; // ビット深度
+    header[9] = 6; // RGBA
+    await this.output.write(PNG_SIGNATURE);
+    await this.output.write(createPngChunk('IHDR', header));
+    for (const chunk of chunks) {
+      await this.output.write(chunk);
+    }
+  }
+
+  private async drain(compressed: ReadableStream<Uint8Array>): Promise<void> {
+    const reader = compressed.getReader();
+    let pending: Uint8Array[] = [];
+    let pendingBytes = 0;
+
+    const flush = async () => {
+      if (pendingBytes === 0) return;
+      const data = new Uint8Array(pendingBytes);
+      let offset = 0;
+      for (const part of pending) {
+        data.set(part, offset);
+        offset += part.length;
+      }
+      pending = [];
+      pendingBytes = 0;
+      await this.output.write(createPngChunk('IDAT', data));
+    };
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      pending.push(value);
+      pendingBytes += value.length;
+      if (pendingBytes >= IDAT_CHUNK_SIZE) {
+        await flush();
+      }
+    }
+    await flush();
+  }
+}
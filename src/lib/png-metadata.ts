@@ -0,0 +1,176 @@
+import type { AntiAliasingSettings, FractalViewState } from '@/types/fractal';
+import { createPngChunk } from './png-encoder';
+import { Supersampling } from './supersampling';
+import { ViewState } from './view-state';
+
+/**
+ * PNGに埋め込むフラクタルのメタデータ
+ *
+ * 書き出した画像から同じ表示を復元できるよう、パラメータ・パレット・レンダリング設定を
+ * JSONにして iTXt チャンク（UTF-8）に保存する。画像ビューアで読めるよう、概要は tEXt チャンクにも書く。
+ */
+
+// メタデータを保存する iTXt チャンクのキーワード
+const METADATA_KEYWORD = 'fractal-explorer';
+
+// メタデータの形式のバージョン
+const METADATA_VERSION = 1;
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// 画像と一緒に保存する表示状態とレンダリング設定
+export interface FractalImageMetadata extends FractalViewState {
+  // 画像のサイズ（読み出した値が不正な場合は 0）
+  width: number;
+  height: number;
+  antiAliasing?: AntiAliasingSettings;
+}
+
+// PNGのチャンク
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+  // チャンク全体（長さ・種類・データ・CRC）のバイト範囲
+  start: number;
+  end: number;
+}
+
+/**
+ * Latin-1 の文字列をバイト列に変換（範囲外の文字は '?'）
+ */
+function encodeLatin1(text: string): Uint8Array {
+  return Uint8Array.from(text, (char) => {
+    const code = char.charCodeAt(0);
+    return code < 256 ? code : 0x3f;
+  });
+}
+
+/**
+ * PNGのチャンクを順に読み出す（シグネチャが異なる場合は null）
+ */
+function readChunks(bytes: Uint8Array): PngChunk[] | null {
+  if (bytes.length < 8 || PNG_SIGNATURE.some((value, index) => bytes[index] !== value)) {
+    return null;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const end = offset + 12 + length;
+    if (end > bytes.length) break;
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    chunks.push({
+      type,
+      data: bytes.subarray(offset + 8, offset + 8 + length),
+      start: offset,
+      end,
+    });
+    offset = end;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+}
+
+/**
+ * iTXt チャンクのキーワードと本文（圧縮された本文は対象外）
+ */
+function parseInternationalText(data: Uint8Array): { keyword: string; text: string } | null {
+  const keywordEnd = data.indexOf(0);
+  if (keywordEnd < 0 || keywordEnd + 2 >= data.length) return null;
+  const compressed = data[keywordEnd + 1] !== 0;
+  const languageEnd = data.indexOf(0, keywordEnd + 3);
+  const translatedEnd = languageEnd < 0 ? -1 : data.indexOf(0, languageEnd + 1);
+  if (compressed || translatedEnd < 0) return null;
+
+  return {
+    keyword: String.fromCharCode(...data.subarray(0, keywordEnd)),
+    text: new TextDecoder().decode(data.subarray(translatedEnd + 1)),
+  };
+}
+
+export const PngMetadata = {
+  /**
+   * メタデータのチャンク（IHDR の直後に置く）
+   */
+  createChunks: (metadata: FractalImageMetadata): Uint8Array[] => {
+    const { fractalType, parameters } = metadata;
+    const description = `${fractalType} center=(${parameters.precise?.centerX ?? parameters.centerX}, ${
+      parameters.precise?.centerY ?? parameters.centerY
+    }) zoom=${parameters.zoom} iterations=${parameters.iterations}`;
+    const json = JSON.stringify({ version: METADATA_VERSION, ...metadata });
+
+    const keyword = encodeLatin1(METADATA_KEYWORD);
+    const text = new TextEncoder().encode(json);
+    // キーワード、圧縮フラグ・方式、言語タグ、翻訳キーワード、本文
+    const international = new Uint8Array(keyword.length + 5 + text.length);
+    international.set(keyword, 0);
+    international.set(text, keyword.length + 5);
+
+    const textChunk = (key: string, value: string) =>
+      createPngChunk('tEXt', encodeLatin1(`${key}\0${value}`));
+
+    return [
+      textChunk('Software', 'Fractal Explorer'),
+      textChunk('Description', description),
+      createPngChunk('iTXt', international),
+    ];
+  },
+
+  /**
+   * PNGにメタデータを埋め込む
+   */
+  embed: async (png: Blob, metadata: FractalImageMetadata): Promise<Blob> => {
+    const bytes = new Uint8Array(await png.arrayBuffer());
+    const header = readChunks(bytes)?.[0];
+    if (!header || header.type !== 'IHDR') {
+      throw new Error('Not a PNG image');
+    }
+    return new Blob(
+      [
+        bytes.subarray(0, header.end),
+        ...PngMetadata.createChunks(metadata),
+        bytes.subarray(header.end),
+      ],
+      { type: 'image/png' }
+    );
+  },
+
+  /**
+   * PNGからメタデータを読み出す（埋め込まれていない場合や壊れている場合は null）
+   */
+  read: async (file: Blob): Promise<FractalImageMetadata | null> => {
+    const chunks = readChunks(new Uint8Array(await file.arrayBuffer()));
+    if (!chunks) return null;
+
+    for (const chunk of chunks) {
+      if (chunk.type !== 'iTXt') continue;
+      const entry = parseInternationalText(chunk.data);
+      if (entry?.keyword !== METADATA_KEYWORD) continue;
+
+      let value: unknown;
+      try {
+        value = JSON.parse(entry.text);
+      } catch {
+        return null;
+      }
+      const view = ViewState.normalize(value);
+      if (!view) return null;
+
+      const { width, height, antiAliasing } = value as Partial<
+        Record<keyof FractalImageMetadata, unknown>
+      >;
+      const isSize = (size: unknown): size is number => Number.isInteger(size) && Number(size) > 0;
+      return {
+        ...view,
+        width: isSize(width) ? width : 0,
+        height: isSize(height) ? height : 0,
+        ...(antiAliasing !== undefined
+          ? { antiAliasing: Supersampling.normalize(antiAliasing) }
+          : {}),
+      };
+    }
+    return null;
+  },
+} as const;
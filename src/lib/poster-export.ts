@@ -0,0 +1,229 @@
+import type { AllFractalParameters, FractalType } from '@/types/fractal';
+import type { FractalEngine, RenderOptions } from './fractal-engine';
+import { ImageExport } from './image-export';
+import { PngEncoder } from './png-encoder';
+import { RenderCancellation } from './render-cancellation';
+import { Reprojection } from './reprojection';
+import { Supersampling } from './supersampling';
+
+/**
+ * 高解像度のポスター書き出し
+ *
+ * 画面の表示範囲を指定サイズで描き直す。画像を横長の帯に分け、帯をさらにタイルに分けて
+ * FractalEngine で描画し、帯が埋まるごとにPNGエンコーダーへ流す。
+ * メモリに持つのは1本の帯と圧縮済みのデータだけなので、16k×16k のような画像も書き出せる。
+ */
+
+// 書き出せる画像の一辺の上限（画素）
+export const MAX_POSTER_SIZE = 32768;
+
+// 1回の描画の幅の上限（WebGPUのテクスチャ・バッファの制限に収める）
+const TILE_WIDTH = 2048;
+
+// 1本の帯の画素数の目安と、帯の高さの範囲
+const BAND_PIXELS = 4 * 1024 * 1024;
+const MIN_BAND_HEIGHT = 16;
+const MAX_BAND_HEIGHT = 512;
+
+// ファイル保存ダイアログが使えない場合にメモリへ溜める圧縮済みデータの上限（バイト）
+const MAX_IN_MEMORY_BYTES = 512 * 1024 * 1024;
+
+// 進捗を通知する最短の間隔（ms）
+const PROGRESS_INTERVAL = 100;
+
+// 帯ごとの描画で使えないオプション（書き出し側で決める、キャッシュは画面表示用）
+type PosterRenderOptions = Omit<
+  RenderOptions,
+  | 'width'
+  | 'height'
+  | 'signal'
+  | 'onProgress'
+  | 'onPass'
+  | 'progressive'
+  | 'reusePreviousFrame'
+  | 'useTileCache'
+  | 'retainFrame'
+>;
+
+export interface PosterExportRequest {
+  fractalType: FractalType;
+  parameters: AllFractalParameters;
+  width: number;
+  height: number;
+  renderOptions: PosterRenderOptions;
+  // IHDR の直後に入れる補助チャンク（メタデータなど）
+  chunks?: Uint8Array[];
+  // 中断されると書きかけの出力を破棄して AbortError で終了する
+  signal?: AbortSignal;
+  onProgress?: (progress: PosterExportProgress) => void;
+}
+
+export interface PosterExportProgress {
+  renderedPixels: number;
+  totalPixels: number;
+  // 0〜1
+  progress: number;
+  // 経過時間（ms）
+  elapsed: number;
+  // 残り時間の見込み（ms、描画前は null）
+  remaining: number | null;
+}
+
+// ファイル保存ダイアログ（File System Access API、対応ブラウザのみ）
+interface SaveFilePickerWindow extends Window {
+  showSaveFilePicker?: (options: {
+    suggestedName?: string;
+    types?: Array<{ description: string; accept: Record<string, string[]> }>;
+  }) => Promise<FileSystemFileHandle>;
+}
+
+export const PosterExport = {
+  /**
+   * 書き出せるサイズか
+   */
+  isValidSize: (width: number, height: number): boolean => {
+    return (
+      Number.isInteger(width) &&
+      Number.isInteger(height) &&
+      width > 0 &&
+      height > 0 &&
+      width <= MAX_POSTER_SIZE &&
+      height <= MAX_POSTER_SIZE
+    );
+  },
+
+  /**
+   * 幅に応じた帯の高さ
+   */
+  bandHeight: (width: number): number => {
+    return Math.min(MAX_BAND_HEIGHT, Math.max(MIN_BAND_HEIGHT, Math.floor(BAND_PIXELS / width)));
+  },
+
+  /**
+   * 書き出し先を開く
+   * ファイル保存ダイアログに対応していればファイルへ直接書き込み、
+   * 非対応の場合は圧縮済みのデータをすべてメモリに持ち、最後に Blob にまとめてダウンロードする
+   * （メモリに持つ量は MAX_IN_MEMORY_BYTES までで、超えた時点で書き出しを失敗させる）
+   * 保存ダイアログはユーザー操作の直後にしか開けないため、描画を始める前に呼ぶ
+   */
+  openDestination: async (filename: string): Promise<WritableStream<Uint8Array>> => {
+    const picker = (window as SaveFilePickerWindow).showSaveFilePicker;
+    if (picker) {
+      const handle = await picker.call(window, {
+        suggestedName: filename,
+        types: [{ description: 'PNG image', accept: { 'image/png': ['.png'] } }],
+      });
+      return handle.createWritable();
+    }
+
+    let parts: BlobPart[] = [];
+    let totalBytes = 0;
+    return new WritableStream<Uint8Array>({
+      write: (chunk) => {
+        totalBytes += chunk.length;
+        if (totalBytes > MAX_IN_MEMORY_BYTES) {
+          parts = [];
+          throw new Error('Poster is too large to export without a save file dialog');
+        }
+        parts.push(new Uint8Array(chunk));
+      },
+      close: () => {
+        ImageExport.download(new Blob(parts, { type: 'image/png' }), filename);
+        parts = [];
+      },
+      abort: () => {
+        parts = [];
+      },
+    });
+  },
+
+  /**
+   * 画像を帯ごとに描画し、PNGとして書き出し先へ流す
+   */
+  render: async (
+    engine: FractalEngine,
+    request: PosterExportRequest,
+    destination: WritableStream<Uint8Array>
+  ): Promise<void> => {
+    const { fractalType, parameters, width, height, renderOptions, signal } = request;
+    if (!PosterExport.isValidSize(width, height)) {
+      throw new Error(`Invalid poster size: ${width}×${height}`);
+    }
+
+    const encoder = new PngEncoder(width, height, destination, request.chunks);
+    // 隣の画素を参照するフィルタでタイルの境目がずれないよう、周囲を余分に描画して切り取る
+    const margin = Supersampling.margin(renderOptions.antiAliasing);
+    const bandHeight = PosterExport.bandHeight(width);
+    const band = new Uint8ClampedArray(width * bandHeight * 4);
+    const totalPixels = width * height;
+    const startTime = performance.now();
+    let renderedPixels = 0;
+    let lastReport = 0;
+
+    const report = (pixels: number, force = false) => {
+      const now = performance.now();
+      if (!force && now - lastReport < PROGRESS_INTERVAL) return;
+      lastReport = now;
+      const progress = pixels / totalPixels;
+      const elapsed = now - startTime;
+      request.onProgress?.({
+        renderedPixels: pixels,
+        totalPixels,
+        progress,
+        elapsed,
+        remaining: progress > 0 ? (elapsed / progress) * (1 - progress) : null,
+      });
+    };
+
+    try {
+      report(0, true);
+      for (let y = 0; y < height; y += bandHeight) {
+        const rows = Math.min(bandHeight, height - y);
+
+        for (let x = 0; x < width; x += TILE_WIDTH) {
+          RenderCancellation.throwIfAborted(signal);
+          const columns = Math.min(TILE_WIDTH, width - x);
+          const region = {
+            x: x - margin,
+            y: y - margin,
+            width: columns + margin * 2,
+            height: rows + margin * 2,
+          };
+          const tilePixels = columns * rows;
+          const completed = renderedPixels;
+
+          const result = await engine.renderFractal(
+            fractalType,
+            Reprojection.regionParameters(parameters, region, width, height),
+            {
+              ...renderOptions,
+              width: region.width,
+              height: region.height,
+              ...(signal ? { signal } : {}),
+              // タイルは帯へコピーしたら不要なため、着色し直し用にエンジンへ残さない
+              retainFrame: false,
+              onProgress: (progress) => report(completed + progress * tilePixels),
+            }
+          );
+
+          // 余分に描画した周囲を除いて帯へコピー
+          const source = result.imageData.data;
+          for (let row = 0; row < rows; row++) {
+            const start = ((row + margin) * region.width + margin) * 4;
+            band.set(source.subarray(start, start + columns * 4), (row * width + x) * 4);
+          }
+          renderedPixels += tilePixels;
+          report(renderedPixels);
+        }
+
+        await encoder.writeRows(band, rows);
+      }
+
+      await encoder.finish();
+      report(totalPixels, true);
+    } catch (error) {
+      await encoder.abort(error);
+      throw error;
+    }
+  },
+} as const;
@@ -0,0 +1,244 @@
+import type { FractalParameters, PreciseCoordinates } from '@/types/fractal';
+import { FixedPoint } from './arbitrary-precision';
+
+/**
+ * 10進数文字列による高精度な中心座標の管理
+ *
+ * 倍精度で表現できる範囲では centerX/centerY/zoom の数値と可逆に変換できる。
+ * 数値だけが書き換えられた場合（リセットや入力欄での変更）は precise を古い値として扱う。
+ */
+
+// 符号・整数部・小数部・指数部を持つ10進数表記
+const DECIMAL_PATTERN = /^([+-]?)(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/;
+
+// 画面の最大辺に対して確保するピクセル数の目安
+const REFERENCE_PIXELS = 8192;
+
+const LOG2_10 = Math.log2(10);
+
+interface ParsedDecimal {
+  negative: boolean;
+  // 仮数（整数）
+  digits: bigint;
+  // 10の指数
+  exponent: number;
+}
+
+function parseDecimal(value: string): ParsedDecimal | null {
+  const match = DECIMAL_PATTERN.exec(value.trim());
+  if (!match) return null;
+
+  const [, sign = '', integerPart = '', fractionPart = '', exponentPart = '0'] = match;
+  if (integerPart === '' && fractionPart === '') return null;
+
+  return {
+    negative: sign === '-',
+    digits: BigInt(`${integerPart}${fractionPart}` || '0'),
+    exponent: Number.parseInt(exponentPart, 10) - fractionPart.length,
+  };
+}
+
+/**
+ * 整数 digits を 10^-fractionDigits 倍した値を小数表記に変換（末尾の0は除去）
+ */
+function formatDigits(negative: boolean, digits: bigint, fractionDigits: number): string {
+  const text = digits.toString().padStart(fractionDigits + 1, '0');
+  const integerPart = text.slice(0, text.length - fractionDigits);
+  const fractionPart = text.slice(text.length - fractionDigits).replace(/0+$/, '');
+  const body = fractionPart ? `${integerPart}.${fractionPart}` : integerPart;
+  return negative && digits !== 0n ? `-${body}` : body;
+}
+
+/**
+ * 小数部の桁数（指数表記を考慮）
+ */
+function fractionDigitsOf(value: string): number {
+  const parsed = parseDecimal(value);
+  return parsed ? Math.max(0, -parsed.exponent) : 0;
+}
+
+export const PreciseCoordinate = {
+  /**
+   * 10進数文字列として解釈できるか
+   */
+  isValid: (value: string): boolean => {
+    return parseDecimal(value) !== null;
+  },
+
+  /**
+   * 10進数文字列を固定小数点に変換（最近接丸め）
+   */
+  parse: (value: string, bits: number): bigint => {
+    const parsed = parseDecimal(value);
+    if (!parsed) {
+      throw new Error(`Invalid decimal coordinate: ${value}`);
+    }
+
+    let scaled: bigint;
+    if (parsed.exponent >= 0) {
+      scaled = (parsed.digits * 10n ** BigInt(parsed.exponent)) << BigInt(bits);
+    } else {
+      const denominator = 10n ** BigInt(-parsed.exponent);
+      scaled = ((parsed.digits << BigInt(bits)) + denominator / 2n) / denominator;
+    }
+    return parsed.negative ? -scaled : scaled;
+  },
+
+  /**
+   * 固定小数点を指定した小数桁数の10進数文字列に変換（末尾の0は除去）
+   */
+  format: (value: bigint, bits: number, fractionDigits: number): string => {
+    const negative = value < 0n;
+    const abs = negative ? -value : value;
+    const scale = 10n ** BigInt(fractionDigits);
+    const half = 1n << BigInt(Math.max(0, bits - 1));
+    const rounded = (abs * scale + half) >> BigInt(bits);
+    return formatDigits(negative, rounded, fractionDigits);
+  },
+
+  /**
+   * 倍精度の数値を10進数文字列に変換（Number() で元の値に戻る最短表記）
+   */
+  fromNumber: (value: number): string => {
+    const text = String(value);
+    const parsed = parseDecimal(text);
+    if (!parsed) return text;
+
+    // 指数表記を展開して通常の小数表記にそろえる
+    return parsed.exponent >= 0
+      ? formatDigits(parsed.negative, parsed.digits * 10n ** BigInt(parsed.exponent), 0)
+      : formatDigits(parsed.negative, parsed.digits, -parsed.exponent);
+  },
+
+  /**
+   * precise が数値パラメータと一致している（古くなっていない）か
+   */
+  isConsistent: (parameters: FractalParameters): boolean => {
+    const { precise } = parameters;
+    return (
+      precise !== undefined &&
+      PreciseCoordinate.isValid(precise.centerX) &&
+      PreciseCoordinate.isValid(precise.centerY) &&
+      Number(precise.centerX) === parameters.centerX &&
+      Number(precise.centerY) === parameters.centerY
+    );
+  },
+
+  /**
+   * 現在の表示位置を10進数文字列で取得（precise が古い場合は数値から生成）
+   */
+  toPrecise: (parameters: FractalParameters): PreciseCoordinates => {
+    const zoom =
+      parameters.precise && Number(parameters.precise.zoom) === parameters.zoom
+        ? parameters.precise.zoom
+        : String(parameters.zoom);
+
+    if (parameters.precise && PreciseCoordinate.isConsistent(parameters)) {
+      return { ...parameters.precise, zoom };
+    }
+    return {
+      centerX: PreciseCoordinate.fromNumber(parameters.centerX),
+      centerY: PreciseCoordinate.fromNumber(parameters.centerY),
+      zoom,
+    };
+  },
+
+  /**
+   * 10進数文字列から数値パラメータを復元
+   */
+  toNumbers: (precise: PreciseCoordinates): { centerX: number; centerY: number; zoom: number } => {
+    return {
+      centerX: Number(precise.centerX),
+      centerY: Number(precise.centerY),
+      zoom: Number(precise.zoom),
+    };
+  },
+
+  /**
+   * ズーム倍率と文字列の桁数から、中心座標の計算に必要な小数部ビット数を決定
+   */
+  precisionBits: (parameters: FractalParameters): number => {
+    const precise = PreciseCoordinate.toPrecise(parameters);
+    const digits = Math.max(fractionDigitsOf(precise.centerX), fractionDigitsOf(precise.centerY));
+    return Math.max(
+      FixedPoint.precisionBitsForZoom(parameters.zoom * REFERENCE_PIXELS),
+      Math.ceil(digits * LOG2_10) + 32
+    );
+  },
+
+  /**
+   * 中心座標を固定小数点で取得
+   */
+  getCenter: (parameters: FractalParameters, bits: number): { x: bigint; y: bigint } => {
+    if (parameters.precise && PreciseCoordinate.isConsistent(parameters)) {
+      return {
+        x: PreciseCoordinate.parse(parameters.precise.centerX, bits),
+        y: PreciseCoordinate.parse(parameters.precise.centerY, bits),
+      };
+    }
+    return {
+      x: FixedPoint.fromNumber(parameters.centerX, bits),
+      y: FixedPoint.fromNumber(parameters.centerY, bits),
+    };
+  },
+
+  /**
+   * 中心座標から (deltaReal, deltaImag) だけ離れた点を10進数文字列で取得
+   * 差分は倍精度でも、加算は固定小数点で行うため桁落ちしない
+   */
+  offset: (
+    parameters: FractalParameters,
+    deltaReal: number,
+    deltaImag: number
+  ): Pick<PreciseCoordinates, 'centerX' | 'centerY'> => {
+    const bits = PreciseCoordinate.precisionBits(parameters);
+    const center = PreciseCoordinate.getCenter(parameters, bits);
+    const x = center.x + FixedPoint.fromNumber(deltaReal, bits);
+    const y = center.y + FixedPoint.fromNumber(deltaImag, bits);
+
+    // ピクセル間隔より十分細かい桁数で打ち切る
+    const fractionDigits =
+      Math.ceil(Math.log10(Math.max(1, parameters.zoom * REFERENCE_PIXELS))) + 20;
+    return {
+      centerX: PreciseCoordinate.format(x, bits, fractionDigits),
+      centerY: PreciseCoordinate.format(y, bits, fractionDigits),
+    };
+  },
+
+  /**
+   * 中心座標を複素平面上で (deltaReal, deltaImag) だけ移動
+   */
+  offsetCenter: <T extends FractalParameters>(
+    parameters: T,
+    deltaReal: number,
+    deltaImag: number
+  ): T => {
+    const center = PreciseCoordinate.offset(parameters, deltaReal, deltaImag);
+    return PreciseCoordinate.withPrecise(parameters, {
+      ...center,
+      zoom: PreciseCoordinate.toPrecise(parameters).zoom,
+    });
+  },
+
+  /**
+   * 中心座標を保ったままズーム倍率を変更
+   */
+  withZoom: <T extends FractalParameters>(parameters: T, zoom: number): T => {
+    return {
+      ...parameters,
+      zoom,
+      precise: { ...PreciseCoordinate.toPrecise(parameters), zoom: String(zoom) },
+    };
+  },
+
+  /**
+   * 10進数文字列の表示位置を適用
+   */
+  withPrecise: <T extends FractalParameters>(parameters: T, precise: PreciseCoordinates): T => {
+    return {
+      ...parameters,
+      ...PreciseCoordinate.toNumbers(precise),
+      precise,
+    };
+  },
+} as const;
@@ -0,0 +1,127 @@
+import type { IterationBuffer } from '@/types/fractal';
+
+/**
+ * 段階的レンダリングのサンプリング
+ *
+ * 1/8 → 1/4 → 1/2 → 等倍の順にサンプル間隔を半分にしていく。
+ * 間隔 step の格子は前のパスの格子（間隔 2 * step）を含むため、計算済みの点は飛ばして再利用する。
+ * 途中のパスでは各サンプルの値を step × step のブロックに広げて表示する。
+ */
+
+// 1パスで計算する点の格子
+export interface SamplingPattern {
+  // サンプル間隔（画素）。1 で等倍
+  step: number;
+  // 前のパスのサンプル間隔（この格子上の点は計算済み）
+  previousStep?: number;
+}
+
+// 段階的レンダリングの1パス
+export interface RenderPass extends SamplingPattern {
+  // 1始まりのパス番号
+  number: number;
+  count: number;
+}
+
+// 粗い順のサンプル間隔（前のパスの半分ずつ）
+const PASS_STEPS = [8, 4, 2, 1] as const;
+
+// すべての画素を計算する（段階的レンダリングを使わない場合）
+const FULL_SAMPLING: SamplingPattern = { step: 1 };
+
+/**
+ * origin 以降で最初に step の倍数になる位置までのオフセット
+ */
+function alignedOffset(origin: number, step: number): number {
+  return ((-origin % step) + step) % step;
+}
+
+export const ProgressiveSampling = {
+  // 段階的レンダリングを使わない場合の格子
+  fullResolution: FULL_SAMPLING,
+
+  /**
+   * 全パスを粗い順に作成
+   */
+  createPasses: (): RenderPass[] => {
+    return PASS_STEPS.map((step, index) => ({
+      number: index + 1,
+      count: PASS_STEPS.length,
+      step,
+      ...(index > 0 ? { previousStep: PASS_STEPS[index - 1] } : {}),
+    }));
+  },
+
+  /**
+   * パスで計算する画素の全体に対する割合（進捗の重み付け用）
+   */
+  share: (pattern: SamplingPattern): number => {
+    const previous = pattern.previousStep ? 1 / pattern.previousStep ** 2 : 0;
+    return 1 / pattern.step ** 2 - previous;
+  },
+
+  /**
+   * originY から始まる領域で最初に計算する行のオフセット
+   */
+  firstRow: (originY: number, pattern: SamplingPattern): number => {
+    return alignedOffset(originY, pattern.step);
+  },
+
+  /**
+   * 画面全体で globalY 行目の、originX から始まる領域で計算する列（開始オフセットと間隔）
+   * 前のパスで計算済みの行では、計算済みの列を飛ばす
+   */
+  columns: (
+    globalY: number,
+    originX: number,
+    pattern: SamplingPattern
+  ): { start: number; stride: number } => {
+    const { step, previousStep } = pattern;
+    if (previousStep === undefined || globalY % previousStep !== 0) {
+      return { start: alignedOffset(originX, step), stride: step };
+    }
+    // 前の格子にない列は step, 3 * step, 5 * step, ...
+    return { start: alignedOffset(originX - step, previousStep), stride: previousStep };
+  },
+
+  /**
+   * タイルのバッファから、パスで計算した点だけを (tileX, tileY) の位置にコピー
+   */
+  copySamples: (
+    target: IterationBuffer,
+    tile: IterationBuffer,
+    tileX: number,
+    tileY: number,
+    pattern: SamplingPattern
+  ): void => {
+    const rows = Math.min(tile.height, target.height - tileY);
+    const columns = Math.min(tile.width, target.width - tileX);
+    for (let y = ProgressiveSampling.firstRow(tileY, pattern); y < rows; y += pattern.step) {
+      const { start, stride } = ProgressiveSampling.columns(tileY + y, tileX, pattern);
+      const sourceRow = y * tile.width;
+      const targetRow = (tileY + y) * target.width + tileX;
+      for (let x = start; x < columns; x += stride) {
+        target.data[targetRow + x] = tile.data[sourceRow + x] ?? 0;
+      }
+    }
+  },
+
+  /**
+   * 各サンプルの値を step × step のブロックに広げた表示用のバッファを作成
+   * step が 1 の場合は元のバッファをそのまま返す
+   */
+  fillBlocks: (source: IterationBuffer, step: number): IterationBuffer => {
+    if (step <= 1) return source;
+
+    const { width, height } = source;
+    const data = new Float32Array(width * height);
+    for (let y = 0; y < height; y++) {
+      const sourceRow = (y - (y % step)) * width;
+      const row = y * width;
+      for (let x = 0; x < width; x++) {
+        data[row + x] = source.data[sourceRow + x - (x % step)] ?? 0;
+      }
+    }
+    return { width, height, data };
+  },
+} as const;
@@ -0,0 +1,90 @@
+/**
+ * レンダリングの中断
+ *
+ * AbortSignal で中断されたレンダリングは AbortError で終了する。
+ * CPU計算は同期ループのため、中断を受け付けるには途中でイベントループへ制御を返す必要がある。
+ */
+
+/**
+ * イベントループへ制御を返す（setTimeout と違い最小遅延がない）
+ */
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => {
+    const channel = new MessageChannel();
+    channel.port1.onmessage = () => {
+      channel.port1.close();
+      resolve();
+    };
+    channel.port2.postMessage(null);
+  });
+}
+
+export const RenderCancellation = {
+  /**
+   * 中断を表すエラーを生成
+   */
+  createAbortError: (message = 'Render aborted'): DOMException => {
+    return new DOMException(message, 'AbortError');
+  },
+
+  /**
+   * 中断によるエラーか
+   */
+  isAbortError: (error: unknown): boolean => {
+    return (error instanceof DOMException || error instanceof Error) && error.name === 'AbortError';
+  },
+
+  /**
+   * 中断されていれば AbortError を投げる
+   */
+  throwIfAborted: (signal: AbortSignal | undefined): void => {
+    if (signal?.aborted) {
+      throw signal.reason ?? RenderCancellation.createAbortError();
+    }
+  },
+
+  /**
+   * 同期的な計算ループの区切りで呼び出し、中断要求を受け付ける
+   * signal がない場合は制御を返さずそのまま続行する
+   */
+  checkpoint: async (signal: AbortSignal | undefined): Promise<void> => {
+    if (!signal) return;
+    await yieldToEventLoop();
+    RenderCancellation.throwIfAborted(signal);
+  },
+} as const;
+
+/**
+ * 最新のリクエストだけを有効にするスケジューラー
+ * 新しいリクエストを開始すると、前のリクエストのシグナルを中断する
+ */
+export class LatestRequestScheduler {
+  private controller: AbortController | null = null;
+
+  /**
+   * 新しいリクエストを開始し、そのリクエスト用のシグナルを返す
+   * parent が中断された場合も中断される
+   */
+  next(parent?: AbortSignal): AbortSignal {
+    this.controller?.abort(RenderCancellation.createAbortError('Render superseded'));
+
+    const controller = new AbortController();
+    this.controller = controller;
+
+    if (parent?.aborted) {
+      controller.abort(parent.reason);
+    } else {
+      parent?.addEventListener('abort', () => controller.abort(parent.reason), { once: true });
+    }
+
+    return controller.signal;
+  }
+
+  /**
+   * 実行中のリクエストを中断
+   */
+  cancel(): void {
+    this.controller?.abort(RenderCancellation.createAbortError());
+    this.controller = null;
+  }
+}
@@ -0,0 +1,210 @@
+import type { AllFractalParameters, FractalType, IterationBuffer } from '@/types/fractal';
+import { FixedPoint } from './arbitrary-precision';
+import { IterationBuffers } from './iteration-buffer';
+import { ParameterHash } from './parameter-hash';
+import { PreciseCoordinate } from './precise-coordinates';
+
+/**
+ * 前のフレームの再投影
+ *
+ * 表示位置（中心座標・ズーム倍率）だけが変わった場合、前のフレームの画素は新しいフレームへ
+ * 拡大縮小と平行移動だけで写る。計算が終わるまでのプレビューと、パン時の再計算の省略に使う。
+ * ピクセル間隔は 3 / (zoom * height) で縦横共通（レンダラーと同じ写像）。
+ */
+
+// 前のフレームの画素 (x, y) は新しいフレームの (scale * x + translateX, scale * y + translateY) に写る
+export interface ViewTransform {
+  scale: number;
+  translateX: number;
+  translateY: number;
+}
+
+// フレーム内の矩形領域（画素単位）
+export interface PixelRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// 平行移動量が整数画素とみなせる誤差（画素）
+const PAN_TOLERANCE = 1e-3;
+
+/**
+ * 中心座標の差 previous - next（複素平面上）
+ * 深いズームでは倍精度の差が丸めで消えるため、固定小数点で引き算する
+ */
+function centerDifference(
+  previous: AllFractalParameters,
+  next: AllFractalParameters
+): { real: number; imag: number } {
+  const bits = Math.max(
+    PreciseCoordinate.precisionBits(previous),
+    PreciseCoordinate.precisionBits(next)
+  );
+  const from = PreciseCoordinate.getCenter(previous, bits);
+  const to = PreciseCoordinate.getCenter(next, bits);
+  return {
+    real: FixedPoint.toNumber(from.x - to.x, bits),
+    imag: FixedPoint.toNumber(from.y - to.y, bits),
+  };
+}
+
+export const Reprojection = {
+  /**
+   * 表示位置だけが変わったか（前のフレームを再投影できるか）
+   */
+  isViewChange: (
+    previousType: FractalType,
+    previous: AllFractalParameters,
+    nextType: FractalType,
+    next: AllFractalParameters
+  ): boolean => {
+    return (
+      previousType === nextType &&
+      ParameterHash.canonicalizeContent(previousType, previous) ===
+        ParameterHash.canonicalizeContent(nextType, next)
+    );
+  },
+
+  /**
+   * 前のフレームから新しいフレームへの変換（同じキャンバスサイズが前提）
+   */
+  computeTransform: (
+    previous: AllFractalParameters,
+    next: AllFractalParameters,
+    width: number,
+    height: number
+  ): ViewTransform => {
+    const scale = next.zoom / previous.zoom;
+    const pixelSize = 3 / (next.zoom * height);
+    const difference = centerDifference(previous, next);
+    return {
+      scale,
+      translateX: (width / 2) * (1 - scale) + difference.real / pixelSize,
+      translateY: (height / 2) * (1 - scale) + difference.imag / pixelSize,
+    };
+  },
+
+  /**
+   * 等倍で整数画素だけ平行移動した変換なら、その移動量（重なりがない場合は null）
+   */
+  panOffset: (
+    transform: ViewTransform,
+    width: number,
+    height: number
+  ): { dx: number; dy: number } | null => {
+    if (transform.scale !== 1) return null;
+
+    const dx = Math.round(transform.translateX);
+    const dy = Math.round(transform.translateY);
+    if (
+      Math.abs(transform.translateX - dx) > PAN_TOLERANCE ||
+      Math.abs(transform.translateY - dy) > PAN_TOLERANCE ||
+      Math.abs(dx) >= width ||
+      Math.abs(dy) >= height
+    ) {
+      return null;
+    }
+    return { dx, dy };
+  },
+
+  /**
+   * 変換後の前のフレームが新しいフレーム全体を覆うか
+   */
+  coversFrame: (transform: ViewTransform, width: number, height: number): boolean => {
+    const { scale, translateX, translateY } = transform;
+    return (
+      translateX <= 0 &&
+      translateY <= 0 &&
+      translateX + scale * width >= width &&
+      translateY + scale * height >= height
+    );
+  },
+
+  /**
+   * 前のフレームを変換してキャンバスに描画（覆わない部分は黒）
+   */
+  draw: (
+    context: CanvasRenderingContext2D,
+    source: CanvasImageSource,
+    transform: ViewTransform,
+    width: number,
+    height: number
+  ): void => {
+    context.save();
+    context.fillStyle = '#000';
+    context.fillRect(0, 0, width, height);
+    context.imageSmoothingEnabled = transform.scale < 1;
+    context.setTransform(
+      transform.scale,
+      0,
+      0,
+      transform.scale,
+      transform.translateX,
+      transform.translateY
+    );
+    context.drawImage(source, 0, 0, width, height);
+    context.restore();
+  },
+
+  /**
+   * (dx, dy) だけ平行移動した反復回数バッファ（新しく見える部分は 0）
+   */
+  shift: (previous: IterationBuffer, dx: number, dy: number): IterationBuffer => {
+    const { width, height } = previous;
+    const shifted = IterationBuffers.create(width, height);
+    const columns = width - Math.abs(dx);
+    const sourceX = Math.max(0, -dx);
+    const targetX = Math.max(0, dx);
+
+    for (let y = Math.max(0, dy); y < Math.min(height, height + dy); y++) {
+      const sourceStart = (y - dy) * width + sourceX;
+      shifted.data.set(
+        previous.data.subarray(sourceStart, sourceStart + columns),
+        y * width + targetX
+      );
+    }
+    return shifted;
+  },
+
+  /**
+   * (dx, dy) だけ平行移動したときに新しく見える領域（重ならない最大2つの矩形）
+   */
+  exposedRegions: (dx: number, dy: number, width: number, height: number): PixelRegion[] => {
+    const regions: PixelRegion[] = [];
+    // 左右の帯は高さ全体
+    if (dx !== 0) {
+      regions.push({ x: dx > 0 ? 0 : width + dx, y: 0, width: Math.abs(dx), height });
+    }
+    // 上下の帯は左右の帯を除いた幅
+    if (dy !== 0) {
+      regions.push({
+        x: Math.max(0, dx),
+        y: dy > 0 ? 0 : height + dy,
+        width: width - Math.abs(dx),
+        height: Math.abs(dy),
+      });
+    }
+    return regions;
+  },
+
+  /**
+   * フレーム内の領域だけを1枚のフレームとして描画するためのパラメータ
+   * 中心を領域の中心へ移し、ピクセル間隔が変わらないようズーム倍率を高さの比で補正する
+   */
+  regionParameters: <T extends AllFractalParameters>(
+    parameters: T,
+    region: PixelRegion,
+    width: number,
+    height: number
+  ): T => {
+    const pixelSize = 3 / (parameters.zoom * height);
+    const centered = PreciseCoordinate.offsetCenter(
+      parameters,
+      (region.x + region.width / 2 - width / 2) * pixelSize,
+      (region.y + region.height / 2 - height / 2) * pixelSize
+    );
+    return PreciseCoordinate.withZoom(centered, (parameters.zoom * height) / region.height);
+  },
+} as const;
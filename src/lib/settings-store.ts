@@ -0,0 +1,145 @@
+import type { FractalConfig, PersistedRenderSettings } from '@/types/fractal';
+import { CanvasSize } from './canvas-size';
+import { getDefaultParameters } from './fractal-utils';
+import { Supersampling } from './supersampling';
+import { ViewState } from './view-state';
+
+/**
+ * localStorage による表示状態と設定の保存
+ *
+ * 起動時に同期的に読み込めるよう localStorage を使う。保存した値には形式のバージョンを付け、
+ * 古い形式は MIGRATIONS で順に変換してから検証する。新しすぎる形式や壊れた値は読み捨てて既定値で起動する。
+ */
+
+const STORAGE_KEY = 'fractal-explorer:settings';
+
+// 保存形式のバージョン（形式を変えたら上げて、MIGRATIONS に変換を追加する）
+const SETTINGS_VERSION = 1;
+
+// MIGRATIONS[n] はバージョン n + 1 の値をバージョン n + 2 に変換する
+const MIGRATIONS: Array<(value: Record<string, unknown>) => Record<string, unknown>> = [];
+
+// 既定のキャンバスサイズ（デスクトップ）
+const DEFAULT_CANVAS_SIZE = { width: 800, height: 600 };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toRenderSettings(value: unknown): PersistedRenderSettings {
+  const defaults = SettingsStore.defaults().renderSettings;
+  if (!isRecord(value)) return defaults;
+  const { width, height, useWebGPU, useMultiThread, workerCount, autoIterations } = value;
+  // キャンバスサイズはデスクトップのプリセットのいずれかに限る
+  const size =
+    typeof width === 'number' &&
+    typeof height === 'number' &&
+    CanvasSize.isDesktopPreset({ width, height })
+      ? { width, height }
+      : { width: defaults.width, height: defaults.height };
+  return {
+    ...size,
+    useWebGPU: typeof useWebGPU === 'boolean' ? useWebGPU : defaults.useWebGPU,
+    useMultiThread: typeof useMultiThread === 'boolean' ? useMultiThread : defaults.useMultiThread,
+    workerCount:
+      typeof workerCount === 'number' && Number.isInteger(workerCount) && workerCount >= 0
+        ? workerCount
+        : defaults.workerCount,
+    antiAliasing: Supersampling.normalize(value.antiAliasing),
+    autoIterations: typeof autoIterations === 'boolean' ? autoIterations : defaults.autoIterations,
+  };
+}
+
+export const SettingsStore = {
+  /**
+   * 既定の設定
+   */
+  defaults: (): FractalConfig => {
+    return {
+      fractalType: 'mandelbrot',
+      parameters: getDefaultParameters('mandelbrot'),
+      paletteType: 'rainbow',
+      // 従来どおり整数の反復回数で着色する（スムーズカラーリングは選んだ場合のみ）
+      smooth: false,
+      renderSettings: {
+        ...DEFAULT_CANVAS_SIZE,
+        useWebGPU: true,
+        useMultiThread: true,
+        workerCount: 0,
+        antiAliasing: Supersampling.defaults(),
+        autoIterations: false,
+      },
+    };
+  },
+
+  /**
+   * 古い形式の値を現在の形式に変換（バージョンが不明または新しすぎる場合は null）
+   */
+  migrate: (value: unknown): Record<string, unknown> | null => {
+    if (!isRecord(value) || typeof value.version !== 'number') return null;
+    let { version } = value;
+    if (!Number.isInteger(version) || version < 1 || version > SETTINGS_VERSION) return null;
+
+    let migrated = value;
+    while (version < SETTINGS_VERSION) {
+      const migration = MIGRATIONS[version - 1];
+      if (!migration) return null;
+      migrated = migration(migrated);
+      version++;
+    }
+    return migrated;
+  },
+
+  /**
+   * 保存された設定を読み込む（保存されていない場合や読めない場合は null）
+   */
+  load: (): FractalConfig | null => {
+    if (typeof localStorage === 'undefined') return null;
+    try {
+      const text = localStorage.getItem(STORAGE_KEY);
+      if (!text) return null;
+      const value = SettingsStore.migrate(JSON.parse(text));
+      const view = value && ViewState.normalize(value);
+      if (!value || !view) return null;
+      return { ...view, renderSettings: toRenderSettings(value.renderSettings) };
+    } catch (err) {
+      console.error('設定読み込みエラー:', err);
+      return null;
+    }
+  },
+
+  /**
+   * 設定の一部を更新して保存（renderSettings は項目ごとに上書き）
+   */
+  update: (
+    patch: Partial<Omit<FractalConfig, 'renderSettings'>> & {
+      renderSettings?: Partial<PersistedRenderSettings>;
+    }
+  ): void => {
+    if (typeof localStorage === 'undefined') return;
+    const current = SettingsStore.load() ?? SettingsStore.defaults();
+    const config: FractalConfig = {
+      ...current,
+      ...patch,
+      renderSettings: { ...current.renderSettings, ...patch.renderSettings },
+    };
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: SETTINGS_VERSION, ...config }));
+    } catch (err) {
+      // 容量超過やストレージが無効な場合は保存しない
+      console.error('設定保存エラー:', err);
+    }
+  },
+
+  /**
+   * 保存された設定を削除
+   */
+  clear: (): void => {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      localStorage.removeItem(STORAGE_KEY);
+    } catch (err) {
+      console.error('設定削除エラー:', err);
+    }
+  },
+} as const;
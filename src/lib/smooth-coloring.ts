@@ -0,0 +1,59 @@
+/**
+ * スムーズカラーリング（正規化反復回数）
+ *
+ * 脱出時の |z| から反復回数の小数部を求め、整数の反復回数による色の縞を解消する。
+ * ν = n + 1 - log2(log|z|)
+ * ニュートン法は root * 100 + iterations の符号化を使うため整数のまま扱う。
+ */
+
+// 集合内を表す maxIterations と区別するための上限の余白
+// 反復回数バッファは f32 のため、大きな maxIterations でも丸めで maxIterations に戻らない幅を取る
+const INTERIOR_MARGIN = 0.5;
+
+export const SmoothColoring = {
+  /**
+   * 正規化反復回数を計算
+   * magnitudeSquared は脱出時の |z|²。集合内の点はそのまま maxIterations を返す
+   */
+  iterationCount: (iteration: number, magnitudeSquared: number, maxIterations: number): number => {
+    if (iteration >= maxIterations) return maxIterations;
+
+    const logModulus = Math.log(magnitudeSquared) / 2;
+    if (!(logModulus > 0)) return iteration;
+
+    const value = iteration + 1 - Math.log2(logModulus);
+    return Math.min(Math.max(value, 0), maxIterations - INTERIOR_MARGIN);
+  },
+
+  /**
+   * パレット上の連続位置から色を取得してRGBA配列に書き込む
+   * smooth が有効な場合は隣接する2色を線形補間する（補間は lastIndex を超えない）
+   */
+  writeColor: (
+    data: Uint8ClampedArray,
+    pixelIndex: number,
+    palette: number[][],
+    position: number,
+    smooth: boolean,
+    lastIndex: number = palette.length - 1
+  ): void => {
+    const clamped = Math.max(0, Math.min(position, lastIndex));
+    const index = Math.floor(clamped);
+    const color = palette[index] || [0, 0, 0, 255];
+
+    if (!smooth || index >= lastIndex) {
+      data[pixelIndex] = color[0] || 0;
+      data[pixelIndex + 1] = color[1] || 0;
+      data[pixelIndex + 2] = color[2] || 0;
+      data[pixelIndex + 3] = color[3] || 255;
+      return;
+    }
+
+    const next = palette[index + 1] || color;
+    const t = clamped - index;
+    data[pixelIndex] = (color[0] || 0) * (1 - t) + (next[0] || 0) * t;
+    data[pixelIndex + 1] = (color[1] || 0) * (1 - t) + (next[1] || 0) * t;
+    data[pixelIndex + 2] = (color[2] || 0) * (1 - t) + (next[2] || 0) * t;
+    data[pixelIndex + 3] = (color[3] || 255) * (1 - t) + (next[3] || 255) * t;
+  },
+} as const;
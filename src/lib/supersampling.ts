@@ -0,0 +1,266 @@
+import type {
+  AntiAliasingSettings,
+  DownsamplingFilter,
+  SupersamplingPattern,
+} from '@/types/fractal';
+
+/**
+ * スーパーサンプリングによるアンチエイリアス
+ *
+ * 1画素内の位置をずらしたサンプルごとにフレームを描画し、フィルタで重み付けして1枚に縮小する。
+ * フレーム単位でずらすため、CPU・Worker・WebGPUのどのレンダラーでもそのまま使える。
+ * サンプル位置は画素の中心からの差（画素単位、-0.5〜0.5）で表す。
+ */
+
+// 画素内のサンプル位置
+export interface SampleOffset {
+  x: number;
+  y: number;
+}
+
+// フィルタが参照する近傍の画素数（片側）
+const FILTER_RADIUS: Record<DownsamplingFilter, number> = {
+  box: 0,
+  gaussian: 1,
+  lanczos: 2,
+};
+
+// ガウシアンフィルタの標準偏差（画素）
+const GAUSSIAN_SIGMA = 0.5;
+
+// ランダムなサンプル配置の乱数の種（同じ設定なら同じ画像になるよう固定）
+const STRATIFIED_SEED = 0x9e3779b9;
+
+// 適応型で隣接画素と異なるとみなす色の差（各チャンネル 0〜255）の既定値
+const DEFAULT_EDGE_THRESHOLD = 24;
+
+// 1画素あたりのサンプル数の範囲（一辺）
+const MAX_FACTOR = 4;
+
+const DEFAULT_SETTINGS: AntiAliasingSettings = {
+  factor: 2,
+  pattern: 'grid',
+  filter: 'box',
+  adaptive: false,
+};
+
+const PATTERNS: readonly SupersamplingPattern[] = ['grid', 'stratified'];
+const FILTERS: readonly DownsamplingFilter[] = ['box', 'gaussian', 'lanczos'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 32ビットの疑似乱数（mulberry32）
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sinc(x: number): number {
+  if (x === 0) return 1;
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+}
+
+export const Supersampling = {
+  /**
+   * 選択できるサンプル数（一辺）
+   */
+  factors: (): number[] => Array.from({ length: MAX_FACTOR }, (_, index) => index + 1),
+
+  /**
+   * 既定の設定
+   */
+  defaults: (): AntiAliasingSettings => ({ ...DEFAULT_SETTINGS }),
+
+  /**
+   * 保存された値を設定として検証（不正な項目は既定値にする）
+   */
+  normalize: (value: unknown): AntiAliasingSettings => {
+    if (!isRecord(value)) return Supersampling.defaults();
+    const { factor, pattern, filter, adaptive } = value;
+    return {
+      factor:
+        typeof factor === 'number' && Supersampling.factors().includes(factor)
+          ? factor
+          : DEFAULT_SETTINGS.factor,
+      pattern: PATTERNS.find((entry) => entry === pattern) ?? DEFAULT_SETTINGS.pattern,
+      filter: FILTERS.find((entry) => entry === filter) ?? DEFAULT_SETTINGS.filter,
+      adaptive: typeof adaptive === 'boolean' ? adaptive : DEFAULT_SETTINGS.adaptive,
+    };
+  },
+
+  /**
+   * 有効なサンプル数（一辺、1で無効）
+   */
+  factor: (settings: AntiAliasingSettings | undefined): number => {
+    if (!settings) return 1;
+    return Math.min(MAX_FACTOR, Math.max(1, Math.round(settings.factor)));
+  },
+
+  /**
+   * 画像を分割して描画する場合に、境目の画素が隣のタイルを参照するための余白（画素）
+   * 適応型は隣接画素との色の差を見るため1画素必要
+   */
+  margin: (settings: AntiAliasingSettings | undefined): number => {
+    if (!settings || Supersampling.factor(settings) <= 1) return 0;
+    return Math.max(FILTER_RADIUS[settings.filter], settings.adaptive ? 1 : 0);
+  },
+
+  /**
+   * 画素内のサンプル位置（factor×factor 個）
+   * grid は各区画の中心、stratified は各区画の中のランダムな位置
+   */
+  offsets: (settings: AntiAliasingSettings): SampleOffset[] => {
+    const factor = Supersampling.factor(settings);
+    const random = createRandom(STRATIFIED_SEED);
+    const offsets: SampleOffset[] = [];
+    for (let j = 0; j < factor; j++) {
+      for (let i = 0; i < factor; i++) {
+        const jitterX = settings.pattern === 'stratified' ? random() : 0.5;
+        const jitterY = settings.pattern === 'stratified' ? random() : 0.5;
+        offsets.push({ x: (i + jitterX) / factor - 0.5, y: (j + jitterY) / factor - 0.5 });
+      }
+    }
+    return offsets;
+  },
+
+  /**
+   * 1次元のフィルタの重み（distance は画素の中心からの距離）
+   */
+  kernel: (filter: DownsamplingFilter, distance: number): number => {
+    const d = Math.abs(distance);
+    switch (filter) {
+      case 'box':
+        return d <= 0.5 ? 1 : 0;
+      case 'gaussian':
+        return d <= 1.5 ? Math.exp(-(d * d) / (2 * GAUSSIAN_SIGMA * GAUSSIAN_SIGMA)) : 0;
+      case 'lanczos':
+        return d < 2 ? sinc(d) * sinc(d / 2) : 0;
+    }
+  },
+
+  /**
+   * 隣接画素（上下左右）と色の差が大きい画素（適応型でスーパーサンプリングする画素）
+   */
+  edgeMask: (image: ImageData, threshold = DEFAULT_EDGE_THRESHOLD): Uint8Array => {
+    const { width, height, data } = image;
+    const mask = new Uint8Array(width * height);
+
+    const differs = (a: number, b: number): boolean => {
+      for (let channel = 0; channel < 3; channel++) {
+        const difference = (data[a * 4 + channel] ?? 0) - (data[b * 4 + channel] ?? 0);
+        if (Math.abs(difference) > threshold) return true;
+      }
+      return false;
+    };
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const index = y * width + x;
+        if (x + 1 < width && differs(index, index + 1)) {
+          mask[index] = 1;
+          mask[index + 1] = 1;
+        }
+        if (y + 1 < height && differs(index, index + width)) {
+          mask[index] = 1;
+          mask[index + width] = 1;
+        }
+      }
+    }
+    return mask;
+  },
+} as const;
+
+/**
+ * サンプル位置をずらしたフレームを重み付きで足し合わせる
+ * フィルタは縦横に分離できるため、横方向・縦方向の順に畳み込む（画面端は端の画素を延長）
+ */
+export class SampleAccumulator {
+  private readonly sums: Float32Array;
+  private readonly row: Float32Array;
+  private totalWeight = 0;
+
+  constructor(
+    private readonly width: number,
+    private readonly height: number,
+    private readonly filter: DownsamplingFilter
+  ) {
+    this.sums = new Float32Array(width * height * 4);
+    this.row = new Float32Array(width * height * 4);
+  }
+
+  /**
+   * サンプル位置 offset で描画したフレームを加える
+   */
+  add(image: ImageData, offset: SampleOffset): void {
+    const width = this.width;
+    const height = this.height;
+    const filter = this.filter;
+    const row = this.row;
+    const sums = this.sums;
+    const radius = FILTER_RADIUS[filter];
+    const { data } = image;
+
+    // 出力画素 x に対する、隣の画素 x + d のサンプルの重み
+    const weightsX: number[] = [];
+    const weightsY: number[] = [];
+    for (let d = -radius; d <= radius; d++) {
+      weightsX.push(Supersampling.kernel(filter, d + offset.x));
+      weightsY.push(Supersampling.kernel(filter, d + offset.y));
+    }
+
+    row.fill(0);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const target = (y * width + x) * 4;
+        for (let d = -radius; d <= radius; d++) {
+          const weight = weightsX[d + radius] ?? 0;
+          if (weight === 0) continue;
+          const source = (y * width + Math.min(width - 1, Math.max(0, x + d))) * 4;
+          for (let channel = 0; channel < 4; channel++) {
+            row[target + channel] =
+              (row[target + channel] ?? 0) + weight * (data[source + channel] ?? 0);
+          }
+        }
+      }
+    }
+
+    for (let y = 0; y < height; y++) {
+      for (let d = -radius; d <= radius; d++) {
+        const weight = weightsY[d + radius] ?? 0;
+        if (weight === 0) continue;
+        const sourceRow = Math.min(height - 1, Math.max(0, y + d)) * width * 4;
+        const targetRow = y * width * 4;
+        for (let i = 0; i < width * 4; i++) {
+          sums[targetRow + i] = (sums[targetRow + i] ?? 0) + weight * (row[sourceRow + i] ?? 0);
+        }
+      }
+    }
+
+    const sumX = weightsX.reduce((sum, weight) => sum + weight, 0);
+    const sumY = weightsY.reduce((sum, weight) => sum + weight, 0);
+    this.totalWeight += sumX * sumY;
+  }
+
+  /**
+   * 重みで正規化した画像（ランチョスの負の重みによる範囲外の値は切り詰める）
+   */
+  resolve(): ImageData {
+    const image = new ImageData(this.width, this.height);
+    const scale = this.totalWeight > 0 ? 1 / this.totalWeight : 0;
+    for (let i = 0; i < this.sums.length; i++) {
+      image.data[i] = Math.round((this.sums[i] ?? 0) * scale);
+    }
+    return image;
+  }
+}
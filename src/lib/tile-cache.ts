@@ -0,0 +1,218 @@
+import type { AllFractalParameters, FractalType, IterationBuffer } from '@/types/fractal';
+import { ParameterHash } from './parameter-hash';
+import { PreciseCoordinate } from './precise-coordinates';
+
+/**
+ * 複素平面のタイルによる反復回数キャッシュ
+ *
+ * 地図タイルと同じく、レベル L のタイルは一辺 2^(2 - L) の正方形で複素平面を区切り、
+ * 各タイルを TILE_SIZE × TILE_SIZE 画素で計算する。タイルの位置は表示位置に依存しないため、
+ * 同じ場所へ戻ったりパンしたりしても計算済みのタイルをそのまま使える。
+ * 画面はピクセル間隔以下のサンプル間隔を持つレベルを選び、最も近いサンプルを拾って組み立てる。
+ */
+
+// タイル1枚の一辺の画素数
+const TILE_SIZE = 128;
+
+// 既定のメモリ上限（バイト）
+const DEFAULT_BUDGET_BYTES = 64 * 1024 * 1024;
+
+// 画面の組み立てに必要なタイルの範囲とサンプルの対応
+export interface TileLayout {
+  level: number;
+  // タイル一辺の複素平面上の長さ
+  tileSpan: number;
+  // 必要なタイルの添字の範囲（両端を含む）
+  minTileX: number;
+  maxTileX: number;
+  minTileY: number;
+  maxTileY: number;
+  // 画面の各列・各行に対応する全体のサンプル番号
+  columns: Int32Array;
+  rows: Int32Array;
+}
+
+export const TileGrid = {
+  // タイル1枚の一辺の画素数
+  tileSize: TILE_SIZE,
+
+  /**
+   * ピクセル間隔以下のサンプル間隔を持つ最も粗いレベル
+   */
+  levelForPixelSize: (pixelSize: number): number => {
+    // サンプル間隔は 2^(2 - L) / TILE_SIZE
+    return Math.ceil(2 - Math.log2(TILE_SIZE) - Math.log2(pixelSize));
+  },
+
+  /**
+   * 画面を組み立てるのに必要なタイルの範囲を計算
+   */
+  layout: (parameters: AllFractalParameters, width: number, height: number): TileLayout => {
+    const pixelSize = 3 / (parameters.zoom * height);
+    const level = TileGrid.levelForPixelSize(pixelSize);
+    const tileSpan = 2 ** (2 - level);
+    const sampleSpacing = tileSpan / TILE_SIZE;
+
+    // 各画素の中心に最も近いサンプルの番号
+    const columns = new Int32Array(width);
+    for (let x = 0; x < width; x++) {
+      const real = parameters.centerX + (x - width / 2) * pixelSize;
+      columns[x] = Math.round(real / sampleSpacing);
+    }
+    const rows = new Int32Array(height);
+    for (let y = 0; y < height; y++) {
+      const imag = parameters.centerY + (y - height / 2) * pixelSize;
+      rows[y] = Math.round(imag / sampleSpacing);
+    }
+
+    return {
+      level,
+      tileSpan,
+      minTileX: Math.floor((columns[0] ?? 0) / TILE_SIZE),
+      maxTileX: Math.floor((columns[width - 1] ?? 0) / TILE_SIZE),
+      minTileY: Math.floor((rows[0] ?? 0) / TILE_SIZE),
+      maxTileY: Math.floor((rows[height - 1] ?? 0) / TILE_SIZE),
+      columns,
+      rows,
+    };
+  },
+
+  /**
+   * タイルのキャッシュキー（フラクタル・表示位置以外のパラメータ・レベル・タイル座標）
+   */
+  key: (
+    fractalType: FractalType,
+    parameters: AllFractalParameters,
+    smooth: boolean,
+    level: number,
+    tileX: number,
+    tileY: number
+  ): string => {
+    const content = ParameterHash.forContent(fractalType, parameters);
+    return `${fractalType}:${content}:${smooth ? 's' : 'i'}:${level}:${tileX}:${tileY}`;
+  },
+
+  /**
+   * タイルを1枚のフレームとして計算するためのパラメータ
+   * フレームの左上の画素がタイルの左上の角に来るよう、中心とズーム倍率を合わせる
+   */
+  tileParameters: <T extends AllFractalParameters>(
+    parameters: T,
+    layout: TileLayout,
+    tileX: number,
+    tileY: number
+  ): T => {
+    const { tileSpan } = layout;
+    const zoom = 3 / tileSpan;
+    return PreciseCoordinate.withPrecise(parameters, {
+      centerX: PreciseCoordinate.fromNumber((tileX + 0.5) * tileSpan),
+      centerY: PreciseCoordinate.fromNumber((tileY + 0.5) * tileSpan),
+      zoom: String(zoom),
+    });
+  },
+
+  /**
+   * タイルから画面の反復回数バッファを組み立てる
+   * getTile はタイル座標に対応するバッファを返す（ない場合は 0 で埋める）
+   */
+  assemble: (
+    layout: TileLayout,
+    width: number,
+    height: number,
+    getTile: (tileX: number, tileY: number) => IterationBuffer | undefined
+  ): IterationBuffer => {
+    const data = new Float32Array(width * height);
+    const tileColumns = new Int32Array(width);
+    const localColumns = new Int32Array(width);
+    for (let x = 0; x < width; x++) {
+      const column = layout.columns[x] ?? 0;
+      tileColumns[x] = Math.floor(column / TILE_SIZE);
+      localColumns[x] = column - (tileColumns[x] ?? 0) * TILE_SIZE;
+    }
+
+    for (let y = 0; y < height; y++) {
+      const row = layout.rows[y] ?? 0;
+      const tileY = Math.floor(row / TILE_SIZE);
+      const localRow = (row - tileY * TILE_SIZE) * TILE_SIZE;
+
+      let currentTileX = Number.NaN;
+      let tile: IterationBuffer | undefined;
+      for (let x = 0; x < width; x++) {
+        const tileX = tileColumns[x] ?? 0;
+        if (tileX !== currentTileX) {
+          currentTileX = tileX;
+          tile = getTile(tileX, tileY);
+        }
+        data[y * width + x] = tile?.data[localRow + (localColumns[x] ?? 0)] ?? 0;
+      }
+    }
+
+    return { width, height, data };
+  },
+} as const;
+
+/**
+ * メモリ上限付きのLRUタイルキャッシュ
+ * Map の挿入順を利用し、参照したタイルを末尾へ移して先頭から追い出す
+ */
+export class TileCache {
+  private tiles = new Map<string, IterationBuffer>();
+  private bytes = 0;
+
+  constructor(private budgetBytes: number = DEFAULT_BUDGET_BYTES) {}
+
+  /**
+   * タイルを取得（最近使ったものとして記録）
+   */
+  get(key: string): IterationBuffer | undefined {
+    const tile = this.tiles.get(key);
+    if (tile) {
+      this.tiles.delete(key);
+      this.tiles.set(key, tile);
+    }
+    return tile;
+  }
+
+  /**
+   * タイルを追加し、上限を超えた分を古い順に破棄
+   */
+  set(key: string, tile: IterationBuffer): void {
+    const existing = this.tiles.get(key);
+    if (existing) {
+      this.tiles.delete(key);
+      this.bytes -= existing.data.byteLength;
+    }
+    this.tiles.set(key, tile);
+    this.bytes += tile.data.byteLength;
+    this.evict();
+  }
+
+  /**
+   * メモリ上限を変更
+   */
+  setBudget(budgetBytes: number): void {
+    this.budgetBytes = Math.max(0, budgetBytes);
+    this.evict();
+  }
+
+  clear(): void {
+    this.tiles.clear();
+    this.bytes = 0;
+  }
+
+  get size(): number {
+    return this.tiles.size;
+  }
+
+  get usedBytes(): number {
+    return this.bytes;
+  }
+
+  private evict(): void {
+    for (const [key, tile] of this.tiles) {
+      if (this.bytes <= this.budgetBytes) break;
+      this.tiles.delete(key);
+      this.bytes -= tile.data.byteLength;
+    }
+  }
+}
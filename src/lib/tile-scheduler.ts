@@ -0,0 +1,85 @@
+/**
+ * Workerへ配るタイルの動的スケジューリング
+ *
+ * タイルは画面中心に近い順に1本のキューへ積み、手の空いたWorkerが次のタイルを取りに行く。
+ * 集合内部の重いタイルが特定のWorkerに集まっても、残りのタイルは他のWorkerが引き受ける。
+ * 各タイルの計算時間は画素あたりの時間として蓄積し、次のレンダリングのタイルサイズを決める。
+ */
+
+// 画面内のタイル（画素単位）
+export interface TileRequest {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// タイルサイズの範囲と刻み（画素）
+const MIN_TILE_SIZE = 32;
+const MAX_TILE_SIZE = 256;
+const TILE_SIZE_STEP = 16;
+
+// 1タイルの目標計算時間（ms）。短すぎるとメッセージ往復のオーバーヘッドが目立つ
+const TARGET_TILE_TIME = 12;
+
+// Workerあたりの最低タイル数（少ないと重いタイルの偏りを吸収できない）
+const MIN_TILES_PER_WORKER = 4;
+
+// 計測値の指数移動平均の重み
+const SMOOTHING = 0.3;
+
+export const TileScheduler = {
+  /**
+   * 画面を tileSize ごとに分割し、中心に近いタイルから順に並べる
+   */
+  centerOut: (width: number, height: number, tileSize: number): TileRequest[] => {
+    const tiles: TileRequest[] = [];
+    for (let y = 0; y < height; y += tileSize) {
+      for (let x = 0; x < width; x += tileSize) {
+        tiles.push({
+          x,
+          y,
+          width: Math.min(tileSize, width - x),
+          height: Math.min(tileSize, height - y),
+        });
+      }
+    }
+
+    const distance = (tile: TileRequest): number =>
+      (tile.x + tile.width / 2 - width / 2) ** 2 + (tile.y + tile.height / 2 - height / 2) ** 2;
+    return tiles.sort((a, b) => distance(a) - distance(b));
+  },
+} as const;
+
+/**
+ * タイルの計算時間からタイルサイズを決める
+ */
+export class TileSizeTuner {
+  // 1画素あたりの計算時間（ms、未計測の場合は null）
+  private msPerPixel: number | null = null;
+
+  /**
+   * 計算した画素数と所要時間を記録
+   */
+  record(pixels: number, elapsed: number): void {
+    if (pixels <= 0) return;
+    const sample = elapsed / pixels;
+    this.msPerPixel =
+      this.msPerPixel === null ? sample : this.msPerPixel + SMOOTHING * (sample - this.msPerPixel);
+  }
+
+  /**
+   * 1タイルが目標時間で終わるサイズ（各Workerに最低限のタイル数が行き渡る大きさまで）
+   */
+  tileSize(width: number, height: number, workerCount: number): number {
+    const balanced = Math.sqrt(
+      (width * height) / (Math.max(1, workerCount) * MIN_TILES_PER_WORKER)
+    );
+    const timed =
+      this.msPerPixel && this.msPerPixel > 0
+        ? Math.sqrt(TARGET_TILE_TIME / this.msPerPixel)
+        : balanced;
+    const size = Math.round(Math.min(balanced, timed) / TILE_SIZE_STEP) * TILE_SIZE_STEP;
+    return Math.min(MAX_TILE_SIZE, Math.max(MIN_TILE_SIZE, size));
+  }
+}
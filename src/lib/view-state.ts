@@ -0,0 +1,121 @@
+import type {
+  AllFractalParameters,
+  Complex,
+  FractalType,
+  FractalViewState,
+  PreciseCoordinates,
+} from '@/types/fractal';
+import { ColorPalette, getDefaultParameters } from './fractal-utils';
+import { PreciseCoordinate } from './precise-coordinates';
+
+/**
+ * 保存された表示状態の検証
+ *
+ * 画像のメタデータや共有URLなど外部から読み込んだ値は信用できないため、
+ * 既知のフィールドだけを型を確かめて取り出し、足りない値は既定のパラメータで補う。
+ */
+
+const FRACTAL_TYPES: readonly FractalType[] = ['mandelbrot', 'julia', 'burning-ship', 'newton'];
+
+// 反復回数の範囲（手動入力と同じ）
+const MIN_ITERATIONS = 10;
+const MAX_ITERATIONS = 100000;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function finiteNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+function toComplex(value: unknown): Complex | null {
+  if (!isRecord(value)) return null;
+  const real = finiteNumber(value.real);
+  const imag = finiteNumber(value.imag);
+  return real !== null && imag !== null ? { real, imag } : null;
+}
+
+function toComplexArray(value: unknown): Complex[] | null {
+  if (!Array.isArray(value) || value.length === 0) return null;
+  const values = value.map(toComplex);
+  return values.every((entry) => entry !== null) ? (values as Complex[]) : null;
+}
+
+function toPrecise(value: unknown): PreciseCoordinates | null {
+  if (!isRecord(value)) return null;
+  const { centerX, centerY, zoom } = value;
+  if (typeof centerX !== 'string' || typeof centerY !== 'string' || typeof zoom !== 'string') {
+    return null;
+  }
+  return PreciseCoordinate.isValid(centerX) &&
+    PreciseCoordinate.isValid(centerY) &&
+    PreciseCoordinate.isValid(zoom)
+    ? { centerX, centerY, zoom }
+    : null;
+}
+
+export const ViewState = {
+  /**
+   * フラクタルタイプとして有効な文字列か
+   */
+  isFractalType: (value: unknown): value is FractalType => {
+    return typeof value === 'string' && (FRACTAL_TYPES as readonly string[]).includes(value);
+  },
+
+  /**
+   * 外部から読み込んだパラメータを検証し、既定のパラメータで補う
+   */
+  normalizeParameters: (fractalType: FractalType, value: unknown): AllFractalParameters => {
+    const defaults = getDefaultParameters(fractalType);
+    if (!isRecord(value)) return defaults;
+
+    const zoom = finiteNumber(value.zoom);
+    const iterations = finiteNumber(value.iterations);
+    const escapeRadius = finiteNumber(value.escapeRadius);
+    const parameters = {
+      ...defaults,
+      centerX: finiteNumber(value.centerX) ?? defaults.centerX,
+      centerY: finiteNumber(value.centerY) ?? defaults.centerY,
+      zoom: zoom !== null && zoom > 0 ? zoom : defaults.zoom,
+      iterations:
+        iterations !== null
+          ? Math.min(MAX_ITERATIONS, Math.max(MIN_ITERATIONS, Math.round(iterations)))
+          : defaults.iterations,
+      escapeRadius:
+        escapeRadius !== null && escapeRadius > 0 ? escapeRadius : defaults.escapeRadius,
+    } as AllFractalParameters;
+
+    const precise = toPrecise(value.precise);
+    if (precise) {
+      parameters.precise = precise;
+    }
+
+    if (parameters.type === 'julia') {
+      parameters.c = toComplex(value.c) ?? parameters.c;
+    } else if (parameters.type === 'newton') {
+      const tolerance = finiteNumber(value.tolerance);
+      parameters.roots = toComplexArray(value.roots) ?? parameters.roots;
+      parameters.tolerance = tolerance !== null && tolerance > 0 ? tolerance : parameters.tolerance;
+    }
+    return parameters;
+  },
+
+  /**
+   * 外部から読み込んだ表示状態を検証（フラクタルタイプが不明な場合は null）
+   */
+  normalize: (value: unknown): FractalViewState | null => {
+    if (!isRecord(value) || !ViewState.isFractalType(value.fractalType)) return null;
+    const { fractalType } = value;
+    return {
+      fractalType,
+      parameters: ViewState.normalizeParameters(fractalType, value.parameters),
+      paletteType:
+        typeof value.paletteType === 'string' &&
+        ColorPalette.getPaletteNames().includes(value.paletteType)
+          ? value.paletteType
+          : 'rainbow',
+      smooth: typeof value.smooth === 'boolean' ? value.smooth : false,
+    };
+  },
+} as const;
@@ -0,0 +1,112 @@
+import type { Complex, FractalViewState } from '@/types/fractal';
+import { PreciseCoordinate } from './precise-coordinates';
+import { ViewState } from './view-state';
+
+/**
+ * 表示状態を共有するためのURLハッシュ
+ *
+ * `#v=1&t=julia&x=…&y=…&z=…&i=300&r=2&c=-0.7,0.27&p=rainbow&s=1` のような短いキーの形式にする。
+ * 中心座標とズームは高精度の10進数文字列のまま書くので、深いズームの位置もそのまま共有できる。
+ * 読み込んだ値は ViewState で検証し、足りない値は既定のパラメータで補う。
+ */
+
+// ハッシュの形式のバージョン（互換性のない変更をしたら上げる）
+const VIEW_URL_VERSION = 1;
+
+/**
+ * 複素数の列を `re,im;re,im` の形式に
+ */
+function formatComplexList(values: Complex[]): string {
+  return values.map(({ real, imag }) => `${real},${imag}`).join(';');
+}
+
+/**
+ * `re,im;re,im` の形式を複素数の列に（数値でない値は NaN のまま返し、検証は ViewState に任せる）
+ */
+function parseComplexList(value: string | undefined): Complex[] | undefined {
+  if (!value) return undefined;
+  return value.split(';').map((entry) => {
+    const [real = '', imag = ''] = entry.split(',');
+    return { real: Number(real), imag: Number(imag) };
+  });
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  return value === undefined || value === '' ? undefined : Number(value);
+}
+
+export const ViewUrl = {
+  /**
+   * 表示状態をURLハッシュ（先頭の # を含む）に変換
+   */
+  toHash: (view: FractalViewState): string => {
+    const { fractalType, parameters } = view;
+    const precise = PreciseCoordinate.toPrecise(parameters);
+    const entries: Array<[string, string]> = [
+      ['v', String(VIEW_URL_VERSION)],
+      ['t', fractalType],
+      ['x', precise.centerX],
+      ['y', precise.centerY],
+      ['z', precise.zoom],
+      ['i', String(parameters.iterations)],
+      ['r', String(parameters.escapeRadius)],
+    ];
+    if (parameters.type === 'julia') {
+      entries.push(['c', formatComplexList([parameters.c])]);
+    } else if (parameters.type === 'newton') {
+      entries.push(['n', formatComplexList(parameters.roots)]);
+      entries.push(['tol', String(parameters.tolerance)]);
+    }
+    entries.push(['p', view.paletteType], ['s', view.smooth ? '1' : '0']);
+
+    // 数値の区切りの , と ; はそのまま残す（フラグメントでは使える文字）
+    return `#${entries
+      .map(
+        ([key, value]) =>
+          `${key}=${encodeURIComponent(value).replace(/%2C/g, ',').replace(/%3B/g, ';')}`
+      )
+      .join('&')}`;
+  },
+
+  /**
+   * URLハッシュから表示状態を復元（形式が異なる場合やバージョンが未対応の場合は null）
+   */
+  fromHash: (hash: string): FractalViewState | null => {
+    const fields: Record<string, string> = {};
+    for (const pair of hash.replace(/^#/, '').split('&')) {
+      const separator = pair.indexOf('=');
+      if (separator <= 0) continue;
+      try {
+        fields[pair.slice(0, separator)] = decodeURIComponent(pair.slice(separator + 1));
+      } catch {
+        return null;
+      }
+    }
+    if (fields.v !== String(VIEW_URL_VERSION)) return null;
+
+    const { x, y, z } = fields;
+    const precise =
+      x !== undefined &&
+      y !== undefined &&
+      z !== undefined &&
+      PreciseCoordinate.isValid(x) &&
+      PreciseCoordinate.isValid(y) &&
+      PreciseCoordinate.isValid(z)
+        ? { centerX: x, centerY: y, zoom: z }
+        : undefined;
+
+    return ViewState.normalize({
+      fractalType: fields.t,
+      parameters: {
+        ...(precise ? { ...PreciseCoordinate.toNumbers(precise), precise } : {}),
+        iterations: parseNumber(fields.i),
+        escapeRadius: parseNumber(fields.r),
+        c: parseComplexList(fields.c)?.[0],
+        roots: parseComplexList(fields.n),
+        tolerance: parseNumber(fields.tol),
+      },
+      paletteType: fields.p,
+      smooth: fields.s === undefined ? undefined : fields.s === '1',
+    });
+  },
+} as const;
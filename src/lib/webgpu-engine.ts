@@ -1,5 +1,12 @@
 /** biome-ignore-all lint/style/useNamingConvention: <explanation> */
-import type { FractalType, MandelbrotParameters } from '@/types/fractal';
+import type {
+  AllFractalParameters,
+  ColorPalette,
+  FractalType,
+  IterationBuffer,
+  JuliaParameters,
+  NewtonParameters,
+} from '@/types/fractal';
 
 export interface WebGPUCapabilities {
   isSupported: boolean;
@@ -16,9 +23,14 @@ declare global {
       requestAdapter(options?: {
         powerPreference?: 'low-power' | 'high-performance';
       }): Promise<GPUAdapter | null>;
+      getPreferredCanvasFormat(): string;
     };
   }
 
+  interface HTMLCanvasElement {
+    getContext(contextId: 'webgpu'): GPUCanvasContext | null;
+  }
+
   interface GPUAdapter {
     requestDevice(descriptor?: {
       requiredFeatures?: string[];
@@ -54,6 +66,20 @@ declare global {
         entryPoint: string;
       };
     }): GPUComputePipeline;
+    createRenderPipeline(descriptor: {
+      label?: string;
+      layout: GPUPipelineLayout;
+      vertex: {
+        module: GPUShaderModule;
+        entryPoint: string;
+      };
+      fragment: {
+        module: GPUShaderModule;
+        entryPoint: string;
+        targets: Array<{ format: string }>;
+      };
+      primitive?: { topology: string };
+    }): GPURenderPipeline;
     createBuffer(descriptor: { label?: string; size: number; usage: number }): GPUBuffer;
     createBindGroup(descriptor: {
       label?: string;
@@ -73,7 +99,23 @@ declare global {
   interface GPUBindGroupLayout {}
   interface GPUPipelineLayout {}
   interface GPUComputePipeline {}
+  interface GPURenderPipeline {}
   interface GPUBindGroup {}
+  interface GPUTextureView {}
+
+  interface GPUTexture {
+    createView(): GPUTextureView;
+  }
+
+  interface GPUCanvasContext {
+    configure(configuration: {
+      device: GPUDevice;
+      format: string;
+      alphaMode?: 'opaque' | 'premultiplied';
+    }): void;
+    unconfigure(): void;
+    getCurrentTexture(): GPUTexture;
+  }
 
   interface GPUBuffer {
     destroy(): void;
@@ -85,10 +127,20 @@ declare global {
   interface GPUQueue {
     writeBuffer(buffer: GPUBuffer, bufferOffset: number, data: ArrayBuffer): void;
     submit(commandBuffers: GPUCommandBuffer[]): void;
+    onSubmittedWorkDone(): Promise<void>;
   }
 
   interface GPUCommandEncoder {
     beginComputePass(descriptor?: { label?: string }): GPUComputePassEncoder;
+    beginRenderPass(descriptor: {
+      label?: string;
+      colorAttachments: Array<{
+        view: GPUTextureView;
+        loadOp: 'load' | 'clear';
+        storeOp: 'store' | 'discard';
+        clearValue?: { r: number; g: number; b: number; a: number };
+      }>;
+    }): GPURenderPassEncoder;
     copyBufferToBuffer(
       source: GPUBuffer,
       sourceOffset: number,
@@ -110,11 +162,19 @@ declare global {
     end(): void;
   }
 
+  interface GPURenderPassEncoder {
+    setPipeline(pipeline: GPURenderPipeline): void;
+    setBindGroup(index: number, bindGroup: GPUBindGroup): void;
+    draw(vertexCount: number): void;
+    end(): void;
+  }
+
   interface GPUCommandBuffer {}
 
   // 定数
   const GPUShaderStage: {
     COMPUTE: number;
+    FRAGMENT: number;
   };
 
   const GPUBufferUsage: {
@@ -130,11 +190,534 @@ declare global {
   };
 }
 
+// GPUでの演算精度（df64 は f32 2つで倍精度相当を表現する double-float）
+export type GPUPrecision = 'f32' | 'df64';
+
+// 全フラクタルタイプ・精度で共通のパラメータ構造体（80バイト）
+const PARAMS_BUFFER_SIZE = 80;
+
+const FRACTAL_TYPES: FractalType[] = ['mandelbrot', 'julia', 'burning-ship', 'newton'];
+
+// df64 に対応するフラクタルタイプ（ニュートン法は f32 のみ）
+const DF64_FRACTAL_TYPES: FractalType[] = ['mandelbrot', 'julia', 'burning-ship'];
+
+// 仮数部の精度（f32: 24bit, df64: 約48bit）に対して確保するピクセル間隔の余裕
+const PRECISION_MARGIN = 64;
+const PRECISION_EPSILON: Record<GPUPrecision, number> = {
+  f32: 2 ** -24,
+  df64: 2 ** -48,
+};
+
+const SHADER_HEADER = `
+  struct Parameters {
+    width: u32,
+    height: u32,
+    centerX: f32,
+    centerY: f32,
+    zoom: f32,
+    maxIterations: u32,
+    escapeRadius: f32,
+    tolerance: f32,
+    cReal: f32,
+    cImag: f32,
+    rootCount: u32,
+    smoothing: u32, // smooth は WGSL の予約語
+    centerXLo: f32,
+    centerYLo: f32,
+    stepXHi: f32,
+    stepXLo: f32,
+    stepYHi: f32,
+    stepYLo: f32,
+    cRealLo: f32,
+    cImagLo: f32,
+  }
+
+  @group(0) @binding(0) var<uniform> params: Parameters;
+  @group(0) @binding(1) var<storage, read_write> output: array<f32>;
+  @group(0) @binding(2) var<storage, read> roots: array<vec2<f32>>;
+
+  fn cmul(a: vec2<f32>, b: vec2<f32>) -> vec2<f32> {
+    return vec2<f32>(a.x * b.x - a.y * b.y, a.x * b.y + a.y * b.x);
+  }
+
+  fn cdiv(a: vec2<f32>, b: vec2<f32>) -> vec2<f32> {
+    let denominator = b.x * b.x + b.y * b.y;
+    return vec2<f32>((a.x * b.x + a.y * b.y) / denominator, (a.y * b.x - a.x * b.y) / denominator);
+  }
+
+  // 正規化反復回数（SmoothColoring.iterationCount と同じ式・同じ上限）
+  fn smoothIteration(iteration: u32, magnitudeSquared: f32) -> f32 {
+    if (params.smoothing == 0u || iteration >= params.maxIterations) {
+      return f32(iteration);
+    }
+    let logModulus = log(magnitudeSquared) / 2.0;
+    if (logModulus <= 0.0) {
+      return f32(iteration);
+    }
+    let value = f32(iteration) + 1.0 - log2(logModulus);
+    return clamp(value, 0.0, f32(params.maxIterations) - 0.5);
+  }
+`;
+
+// フラクタルタイプごとの反復関数（ピクセルの複素座標 → 出力値）
+const ITERATE_FUNCTIONS: Record<FractalType, string> = {
+  mandelbrot: `
+    // 軌道が周期に入ったとみなす距離（InteriorDetection と同じ判定を単精度で行う）
+    const PERIOD_EPSILON: f32 = 1e-6;
+
+    // 主カージオイドか周期2のバルブの内部か
+    fn isInMainCardioidOrBulb(real: f32, imag: f32) -> bool {
+      let x = real - 0.25;
+      let q = x * x + imag * imag;
+      if (q * (q + x) <= 0.25 * imag * imag) {
+        return true;
+      }
+      let bulbX = real + 1.0;
+      return bulbX * bulbX + imag * imag <= 0.0625;
+    }
+
+    fn iterate(real: f32, imag: f32) -> f32 {
+      if (isInMainCardioidOrBulb(real, imag)) {
+        return f32(params.maxIterations);
+      }
+
+      var zx = 0.0;
+      var zy = 0.0;
+      var iteration = 0u;
+      var checkX = 0.0;
+      var checkY = 0.0;
+      var checkIteration = 0u;
+      var checkInterval = 1u;
+
+      while (zx * zx + zy * zy <= params.escapeRadius && iteration < params.maxIterations) {
+        let temp = zx * zx - zy * zy + real;
+        zy = 2.0 * zx * zy + imag;
+        zx = temp;
+        iteration = iteration + 1u;
+
+        // Brent法: 保存点に戻ったら内部
+        if (abs(zx - checkX) < PERIOD_EPSILON && abs(zy - checkY) < PERIOD_EPSILON) {
+          return f32(params.maxIterations);
+        }
+        if (iteration - checkIteration == checkInterval) {
+          checkX = zx;
+          checkY = zy;
+          checkIteration = iteration;
+          checkInterval = checkInterval * 2u;
+        }
+      }
+      return smoothIteration(iteration, zx * zx + zy * zy);
+    }
+  `,
+  julia: `
+    fn iterate(real: f32, imag: f32) -> f32 {
+      var zx = real;
+      var zy = imag;
+      var iteration = 0u;
+
+      while (zx * zx + zy * zy <= params.escapeRadius && iteration < params.maxIterations) {
+        let temp = zx * zx - zy * zy + params.cReal;
+        zy = 2.0 * zx * zy + params.cImag;
+        zx = temp;
+        iteration = iteration + 1u;
+      }
+      return smoothIteration(iteration, zx * zx + zy * zy);
+    }
+  `,
+  'burning-ship': `
+    fn iterate(real: f32, imag: f32) -> f32 {
+      var zx = 0.0;
+      var zy = 0.0;
+      var iteration = 0u;
+
+      while (zx * zx + zy * zy <= params.escapeRadius && iteration < params.maxIterations) {
+        let temp = zx * zx - zy * zy + real;
+        zy = abs(2.0 * zx * zy) + imag;
+        zx = temp;
+        iteration = iteration + 1u;
+      }
+      return smoothIteration(iteration, zx * zx + zy * zy);
+    }
+  `,
+  // 収束した根の番号と反復回数を root * 100 + iterations として出力（CPU版と同じ形式）
+  newton: `
+    fn iterate(real: f32, imag: f32) -> f32 {
+      var z = vec2<f32>(real, imag);
+
+      for (var iteration = 0u; iteration < params.maxIterations; iteration = iteration + 1u) {
+        // f(z) = Π(z - root) と積の微分則による f'(z)
+        var f = vec2<f32>(1.0, 0.0);
+        var fPrime = vec2<f32>(0.0, 0.0);
+        for (var k = 0u; k < params.rootCount; k = k + 1u) {
+          let factor = z - roots[k];
+          fPrime = cmul(fPrime, factor) + f;
+          f = cmul(f, factor);
+        }
+
+        if (length(fPrime) < 1e-14) {
+          break;
+        }
+
+        let zNext = z - cdiv(f, fPrime);
+        if (length(zNext - z) < params.tolerance) {
+          var closestRoot = 0u;
+          var minDistance = 3.4e38;
+          for (var k = 0u; k < params.rootCount; k = k + 1u) {
+            let diff = zNext - roots[k];
+            let distance = dot(diff, diff);
+            if (distance < minDistance) {
+              minDistance = distance;
+              closestRoot = k;
+              if (distance < params.tolerance * params.tolerance) {
+                break;
+              }
+            }
+          }
+          return f32(closestRoot * 100u + iteration);
+        }
+
+        z = zNext;
+      }
+      return f32(params.maxIterations);
+    }
+  `,
+};
+
+// double-float 演算（vec2 の x が上位、y が下位の f32）
+// FMAに依存しないよう Dekker の分割で積の誤差を求める
+const DF64_FUNCTIONS = `
+  fn twoSum(a: f32, b: f32) -> vec2<f32> {
+    let s = a + b;
+    let v = s - a;
+    return vec2<f32>(s, (a - (s - v)) + (b - v));
+  }
+
+  fn quickTwoSum(a: f32, b: f32) -> vec2<f32> {
+    let s = a + b;
+    return vec2<f32>(s, b - (s - a));
+  }
+
+  fn split(a: f32) -> vec2<f32> {
+    let t = 4097.0 * a;
+    let hi = t - (t - a);
+    return vec2<f32>(hi, a - hi);
+  }
+
+  fn twoProd(a: f32, b: f32) -> vec2<f32> {
+    let p = a * b;
+    let aSplit = split(a);
+    let bSplit = split(b);
+    let err = ((aSplit.x * bSplit.x - p) + aSplit.x * bSplit.y + aSplit.y * bSplit.x) + aSplit.y * bSplit.y;
+    return vec2<f32>(p, err);
+  }
+
+  fn dsAdd(a: vec2<f32>, b: vec2<f32>) -> vec2<f32> {
+    let s = twoSum(a.x, b.x);
+    let t = twoSum(a.y, b.y);
+    let r = quickTwoSum(s.x, s.y + t.x);
+    return quickTwoSum(r.x, r.y + t.y);
+  }
+
+  fn dsSub(a: vec2<f32>, b: vec2<f32>) -> vec2<f32> {
+    return dsAdd(a, -b);
+  }
+
+  fn dsMul(a: vec2<f32>, b: vec2<f32>) -> vec2<f32> {
+    let p = twoProd(a.x, b.x);
+    return quickTwoSum(p.x, p.y + (a.x * b.y + a.y * b.x));
+  }
+
+  fn dsAbs(a: vec2<f32>) -> vec2<f32> {
+    if (a.x < 0.0) {
+      return -a;
+    }
+    return a;
+  }
+`;
+
+// df64 版の反復関数（Mandelbrot / Julia / Burning Ship は同じ漸化式で初期値と c が異なる）
+function createDf64IterateFunction(fractalType: FractalType): string {
+  const isJulia = fractalType === 'julia';
+  const isMandelbrot = fractalType === 'mandelbrot';
+  const crossTerm = fractalType === 'burning-ship' ? 'dsAbs(dsAdd(zxy, zxy))' : 'dsAdd(zxy, zxy)';
+
+  // マンデルブロ集合は内部判定で打ち切る（境界付近の誤判定を避けるため判定も df64 で行う）
+  const interiorFunctions = isMandelbrot
+    ? `
+    const PERIOD_EPSILON: f32 = 1e-13;
+
+    fn isInMainCardioidOrBulb(real: vec2<f32>, imag: vec2<f32>) -> bool {
+      let x = dsSub(real, vec2<f32>(0.25, 0.0));
+      let imag2 = dsMul(imag, imag);
+      let q = dsAdd(dsMul(x, x), imag2);
+      if (dsSub(dsMul(q, dsAdd(q, x)), dsMul(vec2<f32>(0.25, 0.0), imag2)).x <= 0.0) {
+        return true;
+      }
+      let bulbX = dsAdd(real, vec2<f32>(1.0, 0.0));
+      return dsSub(dsAdd(dsMul(bulbX, bulbX), imag2), vec2<f32>(0.0625, 0.0)).x <= 0.0;
+    }
+  `
+    : '';
+  const interiorCheck = isMandelbrot
+    ? `
+      if (isInMainCardioidOrBulb(real, imag)) {
+        return f32(params.maxIterations);
+      }
+      var checkX = zx;
+      var checkY = zy;
+      var checkIteration = 0u;
+      var checkInterval = 1u;
+  `
+    : '';
+  const periodCheck = isMandelbrot
+    ? `
+        if (abs(dsSub(zx, checkX).x) < PERIOD_EPSILON && abs(dsSub(zy, checkY).x) < PERIOD_EPSILON) {
+          return f32(params.maxIterations);
+        }
+        if (iteration - checkIteration == checkInterval) {
+          checkX = zx;
+          checkY = zy;
+          checkIteration = iteration;
+          checkInterval = checkInterval * 2u;
+        }
+  `
+    : '';
+
+  return `
+    ${interiorFunctions}
+    fn iterate(real: vec2<f32>, imag: vec2<f32>) -> f32 {
+      var zx = ${isJulia ? 'real' : 'vec2<f32>(0.0, 0.0)'};
+      var zy = ${isJulia ? 'imag' : 'vec2<f32>(0.0, 0.0)'};
+      let cx = ${isJulia ? 'vec2<f32>(params.cReal, params.cRealLo)' : 'real'};
+      let cy = ${isJulia ? 'vec2<f32>(params.cImag, params.cImagLo)' : 'imag'};
+      var iteration = 0u;
+      var magnitudeSquared = 0.0;
+      ${interiorCheck}
+      while (iteration < params.maxIterations) {
+        let zx2 = dsMul(zx, zx);
+        let zy2 = dsMul(zy, zy);
+        magnitudeSquared = zx2.x + zy2.x;
+        if (magnitudeSquared > params.escapeRadius) {
+          break;
+        }
+
+        let zxy = dsMul(zx, zy);
+        zy = dsAdd(${crossTerm}, cy);
+        zx = dsAdd(dsSub(zx2, zy2), cx);
+        iteration = iteration + 1u;
+        ${periodCheck}
+      }
+      return smoothIteration(iteration, magnitudeSquared);
+    }
+  `;
+}
+
+/**
+ * フラクタルタイプと精度に応じたコンピュートシェーダーを生成
+ */
+function createShaderCode(fractalType: FractalType, precision: GPUPrecision): string {
+  if (precision === 'df64') {
+    return `
+      ${SHADER_HEADER}
+      ${DF64_FUNCTIONS}
+      ${createDf64IterateFunction(fractalType)}
+
+      @compute @workgroup_size(8, 8)
+      fn main(@builtin(global_invocation_id) global_id: vec3<u32>) {
+        let x = global_id.x;
+        let y = global_id.y;
+
+        if (x >= params.width || y >= params.height) {
+          return;
+        }
+
+        // 中心からのピクセル数（半整数まで f32 で正確）× ピクセル間隔
+        let offsetX = vec2<f32>(f32(x) - f32(params.width) / 2.0, 0.0);
+        let offsetY = vec2<f32>(f32(y) - f32(params.height) / 2.0, 0.0);
+        let real = dsAdd(vec2<f32>(params.centerX, params.centerXLo), dsMul(offsetX, vec2<f32>(params.stepXHi, params.stepXLo)));
+        let imag = dsAdd(vec2<f32>(params.centerY, params.centerYLo), dsMul(offsetY, vec2<f32>(params.stepYHi, params.stepYLo)));
+
+        let index = y * params.width + x;
+        output[index] = iterate(real, imag);
+      }
+    `;
+  }
+
+  return `
+    ${SHADER_HEADER}
+    ${ITERATE_FUNCTIONS[fractalType]}
+
+    @compute @workgroup_size(8, 8)
+    fn main(@builtin(global_invocation_id) global_id: vec3<u32>) {
+      let x = global_id.x;
+      let y = global_id.y;
+
+      if (x >= params.width || y >= params.height) {
+        return;
+      }
+
+      let aspectRatio = f32(params.width) / f32(params.height);
+      let scale = 3.0 / params.zoom;
+
+      let real = params.centerX + ((f32(x) - f32(params.width) / 2.0) * scale * aspectRatio) / f32(params.width);
+      let imag = params.centerY + ((f32(y) - f32(params.height) / 2.0) * scale) / f32(params.height);
+
+      let index = y * params.width + x;
+      output[index] = iterate(real, imag);
+    }
+  `;
+}
+
+// 着色パス用のパラメータ構造体（32バイト）
+const COLORIZE_PARAMS_BUFFER_SIZE = 32;
+
+// 反復回数バッファをパレットで着色してキャンバスへ描画するシェーダー
+// ColorPalette.applyPalette / ニュートン専用パレットと同じ対応づけを行う
+const COLORIZE_SHADER = `
+  struct ColorizeParameters {
+    width: u32,
+    height: u32,
+    maxIterations: u32,
+    paletteSize: u32,
+    smoothing: u32,
+    rootCount: u32,
+    colorsPerSet: u32,
+    _padding: u32,
+  }
+
+  @group(0) @binding(0) var<uniform> colorize: ColorizeParameters;
+  @group(0) @binding(1) var<storage, read> iterations: array<f32>;
+  @group(0) @binding(2) var<storage, read> palette: array<vec4<f32>>;
+
+  // 画面全体を覆う1枚の三角形
+  @vertex
+  fn vertexMain(@builtin(vertex_index) index: u32) -> @builtin(position) vec4<f32> {
+    let uv = vec2<f32>(f32((index << 1u) & 2u), f32(index & 2u));
+    return vec4<f32>(uv * 2.0 - 1.0, 0.0, 1.0);
+  }
+
+  // パレット上の連続位置の色（SmoothColoring.writeColor と同じ補間）
+  fn paletteColor(position: f32, lastIndex: u32) -> vec4<f32> {
+    let clamped = clamp(position, 0.0, f32(lastIndex));
+    let index = u32(floor(clamped));
+    let color = palette[index];
+    if (colorize.smoothing == 0u || index >= lastIndex) {
+      return color;
+    }
+    return mix(color, palette[index + 1u], clamped - f32(index));
+  }
+
+  @fragment
+  fn fragmentMain(@builtin(position) position: vec4<f32>) -> @location(0) vec4<f32> {
+    let black = vec4<f32>(0.0, 0.0, 0.0, 1.0);
+    let x = u32(position.x);
+    let y = u32(position.y);
+    if (x >= colorize.width || y >= colorize.height) {
+      return black;
+    }
+
+    let value = iterations[y * colorize.width + x];
+    let maxIterations = f32(colorize.maxIterations);
+    if (value == maxIterations) {
+      return black;
+    }
+
+    // 標準パレット
+    if (colorize.rootCount == 0u) {
+      let lastIndex = colorize.paletteSize - 1u;
+      return paletteColor((value / maxIterations) * f32(lastIndex), lastIndex);
+    }
+
+    // ニュートン専用パレット（root * 100 + iterations を根ごとの色セットに割り当てる）
+    let rootIndex = u32(floor(value / 100.0));
+    let offset = ((value - f32(rootIndex) * 100.0) / maxIterations) * f32(colorize.colorsPerSet - 1u);
+    var setIndex = rootIndex;
+    if (rootIndex >= colorize.rootCount) {
+      // 根が4以上の場合のみグレーパレットを使用
+      if (colorize.rootCount < 4u) {
+        return black;
+      }
+      setIndex = colorize.rootCount;
+    }
+    let setOffset = setIndex * colorize.colorsPerSet;
+    return paletteColor(f32(setOffset) + offset, setOffset + colorize.colorsPerSet - 1u);
+  }
+`;
+
+/**
+ * 倍精度の値を f32 の上位ワードで表したときの残り（df64 の下位ワード）
+ */
+// 反復回数の集計パス用のパラメータ構造体（16バイト）
+const STATISTICS_PARAMS_BUFFER_SIZE = 16;
+
+// 集計パスのワークグループの大きさと、ディスパッチするワークグループ数の上限
+const STATISTICS_WORKGROUP_SIZE = 256;
+const MAX_STATISTICS_WORKGROUPS = 65535;
+
+// 反復回数バッファから上限に達した画素と上限の近くで脱出した画素を数えるシェーダー
+// AutoIterations.measure と同じ判定を行い、ワークグループ内で集計してから全体のカウンタに加える
+const STATISTICS_SHADER = `
+  struct StatisticsParameters {
+    pixelCount: u32,
+    maxIterations: f32,
+    nearLimit: f32,
+    _padding: u32,
+  }
+
+  @group(0) @binding(0) var<uniform> statistics: StatisticsParameters;
+  @group(0) @binding(1) var<storage, read> iterations: array<f32>;
+  @group(0) @binding(2) var<storage, read_write> counts: array<atomic<u32>, 2>;
+
+  var<workgroup> saturated: atomic<u32>;
+  var<workgroup> nearLimit: atomic<u32>;
+
+  @compute @workgroup_size(${STATISTICS_WORKGROUP_SIZE})
+  fn main(
+    @builtin(global_invocation_id) globalId: vec3<u32>,
+    @builtin(local_invocation_index) localIndex: u32,
+    @builtin(num_workgroups) workgroups: vec3<u32>
+  ) {
+    let stride = workgroups.x * ${STATISTICS_WORKGROUP_SIZE}u;
+    for (var index = globalId.x; index < statistics.pixelCount; index += stride) {
+      let value = iterations[index];
+      if (value >= statistics.maxIterations) {
+        atomicAdd(&saturated, 1u);
+      } else if (value >= statistics.nearLimit) {
+        atomicAdd(&nearLimit, 1u);
+      }
+    }
+
+    workgroupBarrier();
+    if (localIndex == 0u) {
+      atomicAdd(&counts[0], atomicLoad(&saturated));
+      atomicAdd(&counts[1], atomicLoad(&nearLimit));
+    }
+  }
+`;
+
+// presentFractal で集計した画素数
+export interface PresentedIterationCounts {
+  // 反復回数の上限に達した画素数
+  saturated: number;
+  // 上限に達せず nearLimit 以上で脱出した画素数
+  nearLimit: number;
+}
+
+function lowWord(value: number): number {
+  return value - Math.fround(value);
+}
+
 export class WebGPUEngine {
   private device: GPUDevice | null = null;
   private adapter: GPUAdapter | null = null;
-  private pipeline: GPUComputePipeline | null = null;
+  private pipelines = new Map<string, GPUComputePipeline>();
   private bindGroupLayout: GPUBindGroupLayout | null = null;
+  private colorizePipeline: GPURenderPipeline | null = null;
+  private colorizeBindGroupLayout: GPUBindGroupLayout | null = null;
+  private statisticsPipeline: GPUComputePipeline | null = null;
+  private statisticsBindGroupLayout: GPUBindGroupLayout | null = null;
+  private canvasFormat = 'bgra8unorm';
+  private canvasContexts = new WeakMap<HTMLCanvasElement, GPUCanvasContext>();
   private isInitialized = false;
 
   /**
@@ -218,7 +801,7 @@ export class WebGPUEngine {
       // console.log('✅ WebGPUデバイス取得成功');
 
       // console.log('🛠️ コンピュートパイプライン作成中...');
-      await this.createComputePipeline();
+      await this.createComputePipelines();
       // console.log('✅ コンピュートパイプライン作成成功');
 
       this.isInitialized = true;
@@ -232,64 +815,148 @@ export class WebGPUEngine {
   }
 
   /**
-   * コンピュートシェーダーパイプラインを作成
+   * フラクタルタイプごとのコンピュートパイプラインを作成
    */
-  private async createComputePipeline(): Promise<void> {
+  private async createComputePipelines(): Promise<void> {
     if (!this.device) throw new Error('Device not initialized');
 
-    const shaderCode = `
-      struct Parameters {
-        width: u32,
-        height: u32,
-        centerX: f32,
-        centerY: f32,
-        zoom: f32,
-        maxIterations: u32,
-        escapeRadius: f32,
-        _padding: f32,
-      }
+    this.bindGroupLayout = this.device.createBindGroupLayout({
+      label: 'Fractal Bind Group Layout',
+      entries: [
+        {
+          binding: 0,
+          visibility: GPUShaderStage.COMPUTE,
+          buffer: { type: 'uniform' },
+        },
+        {
+          binding: 1,
+          visibility: GPUShaderStage.COMPUTE,
+          buffer: { type: 'storage' },
+        },
+        {
+          binding: 2,
+          visibility: GPUShaderStage.COMPUTE,
+          buffer: { type: 'read-only-storage' },
+        },
+      ],
+    });
 
-      @group(0) @binding(0) var<uniform> params: Parameters;
-      @group(0) @binding(1) var<storage, read_write> output: array<u32>;
+    const pipelineLayout = this.device.createPipelineLayout({
+      label: 'Fractal Pipeline Layout',
+      bindGroupLayouts: [this.bindGroupLayout],
+    });
 
-      @compute @workgroup_size(8, 8)
-      fn main(@builtin(global_invocation_id) global_id: vec3<u32>) {
-        let x = global_id.x;
-        let y = global_id.y;
-        
-        if (x >= params.width || y >= params.height) {
-          return;
-        }
+    const variants: Array<[FractalType, GPUPrecision]> = [
+      ...FRACTAL_TYPES.map((type): [FractalType, GPUPrecision] => [type, 'f32']),
+      ...DF64_FRACTAL_TYPES.map((type): [FractalType, GPUPrecision] => [type, 'df64']),
+    ];
 
-        let aspectRatio = f32(params.width) / f32(params.height);
-        let scale = 3.0 / params.zoom;
-        
-        let real = params.centerX + ((f32(x) - f32(params.width) / 2.0) * scale * aspectRatio) / f32(params.width);
-        let imag = params.centerY + ((f32(y) - f32(params.height) / 2.0) * scale) / f32(params.height);
-        
-        var zx = 0.0;
-        var zy = 0.0;
-        var iteration = 0u;
-        
-        while (zx * zx + zy * zy <= params.escapeRadius && iteration < params.maxIterations) {
-          let temp = zx * zx - zy * zy + real;
-          zy = 2.0 * zx * zy + imag;
-          zx = temp;
-          iteration = iteration + 1u;
-        }
-        
-        let index = y * params.width + x;
-        output[index] = iteration;
-      }
-    `;
+    for (const [fractalType, precision] of variants) {
+      const shaderModule = this.device.createShaderModule({
+        label: `${fractalType} (${precision}) Compute Shader`,
+        code: createShaderCode(fractalType, precision),
+      });
+
+      this.pipelines.set(
+        `${fractalType}:${precision}`,
+        this.device.createComputePipeline({
+          label: `${fractalType} (${precision}) Compute Pipeline`,
+          layout: pipelineLayout,
+          compute: {
+            module: shaderModule,
+            entryPoint: 'main',
+          },
+        })
+      );
+    }
+  }
+
+  /**
+   * 表示範囲を描画できるGPU精度を選択（どの精度でも足りない場合は null）
+   * ピクセル間隔が座標の大きさに対して仮数部の分解能より十分大きいかで判定する
+   */
+  static selectPrecision(
+    fractalType: FractalType,
+    parameters: AllFractalParameters,
+    height: number
+  ): GPUPrecision | null {
+    const pixelSize = 3.0 / parameters.zoom / height;
+    const magnitude = Math.max(1, Math.abs(parameters.centerX), Math.abs(parameters.centerY));
+    const relativePixelSize = pixelSize / magnitude;
+
+    if (relativePixelSize > PRECISION_EPSILON.f32 * PRECISION_MARGIN) {
+      return 'f32';
+    }
+    if (
+      DF64_FRACTAL_TYPES.includes(fractalType) &&
+      relativePixelSize > PRECISION_EPSILON.df64 * PRECISION_MARGIN
+    ) {
+      return 'df64';
+    }
+    return null;
+  }
+
+  /**
+   * 着色・表示用のレンダーパイプラインを作成
+   */
+  private createColorizePipeline(): void {
+    if (!this.device) throw new Error('Device not initialized');
+
+    this.canvasFormat = navigator.gpu?.getPreferredCanvasFormat() ?? 'bgra8unorm';
+
+    this.colorizeBindGroupLayout = this.device.createBindGroupLayout({
+      label: 'Colorize Bind Group Layout',
+      entries: [
+        {
+          binding: 0,
+          visibility: GPUShaderStage.FRAGMENT,
+          buffer: { type: 'uniform' },
+        },
+        {
+          binding: 1,
+          visibility: GPUShaderStage.FRAGMENT,
+          buffer: { type: 'read-only-storage' },
+        },
+        {
+          binding: 2,
+          visibility: GPUShaderStage.FRAGMENT,
+          buffer: { type: 'read-only-storage' },
+        },
+      ],
+    });
 
     const shaderModule = this.device.createShaderModule({
-      label: 'Mandelbrot Compute Shader',
-      code: shaderCode,
+      label: 'Colorize Shader',
+      code: COLORIZE_SHADER,
     });
 
-    this.bindGroupLayout = this.device.createBindGroupLayout({
-      label: 'Mandelbrot Bind Group Layout',
+    this.colorizePipeline = this.device.createRenderPipeline({
+      label: 'Colorize Render Pipeline',
+      layout: this.device.createPipelineLayout({
+        label: 'Colorize Pipeline Layout',
+        bindGroupLayouts: [this.colorizeBindGroupLayout],
+      }),
+      vertex: {
+        module: shaderModule,
+        entryPoint: 'vertexMain',
+      },
+      fragment: {
+        module: shaderModule,
+        entryPoint: 'fragmentMain',
+        targets: [{ format: this.canvasFormat }],
+      },
+      primitive: { topology: 'triangle-list' },
+    });
+  }
+
+  /**
+   * 反復回数の集計用のコンピュートパイプラインを作成
+   */
+  private createStatisticsPipeline(): void {
+    if (!this.device) throw new Error('Device not initialized');
+
+    this.statisticsBindGroupLayout = this.device.createBindGroupLayout({
+      label: 'Statistics Bind Group Layout',
       entries: [
         {
           binding: 0,
@@ -299,47 +966,163 @@ export class WebGPUEngine {
         {
           binding: 1,
           visibility: GPUShaderStage.COMPUTE,
+          buffer: { type: 'read-only-storage' },
+        },
+        {
+          binding: 2,
+          visibility: GPUShaderStage.COMPUTE,
           buffer: { type: 'storage' },
         },
       ],
     });
 
-    const pipelineLayout = this.device.createPipelineLayout({
-      label: 'Mandelbrot Pipeline Layout',
-      bindGroupLayouts: [this.bindGroupLayout],
-    });
-
-    this.pipeline = this.device.createComputePipeline({
-      label: 'Mandelbrot Compute Pipeline',
-      layout: pipelineLayout,
+    this.statisticsPipeline = this.device.createComputePipeline({
+      label: 'Statistics Compute Pipeline',
+      layout: this.device.createPipelineLayout({
+        label: 'Statistics Pipeline Layout',
+        bindGroupLayouts: [this.statisticsBindGroupLayout],
+      }),
       compute: {
-        module: shaderModule,
+        module: this.device.createShaderModule({
+          label: 'Statistics Compute Shader',
+          code: STATISTICS_SHADER,
+        }),
         entryPoint: 'main',
       },
     });
   }
 
   /**
-   * Mandelbrot集合をレンダリング
+   * 反復回数バッファを集計するパスを追加し、結果を読み出すバッファと解放するバッファを返す
+   */
+  private encodeStatisticsPass(
+    commandEncoder: GPUCommandEncoder,
+    iterationBuffer: GPUBuffer,
+    pixelCount: number,
+    maxIterations: number,
+    nearLimit: number
+  ): { readBuffer: GPUBuffer; buffers: GPUBuffer[] } {
+    if (!this.statisticsPipeline) {
+      this.createStatisticsPipeline();
+    }
+    if (!this.device || !this.statisticsPipeline || !this.statisticsBindGroupLayout) {
+      throw new Error('Statistics pipeline not available');
+    }
+
+    const paramsData = new ArrayBuffer(STATISTICS_PARAMS_BUFFER_SIZE);
+    const paramsView = new DataView(paramsData);
+    paramsView.setUint32(0, pixelCount, true);
+    paramsView.setFloat32(4, maxIterations, true);
+    paramsView.setFloat32(8, nearLimit, true);
+
+    const paramsBuffer = this.device.createBuffer({
+      label: 'Statistics Parameters Buffer',
+      size: STATISTICS_PARAMS_BUFFER_SIZE,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    });
+    // 作成したバッファは 0 で初期化されている
+    const countsBuffer = this.device.createBuffer({
+      label: 'Statistics Counts Buffer',
+      size: 8,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC,
+    });
+    const readBuffer = this.device.createBuffer({
+      label: 'Statistics Read Buffer',
+      size: 8,
+      usage: GPUBufferUsage.COPY_DST | GPUBufferUsage.MAP_READ,
+    });
+    this.device.queue.writeBuffer(paramsBuffer, 0, paramsData);
+
+    const bindGroup = this.device.createBindGroup({
+      label: 'Statistics Bind Group',
+      layout: this.statisticsBindGroupLayout,
+      entries: [
+        {
+          binding: 0,
+          resource: { buffer: paramsBuffer },
+        },
+        {
+          binding: 1,
+          resource: { buffer: iterationBuffer },
+        },
+        {
+          binding: 2,
+          resource: { buffer: countsBuffer },
+        },
+      ],
+    });
+
+    const computePass = commandEncoder.beginComputePass({ label: 'Statistics Compute Pass' });
+    computePass.setPipeline(this.statisticsPipeline);
+    computePass.setBindGroup(0, bindGroup);
+    computePass.dispatchWorkgroups(
+      Math.max(
+        1,
+        Math.min(MAX_STATISTICS_WORKGROUPS, Math.ceil(pixelCount / STATISTICS_WORKGROUP_SIZE))
+      )
+    );
+    computePass.end();
+
+    commandEncoder.copyBufferToBuffer(countsBuffer, 0, readBuffer, 0, 8);
+
+    return { readBuffer, buffers: [paramsBuffer, countsBuffer, readBuffer] };
+  }
+
+  /**
+   * キャンバスのWebGPUコンテキストを取得（初回のみデバイスに設定）
+   */
+  private getCanvasContext(canvas: HTMLCanvasElement): GPUCanvasContext {
+    if (!this.device) throw new Error('Device not initialized');
+
+    const cached = this.canvasContexts.get(canvas);
+    if (cached) return cached;
+
+    const context = canvas.getContext('webgpu');
+    if (!context) {
+      throw new Error('WebGPU canvas context not available');
+    }
+    context.configure({ device: this.device, format: this.canvasFormat, alphaMode: 'opaque' });
+    this.canvasContexts.set(canvas, context);
+    return context;
+  }
+
+  /**
+   * 反復回数を計算するコンピュートパスをエンコード
+   * 出力バッファと、コマンド完了後に破棄するバッファ一覧を返す
    */
-  async renderMandelbrot(
-    parameters: MandelbrotParameters,
+  private encodeComputePass(
+    commandEncoder: GPUCommandEncoder,
+    fractalType: FractalType,
+    parameters: AllFractalParameters,
     width: number,
-    height: number
-  ): Promise<number[][]> {
-    if (!this.isInitialized || !this.device || !this.pipeline || !this.bindGroupLayout) {
+    height: number,
+    precision: GPUPrecision,
+    smooth: boolean
+  ): { outputBuffer: GPUBuffer; buffers: GPUBuffer[] } {
+    const pipeline = this.pipelines.get(`${fractalType}:${precision}`);
+    if (!this.isInitialized || !this.device || !pipeline || !this.bindGroupLayout) {
       throw new Error('WebGPU engine not initialized');
     }
 
-    const outputSize = width * height * 4; // u32 = 4 bytes
+    const outputSize = width * height * 4; // f32 = 4 bytes
+    const juliaC = fractalType === 'julia' ? (parameters as JuliaParameters).c : null;
+    const newtonParams = fractalType === 'newton' ? (parameters as NewtonParameters) : null;
+    const roots = newtonParams?.roots ?? [];
 
     // パラメータバッファを作成
     const paramsBuffer = this.device.createBuffer({
       label: 'Parameters Buffer',
-      size: 32, // Parameters struct size (aligned to 16 bytes)
+      size: PARAMS_BUFFER_SIZE,
       usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
     });
 
+    // 根のバッファを作成（空のバインドは不可のため最低1要素分確保）
+    const rootsBuffer = this.device.createBuffer({
+      label: 'Roots Buffer',
+      size: Math.max(1, roots.length) * 8,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+    });
+
     // 出力バッファを作成
     const outputBuffer = this.device.createBuffer({
       label: 'Output Buffer',
@@ -347,15 +1130,8 @@ export class WebGPUEngine {
       usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC,
     });
 
-    // 読み取り用バッファを作成
-    const readBuffer = this.device.createBuffer({
-      label: 'Read Buffer',
-      size: outputSize,
-      usage: GPUBufferUsage.COPY_DST | GPUBufferUsage.MAP_READ,
-    });
-
     // パラメータデータを準備
-    const paramsData = new ArrayBuffer(32);
+    const paramsData = new ArrayBuffer(PARAMS_BUFFER_SIZE);
     const paramsView = new DataView(paramsData);
     paramsView.setUint32(0, width, true);
     paramsView.setUint32(4, height, true);
@@ -364,14 +1140,38 @@ export class WebGPUEngine {
     paramsView.setFloat32(16, parameters.zoom, true);
     paramsView.setUint32(20, parameters.iterations, true);
     paramsView.setFloat32(24, parameters.escapeRadius, true);
-    paramsView.setFloat32(28, 0, true); // padding
+    paramsView.setFloat32(28, newtonParams?.tolerance ?? 0, true);
+    paramsView.setFloat32(32, juliaC?.real ?? 0, true);
+    paramsView.setFloat32(36, juliaC?.imag ?? 0, true);
+    paramsView.setUint32(40, roots.length, true);
+    paramsView.setUint32(44, smooth ? 1 : 0, true);
+
+    // df64 用の下位ワードとピクセル間隔
+    const scale = 3.0 / parameters.zoom;
+    const stepX = (scale * (width / height)) / width;
+    const stepY = scale / height;
+    paramsView.setFloat32(48, lowWord(parameters.centerX), true);
+    paramsView.setFloat32(52, lowWord(parameters.centerY), true);
+    paramsView.setFloat32(56, stepX, true);
+    paramsView.setFloat32(60, lowWord(stepX), true);
+    paramsView.setFloat32(64, stepY, true);
+    paramsView.setFloat32(68, lowWord(stepY), true);
+    paramsView.setFloat32(72, lowWord(juliaC?.real ?? 0), true);
+    paramsView.setFloat32(76, lowWord(juliaC?.imag ?? 0), true);
+
+    const rootsData = new Float32Array(Math.max(1, roots.length) * 2);
+    roots.forEach((root, index) => {
+      rootsData[index * 2] = root.real;
+      rootsData[index * 2 + 1] = root.imag;
+    });
 
     // バッファにデータを書き込み
     this.device.queue.writeBuffer(paramsBuffer, 0, paramsData);
+    this.device.queue.writeBuffer(rootsBuffer, 0, rootsData.buffer);
 
     // バインドグループを作成
     const bindGroup = this.device.createBindGroup({
-      label: 'Mandelbrot Bind Group',
+      label: `${fractalType} Bind Group`,
       layout: this.bindGroupLayout,
       entries: [
         {
@@ -382,20 +1182,19 @@ export class WebGPUEngine {
           binding: 1,
           resource: { buffer: outputBuffer },
         },
+        {
+          binding: 2,
+          resource: { buffer: rootsBuffer },
+        },
       ],
     });
 
-    // コマンドエンコーダーを作成
-    const commandEncoder = this.device.createCommandEncoder({
-      label: 'Mandelbrot Command Encoder',
-    });
-
     // コンピュートパスを開始
     const computePass = commandEncoder.beginComputePass({
-      label: 'Mandelbrot Compute Pass',
+      label: `${fractalType} Compute Pass`,
     });
 
-    computePass.setPipeline(this.pipeline);
+    computePass.setPipeline(pipeline);
     computePass.setBindGroup(0, bindGroup);
 
     const workgroupsX = Math.ceil(width / 8);
@@ -403,6 +1202,50 @@ export class WebGPUEngine {
     computePass.dispatchWorkgroups(workgroupsX, workgroupsY);
     computePass.end();
 
+    return { outputBuffer, buffers: [paramsBuffer, rootsBuffer, outputBuffer] };
+  }
+
+  /**
+   * 指定したフラクタルタイプをレンダリング
+   * ニュートン法は root * 100 + iterations 形式の値を返す
+   * smooth が有効な場合は正規化反復回数（小数）を返す（ニュートン法は対象外）
+   */
+  async renderFractal(
+    fractalType: FractalType,
+    parameters: AllFractalParameters,
+    width: number,
+    height: number,
+    precision: GPUPrecision = 'f32',
+    smooth = false
+  ): Promise<IterationBuffer> {
+    if (!this.isInitialized || !this.device) {
+      throw new Error('WebGPU engine not initialized');
+    }
+
+    const outputSize = width * height * 4; // f32 = 4 bytes
+
+    // コマンドエンコーダーを作成
+    const commandEncoder = this.device.createCommandEncoder({
+      label: `${fractalType} Command Encoder`,
+    });
+
+    const { outputBuffer, buffers } = this.encodeComputePass(
+      commandEncoder,
+      fractalType,
+      parameters,
+      width,
+      height,
+      precision,
+      smooth
+    );
+
+    // 読み取り用バッファを作成
+    const readBuffer = this.device.createBuffer({
+      label: 'Read Buffer',
+      size: outputSize,
+      usage: GPUBufferUsage.COPY_DST | GPUBufferUsage.MAP_READ,
+    });
+
     // 結果を読み取りバッファにコピー
     commandEncoder.copyBufferToBuffer(outputBuffer, 0, readBuffer, 0, outputSize);
 
@@ -411,27 +1254,169 @@ export class WebGPUEngine {
 
     // 結果を読み取り
     await readBuffer.mapAsync(GPUMapMode.READ);
-    const arrayBuffer = readBuffer.getMappedRange();
-    const results = new Uint32Array(arrayBuffer.slice(0));
+    // マップ解除後も使えるようにコピーしてから解除
+    const data = new Float32Array(readBuffer.getMappedRange().slice(0));
     readBuffer.unmap();
 
-    // 2D配列に変換
-    const iterationData: number[][] = [];
-    for (let y = 0; y < height; y++) {
-      const row: number[] = [];
-      for (let x = 0; x < width; x++) {
-        const value = results[y * width + x];
-        row.push(value !== undefined ? value : 0);
-      }
-      iterationData.push(row);
-    }
-
     // リソースをクリーンアップ
-    paramsBuffer.destroy();
-    outputBuffer.destroy();
+    for (const buffer of buffers) {
+      buffer.destroy();
+    }
     readBuffer.destroy();
 
-    return iterationData;
+    return { width, height, data };
+  }
+
+  /**
+   * 計算からパレット適用までGPU上で行い、キャンバスへ直接表示（CPUへの読み戻しなし）
+   * キャンバスの width/height がそのまま描画解像度になる
+   * colorPalette.smooth が有効な場合は小数の反復回数を計算し、着色パスで隣接色を補間する
+   * newtonRootCount を指定するとニュートン専用パレットの対応づけを使う
+   * nearLimit を指定すると、上限に達した画素と nearLimit 以上で脱出した画素をGPU上で数えて返す
+   */
+  async presentFractal(
+    canvas: HTMLCanvasElement,
+    fractalType: FractalType,
+    parameters: AllFractalParameters,
+    palette: number[][],
+    precision: GPUPrecision = 'f32',
+    colorPalette: Pick<ColorPalette, 'smooth'> = { smooth: false },
+    newtonRootCount = 0,
+    nearLimit: number | null = null
+  ): Promise<PresentedIterationCounts | null> {
+    if (!this.isInitialized || !this.device) {
+      throw new Error('WebGPU engine not initialized');
+    }
+    if (!this.colorizePipeline) {
+      this.createColorizePipeline();
+    }
+    if (!this.colorizePipeline || !this.colorizeBindGroupLayout) {
+      throw new Error('Colorize pipeline not available');
+    }
+
+    const { width, height } = canvas;
+    const context = this.getCanvasContext(canvas);
+
+    const commandEncoder = this.device.createCommandEncoder({
+      label: `${fractalType} Present Command Encoder`,
+    });
+
+    const { outputBuffer, buffers } = this.encodeComputePass(
+      commandEncoder,
+      fractalType,
+      parameters,
+      width,
+      height,
+      precision,
+      colorPalette.smooth
+    );
+
+    // 着色パラメータ（ニュートン専用パレットは根ごとの色セット数も渡す）
+    const totalColorSets = newtonRootCount >= 4 ? newtonRootCount + 1 : newtonRootCount;
+    const colorsPerSet = totalColorSets > 0 ? Math.floor(palette.length / totalColorSets) : 0;
+    const colorizeData = new Uint32Array([
+      width,
+      height,
+      parameters.iterations,
+      palette.length,
+      colorPalette.smooth ? 1 : 0,
+      newtonRootCount,
+      colorsPerSet,
+      0,
+    ]);
+    const colorizeBuffer = this.device.createBuffer({
+      label: 'Colorize Parameters Buffer',
+      size: COLORIZE_PARAMS_BUFFER_SIZE,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    });
+
+    // パレットは 0-1 に正規化した RGBA
+    const paletteData = new Float32Array(Math.max(1, palette.length) * 4);
+    palette.forEach((color, index) => {
+      paletteData[index * 4] = (color[0] ?? 0) / 255;
+      paletteData[index * 4 + 1] = (color[1] ?? 0) / 255;
+      paletteData[index * 4 + 2] = (color[2] ?? 0) / 255;
+      paletteData[index * 4 + 3] = (color[3] ?? 255) / 255;
+    });
+    const paletteBuffer = this.device.createBuffer({
+      label: 'Palette Buffer',
+      size: paletteData.byteLength,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+    });
+
+    this.device.queue.writeBuffer(colorizeBuffer, 0, colorizeData.buffer);
+    this.device.queue.writeBuffer(paletteBuffer, 0, paletteData.buffer);
+
+    const bindGroup = this.device.createBindGroup({
+      label: 'Colorize Bind Group',
+      layout: this.colorizeBindGroupLayout,
+      entries: [
+        {
+          binding: 0,
+          resource: { buffer: colorizeBuffer },
+        },
+        {
+          binding: 1,
+          resource: { buffer: outputBuffer },
+        },
+        {
+          binding: 2,
+          resource: { buffer: paletteBuffer },
+        },
+      ],
+    });
+
+    const renderPass = commandEncoder.beginRenderPass({
+      label: 'Colorize Render Pass',
+      colorAttachments: [
+        {
+          view: context.getCurrentTexture().createView(),
+          loadOp: 'clear',
+          storeOp: 'store',
+          clearValue: { r: 0, g: 0, b: 0, a: 1 },
+        },
+      ],
+    });
+    renderPass.setPipeline(this.colorizePipeline);
+    renderPass.setBindGroup(0, bindGroup);
+    renderPass.draw(3);
+    renderPass.end();
+
+    // 反復回数は読み戻さず、集計した2つの画素数だけを読み出す
+    const statistics =
+      nearLimit !== null
+        ? this.encodeStatisticsPass(
+            commandEncoder,
+            outputBuffer,
+            width * height,
+            parameters.iterations,
+            nearLimit
+          )
+        : null;
+
+    this.device.queue.submit([commandEncoder.finish()]);
+
+    let counts: PresentedIterationCounts | null = null;
+    if (statistics) {
+      await statistics.readBuffer.mapAsync(GPUMapMode.READ);
+      const [saturated = 0, nearLimitCount = 0] = new Uint32Array(
+        statistics.readBuffer.getMappedRange().slice(0)
+      );
+      statistics.readBuffer.unmap();
+      counts = { saturated, nearLimit: nearLimitCount };
+    }
+
+    // GPUの処理完了を待ってからリソースを解放（描画時間の計測も兼ねる）
+    await this.device.queue.onSubmittedWorkDone();
+    for (const buffer of [
+      ...buffers,
+      colorizeBuffer,
+      paletteBuffer,
+      ...(statistics?.buffers ?? []),
+    ]) {
+      buffer.destroy();
+    }
+    return counts;
   }
 
   /**
@@ -443,8 +1428,13 @@ export class WebGPUEngine {
       this.device = null;
     }
     this.adapter = null;
-    this.pipeline = null;
+    this.pipelines.clear();
     this.bindGroupLayout = null;
+    this.colorizePipeline = null;
+    this.colorizeBindGroupLayout = null;
+    this.statisticsPipeline = null;
+    this.statisticsBindGroupLayout = null;
+    this.canvasContexts = new WeakMap();
     this.isInitialized = false;
   }
 
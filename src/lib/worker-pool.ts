@@ -0,0 +1,401 @@
+import type { WorkerErrorPayload, WorkerPoolMessage } from '@/types/fractal';
+import { RenderCancellation } from './render-cancellation';
+
+/**
+ * Web Workerのプール
+ *
+ * タスクはキューに積み、手の空いたWorkerが1つずつ取り出して処理する（Workerごとに同時に1タスク）。
+ * Workerが異常終了したりタイムアウトしたりした場合は、そのタスクを失敗させてWorkerを作り直す。
+ * Workerは起動時に id が 'init' のメッセージを送り、タスクには同じ id の
+ * 'complete'（成功）か 'error'（失敗）で応答する。取り消したタスクには 'cancel' で応答するか、
+ * 計算済みの場合はその結果を返す。どちらかが届くまでは、中断したタスクの枠も使用中のままにする。
+ */
+
+export interface WorkerPoolOptions {
+  // Workerの生成（作り直しにも使う）
+  createWorker: () => Worker;
+  size: number;
+  // 1タスクの制限時間（ms）
+  taskTimeout?: number;
+  // 処理待ちのタスク数の上限（超えた分は空きが出るまで投入を待たせる）
+  maxQueueLength?: number;
+}
+
+export interface WorkerTask {
+  message: WorkerPoolMessage & { id: string };
+  transfer?: Transferable[];
+  // 中断時はタスクを取り消し、Workerが計算中の場合はその結果を破棄する
+  signal?: AbortSignal;
+}
+
+// キューに積まれたタスク
+interface QueuedTask<T> extends WorkerTask {
+  resolve: (result: T) => void;
+  reject: (error: unknown) => void;
+  // 計算中に中断された（Workerの応答は破棄する）
+  cancelled?: boolean;
+}
+
+// プールの1枠（Workerを作り直しても枠は引き継ぐ）
+interface WorkerSlot {
+  worker: Worker;
+  task: QueuedTask<unknown> | null;
+  timer: ReturnType<typeof setTimeout> | null;
+  // 縮小時に処理中だった枠は、タスク完了後に終了する
+  retiring: boolean;
+  // タスクに成功せず連続して作り直した回数
+  failures: number;
+  busyTime: number;
+  taskStart: number;
+}
+
+// 既定の制限時間・キュー長
+const DEFAULT_TASK_TIMEOUT = 60000;
+const DEFAULT_MAX_QUEUE_LENGTH = 4096;
+
+// Workerの起動待ちの上限（超えても枠には残す）
+const INIT_TIMEOUT = 2000;
+
+// 連続して作り直す上限（超えた枠は取り除く）
+const MAX_RESPAWNS = 3;
+
+/**
+ * Workerの応答からエラーを作成
+ */
+function toWorkerError(payload: unknown): Error {
+  const errorPayload = payload as WorkerErrorPayload | string | undefined;
+  const message =
+    typeof errorPayload === 'string'
+      ? errorPayload
+      : errorPayload?.error || 'Worker error occurred';
+  return new Error(message);
+}
+
+export class WorkerPool {
+  private slots: WorkerSlot[] = [];
+  private queue: QueuedTask<unknown>[] = [];
+  // キューが空くのを待っている投入
+  private waiting: (() => void)[] = [];
+  private startup: Promise<void>[] = [];
+  // 登録中の中断イベントのリスナー（タスクが完了・失敗したら外す）
+  private abortListeners = new Set<() => void>();
+  private disposed = false;
+  private readonly taskTimeout: number;
+  private readonly maxQueueLength: number;
+
+  constructor(private readonly options: WorkerPoolOptions) {
+    this.taskTimeout = options.taskTimeout ?? DEFAULT_TASK_TIMEOUT;
+    this.maxQueueLength = options.maxQueueLength ?? DEFAULT_MAX_QUEUE_LENGTH;
+    this.resize(options.size);
+  }
+
+  /**
+   * 起動したWorkerの初期化完了を待つ（起動に失敗した枠は取り除かれる）
+   */
+  async ready(): Promise<void> {
+    await Promise.allSettled(this.startup);
+  }
+
+  /**
+   * タスクを実行し、Workerの 'complete' メッセージを返す
+   */
+  async run<T>(task: WorkerTask): Promise<T> {
+    // 処理待ちが多すぎる場合は空きが出るまで待つ
+    while (!this.disposed && this.queue.length >= this.maxQueueLength) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+    if (this.disposed) {
+      throw new Error('Worker pool disposed');
+    }
+    RenderCancellation.throwIfAborted(task.signal);
+    if (this.slots.length === 0) {
+      throw new Error('No available workers');
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => this.abort(entry);
+      const release = () => {
+        task.signal?.removeEventListener('abort', onAbort);
+        this.abortListeners.delete(onAbort);
+      };
+      const queued: QueuedTask<T> = {
+        ...task,
+        resolve: (result) => {
+          release();
+          resolve(result);
+        },
+        reject: (error) => {
+          release();
+          reject(error);
+        },
+      };
+      const entry = queued as QueuedTask<unknown>;
+
+      if (task.signal) {
+        task.signal.addEventListener('abort', onAbort, { once: true });
+        this.abortListeners.add(onAbort);
+      }
+
+      this.queue.push(entry);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Worker数を変更（減らす場合、処理中の枠はタスク完了後に終了する）
+   */
+  resize(size: number): void {
+    if (this.disposed) return;
+    const target = Math.max(0, Math.floor(size));
+
+    let active = this.slots.filter((slot) => !slot.retiring).length;
+    while (active < target) {
+      this.addSlot();
+      active++;
+    }
+
+    // 空いている枠から先に減らす
+    const removable = [...this.slots].sort(
+      (a, b) => Number(a.task !== null) - Number(b.task !== null)
+    );
+    for (const slot of removable) {
+      if (active <= target) break;
+      if (slot.retiring) continue;
+      active--;
+      if (slot.task) {
+        slot.retiring = true;
+      } else {
+        this.removeSlot(slot);
+      }
+    }
+
+    this.dispatch();
+  }
+
+  /**
+   * プールを破棄し、処理待ち・処理中のタスクをすべて失敗させる
+   */
+  dispose(): void {
+    if (this.disposed) return;
+    this.disposed = true;
+
+    const error = new Error('Worker pool disposed');
+    for (const task of this.queue.splice(0)) {
+      task.reject(error);
+    }
+    for (const slot of this.slots) {
+      if (slot.timer) clearTimeout(slot.timer);
+      slot.task?.reject(error);
+      slot.task = null;
+      slot.worker.terminate();
+    }
+    this.slots = [];
+    this.releaseWaiting();
+  }
+
+  // 処理中のタスクがない枠も含めたWorker数（縮小待ちの枠は除く）
+  get size(): number {
+    return this.slots.filter((slot) => !slot.retiring).length;
+  }
+
+  // 処理待ちのタスク数（キューの空き待ちを含む）
+  get queueDepth(): number {
+    return this.queue.length + this.waiting.length;
+  }
+
+  // 登録中の中断イベントのリスナー数（処理待ち・処理中のタスクがなければ 0）
+  get abortListenerCount(): number {
+    return this.abortListeners.size;
+  }
+
+  // 各枠の累積処理時間（ms）
+  get busyTimes(): number[] {
+    const now = performance.now();
+    return this.slots.map((slot) => slot.busyTime + (slot.task ? now - slot.taskStart : 0));
+  }
+
+  private addSlot(): void {
+    const slot: WorkerSlot = {
+      worker: this.options.createWorker(),
+      task: null,
+      timer: null,
+      retiring: false,
+      failures: 0,
+      busyTime: 0,
+      taskStart: 0,
+    };
+    this.slots.push(slot);
+    this.startup.push(this.attach(slot));
+  }
+
+  /**
+   * Workerにイベントを登録し、初期化完了を待つ
+   */
+  private attach(slot: WorkerSlot): Promise<void> {
+    const { worker } = slot;
+
+    return new Promise<void>((resolve) => {
+      let initialized = false;
+      const initTimeout = setTimeout(() => {
+        if (!initialized) {
+          console.warn('⚠️ Worker 初期化タイムアウト');
+          resolve();
+        }
+      }, INIT_TIMEOUT);
+
+      worker.addEventListener('message', (event: MessageEvent<WorkerPoolMessage>) => {
+        if (event.data.id === 'init') {
+          if (!initialized) {
+            initialized = true;
+            clearTimeout(initTimeout);
+            resolve();
+          }
+          return;
+        }
+        this.handleMessage(slot, event.data);
+      });
+
+      worker.addEventListener('error', (event) => {
+        console.error('❌ Worker エラー:', event);
+        clearTimeout(initTimeout);
+        if (!initialized) {
+          // 起動できないWorkerは作り直さずに取り除く
+          initialized = true;
+          slot.task?.reject(new Error('Worker failed to start'));
+          slot.task = null;
+          this.removeSlot(slot);
+          this.dispatch();
+          resolve();
+          return;
+        }
+        this.respawn(slot, new Error('Worker crashed'));
+      });
+
+      worker.addEventListener('messageerror', () => {
+        this.respawn(slot, new Error('Worker message could not be deserialized'));
+      });
+    });
+  }
+
+  private handleMessage(slot: WorkerSlot, message: WorkerPoolMessage): void {
+    const task = slot.task;
+    if (!task || message.id !== task.message.id) return;
+    if (message.type !== 'complete' && message.type !== 'error' && message.type !== 'cancel') {
+      return;
+    }
+
+    this.finishTask(slot);
+    slot.failures = 0;
+    // 中断したタスクは既に失敗させているため、応答は枠を空けるためだけに使う
+    if (!task.cancelled) {
+      if (message.type === 'complete') {
+        task.resolve(message);
+      } else {
+        console.error('Worker error details:', message.payload);
+        task.reject(toWorkerError(message.payload));
+      }
+    }
+
+    if (slot.retiring) {
+      this.removeSlot(slot);
+    }
+    this.dispatch();
+  }
+
+  /**
+   * 空いている枠へ処理待ちのタスクを割り当てる
+   */
+  private dispatch(): void {
+    if (this.disposed) return;
+
+    for (const slot of this.slots) {
+      if (slot.task || slot.retiring) continue;
+      const task = this.queue.shift();
+      if (!task) break;
+
+      slot.task = task;
+      slot.taskStart = performance.now();
+      slot.timer = setTimeout(
+        () => this.respawn(slot, new Error('Worker task timed out')),
+        this.taskTimeout
+      );
+      slot.worker.postMessage(task.message, task.transfer ?? []);
+    }
+
+    this.releaseWaiting();
+  }
+
+  /**
+   * 中断されたタスクを取り消す
+   */
+  private abort(task: QueuedTask<unknown>): void {
+    const reason = task.signal?.reason ?? RenderCancellation.createAbortError();
+
+    const index = this.queue.indexOf(task);
+    if (index >= 0) {
+      this.queue.splice(index, 1);
+      task.reject(reason);
+      this.releaseWaiting();
+      return;
+    }
+
+    const slot = this.slots.find((candidate) => candidate.task === task);
+    if (slot && !task.cancelled) {
+      // Workerが計算中のまま次のタスクを送らないよう、'cancel' か計算済みの結果が届くまで枠は空けない
+      task.cancelled = true;
+      slot.worker.postMessage({ id: task.message.id, type: 'cancel', payload: {} });
+      task.reject(reason);
+    }
+  }
+
+  /**
+   * 異常終了・タイムアウトした枠のタスクを失敗させ、Workerを作り直す
+   */
+  private respawn(slot: WorkerSlot, error: Error): void {
+    if (this.disposed || !this.slots.includes(slot)) return;
+
+    const task = slot.task;
+    this.finishTask(slot);
+    task?.reject(error);
+    slot.worker.terminate();
+
+    slot.failures++;
+    if (slot.retiring || slot.failures > MAX_RESPAWNS) {
+      this.removeSlot(slot);
+    } else {
+      slot.worker = this.options.createWorker();
+      void this.attach(slot);
+    }
+    this.dispatch();
+  }
+
+  private finishTask(slot: WorkerSlot): void {
+    if (slot.timer) {
+      clearTimeout(slot.timer);
+      slot.timer = null;
+    }
+    if (slot.task) {
+      slot.busyTime += performance.now() - slot.taskStart;
+    }
+    slot.task = null;
+  }
+
+  private removeSlot(slot: WorkerSlot): void {
+    slot.worker.terminate();
+    this.slots = this.slots.filter((candidate) => candidate !== slot);
+
+    // 最後の枠がなくなった場合、処理待ちのタスクは実行できない
+    if (this.slots.length === 0) {
+      const error = new Error('No available workers');
+      for (const task of this.queue.splice(0)) {
+        task.reject(error);
+      }
+    }
+  }
+
+  private releaseWaiting(): void {
+    while (this.waiting.length > 0 && (this.disposed || this.queue.length < this.maxQueueLength)) {
+      this.waiting.shift()?.();
+    }
+  }
+}
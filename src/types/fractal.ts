@@ -7,6 +7,13 @@ export interface Complex {
   imag: number;
 }
 
+// 倍精度を超える中心座標・ズーム倍率（10進数文字列）
+export interface PreciseCoordinates {
+  centerX: string;
+  centerY: string;
+  zoom: string;
+}
+
 // フラクタルパラメータの基本型
 export interface FractalParameters {
   zoom: number;
@@ -14,6 +21,8 @@ export interface FractalParameters {
   centerY: number;
   iterations: number;
   escapeRadius: number;
+  // 数値と一致しない場合は古い値として無視される
+  precise?: PreciseCoordinates;
 }
 
 // Mandelbrot/Julia集合のパラメータ
@@ -34,9 +43,8 @@ export interface BurningShipParameters extends FractalParameters {
 // Newton フラクタルのパラメータ
 export interface NewtonParameters extends FractalParameters {
   type: 'newton';
-  polynomial: Complex[];
   tolerance: number;
-  roots: Complex[]; // 根の配列を追加
+  roots: Complex[]; // 多項式 f(z) = (z - root1)(z - root2)...(z - rootN) の根
 }
 
 // 全てのフラクタルパラメータの統合型
@@ -46,6 +54,24 @@ export type AllFractalParameters =
   | BurningShipParameters
   | NewtonParameters;
 
+// 画像のメタデータや共有URLに保存する表示状態
+export interface FractalViewState {
+  fractalType: FractalType;
+  parameters: AllFractalParameters;
+  paletteType: string;
+  smooth: boolean;
+}
+
+// 保存した表示（ブックマーク）
+export interface FractalBookmark extends FractalViewState {
+  id: string;
+  name: string;
+  // サムネイル画像（data URL）
+  thumbnail?: string;
+  // 作成日時（ms）
+  createdAt: number;
+}
+
 // カラーマッピングの種類
 export type ColorMapType = 'hot' | 'cool' | 'rainbow' | 'grayscale' | 'custom';
 
@@ -53,10 +79,27 @@ export type ColorMapType = 'hot' | 'cool' | 'rainbow' | 'grayscale' | 'custom';
 export interface ColorPalette {
   type: ColorMapType;
   colors: string[];
+  // 小数の反復回数に合わせて隣接色を補間する（CPU・GPU のすべてのパレット対応づけで参照する）
   smooth: boolean;
   cyclic: boolean;
 }
 
+// スーパーサンプリングのサンプル配置（grid: 各区画の中心、stratified: 各区画内のランダムな位置）
+export type SupersamplingPattern = 'grid' | 'stratified';
+
+// サンプルから画素の色を求めるフィルタ
+export type DownsamplingFilter = 'box' | 'gaussian' | 'lanczos';
+
+// アンチエイリアス設定
+export interface AntiAliasingSettings {
+  // 1画素あたり factor×factor 個のサンプル（1で無効、最大4）
+  factor: number;
+  pattern: SupersamplingPattern;
+  filter: DownsamplingFilter;
+  // 隣接画素と色の差が大きい画素だけをスーパーサンプリングする
+  adaptive: boolean;
+}
+
 // レンダリング設定
 export interface RenderSettings {
   width: number;
@@ -65,16 +108,23 @@ export interface RenderSettings {
   useMultiThread: boolean;
   workerCount: number;
   tileSize: number;
-  antiAliasing: boolean;
+  antiAliasing: AntiAliasingSettings;
   colorPalette: ColorPalette;
 }
 
+// 反復回数バッファ（行優先の1次元配列。Worker間では転送して受け渡す）
+export interface IterationBuffer {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
 // レンダリング結果
 export interface RenderResult {
   imageData: ImageData;
   renderTime: number;
-  iterations: number[][];
-  convergenceData?: number[][];
+  iterations: IterationBuffer;
+  convergenceData?: IterationBuffer;
 }
 
 // パフォーマンス統計
@@ -115,7 +165,7 @@ export interface WorkerErrorPayload {
 }
 
 // タブID型（MobileBottomSheet用）
-export type TabId = 'params' | 'settings' | 'info';
+export type TabId = 'params' | 'settings' | 'bookmarks' | 'info';
 
 // WorkerPool用の基本メッセージ型
 export interface WorkerPoolMessage {
@@ -165,14 +215,16 @@ export interface FractalError {
   details?: unknown;
 }
 
-// 設定の永続化用
-export interface FractalConfig {
-  fractalType: FractalType;
-  parameters: AllFractalParameters;
-  renderSettings: RenderSettings;
-  bookmarks: Array<{
-    name: string;
-    parameters: AllFractalParameters;
-    thumbnail?: string;
-  }>;
+// 永続化するレンダリング設定（workerCount は 0 で既定の数）
+export interface PersistedRenderSettings
+  extends Pick<
+    RenderSettings,
+    'width' | 'height' | 'useWebGPU' | 'useMultiThread' | 'workerCount' | 'antiAliasing'
+  > {
+  autoIterations: boolean;
+}
+
+// 設定の永続化用（ブックマークは件数が増えるため BookmarkStore に別に保存する）
+export interface FractalConfig extends FractalViewState {
+  renderSettings: PersistedRenderSettings;
 }
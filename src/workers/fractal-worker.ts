@@ -1,8 +1,14 @@
+import { InteriorDetection } from '@/lib/interior-detection';
+import { IterationBuffers } from '@/lib/iteration-buffer';
+import { Perturbation, type PerturbationData } from '@/lib/perturbation';
+import { ProgressiveSampling, type SamplingPattern } from '@/lib/progressive-sampling';
+import { SmoothColoring } from '@/lib/smooth-coloring';
 import type {
   AllFractalParameters,
   BurningShipParameters,
   Complex,
   FractalType,
+  IterationBuffer,
   JuliaParameters,
   MandelbrotParameters,
   NewtonParameters,
@@ -10,7 +16,7 @@ import type {
 
 export interface WorkerMessage {
   id: string;
-  type: 'render' | 'progress' | 'complete' | 'error';
+  type: 'render' | 'cancel' | 'progress' | 'complete' | 'error';
   payload: unknown;
 }
 
@@ -26,9 +32,31 @@ export interface RenderMessage extends WorkerMessage {
     tileWidth: number;
     tileHeight: number;
     paletteType?: string;
+    // 正規化反復回数によるスムーズカラーリング
+    smooth?: boolean;
+    // 深いズーム時の摂動計算用データ（画面中心が参照点）
+    perturbation?: PerturbationData;
+    // 画面全体の共有バッファ（指定時はタイルを直接書き込み、結果は返さない）
+    shared?: SharedTileBuffers;
+    // 段階的レンダリングで計算する点の格子（省略時は全画素）
+    sampling?: SamplingPattern;
   };
 }
 
+export interface SharedTileBuffers {
+  // RGBA（width * height * 4 バイト）
+  pixels: SharedArrayBuffer;
+  // 反復回数の f32（width * height 要素）
+  iterations: SharedArrayBuffer;
+}
+
+// id が一致する処理待ちのタイルを取り消し、同じメッセージで応答する
+// （処理中のタイルは最後まで計算され、取り消しの応答の代わりに結果が届く）
+export interface CancelMessage extends WorkerMessage {
+  type: 'cancel';
+  payload: Record<string, never>;
+}
+
 export interface ProgressMessage extends WorkerMessage {
   type: 'progress';
   payload: {
@@ -40,8 +68,10 @@ export interface ProgressMessage extends WorkerMessage {
 export interface CompleteMessage extends WorkerMessage {
   type: 'complete';
   payload: {
-    imageData: ImageData;
-    iterationData: number[][];
+    // 画素・反復回数のバッファは複製せずメインスレッドへ転送する
+    // 共有バッファに書き込んだ場合は省略される
+    imageData?: ImageData;
+    iterationData?: IterationBuffer;
     renderTime: number;
     tileX: number;
     tileY: number;
@@ -63,20 +93,20 @@ function calculateMandelbrotPoint(
   real: number,
   imaginary: number,
   maxIterations: number,
-  escapeRadius: number
+  escapeRadius: number,
+  smooth: boolean
 ): number {
-  let zx = 0;
-  let zy = 0;
-  let iteration = 0;
-
-  while (zx * zx + zy * zy <= escapeRadius && iteration < maxIterations) {
-    const temp = zx * zx - zy * zy + real;
-    zy = 2 * zx * zy + imaginary;
-    zx = temp;
-    iteration++;
-  }
-
-  return iteration;
+  // 内部の点は周期を検出した時点で打ち切る
+  const { iteration, magnitudeSquared } = InteriorDetection.mandelbrot(
+    real,
+    imaginary,
+    maxIterations,
+    escapeRadius
+  );
+
+  return smooth
+    ? SmoothColoring.iterationCount(iteration, magnitudeSquared, maxIterations)
+    : iteration;
 }
 
 function calculateJuliaPoint(
@@ -84,7 +114,8 @@ function calculateJuliaPoint(
   imaginary: number,
   c: Complex,
   maxIterations: number,
-  escapeRadius: number
+  escapeRadius: number,
+  smooth: boolean
 ): number {
   let zx = real;
   let zy = imaginary;
@@ -97,14 +128,17 @@ function calculateJuliaPoint(
     iteration++;
   }
 
-  return iteration;
+  return smooth
+    ? SmoothColoring.iterationCount(iteration, zx * zx + zy * zy, maxIterations)
+    : iteration;
 }
 
 function calculateBurningShipPoint(
   real: number,
   imaginary: number,
   maxIterations: number,
-  escapeRadius: number
+  escapeRadius: number,
+  smooth: boolean
 ): number {
   let zx = 0;
   let zy = 0;
@@ -117,7 +151,9 @@ function calculateBurningShipPoint(
     iteration++;
   }
 
-  return iteration;
+  return smooth
+    ? SmoothColoring.iterationCount(iteration, zx * zx + zy * zy, maxIterations)
+    : iteration;
 }
 
 function calculateNewtonPoint(
@@ -267,23 +303,41 @@ function renderTile(message: RenderMessage): CompleteMessage {
     tileWidth,
     tileHeight,
     paletteType = 'mandelbrot',
+    smooth = false,
+    perturbation,
+    shared,
+    sampling = ProgressiveSampling.fullResolution,
   } = message.payload;
   const startTime = performance.now();
 
-  const iterationData: number[][] = [];
-  const imageData = new ImageData(tileWidth, tileHeight);
-  const data = imageData.data;
+  // 共有バッファがあれば画面全体の座標系で直接書き込む
+  let imageData: ImageData | undefined;
+  let iterationData: IterationBuffer | undefined;
+  let data: Uint8ClampedArray;
+  let iterationValues: Float32Array;
+  if (shared) {
+    data = new Uint8ClampedArray(shared.pixels);
+    iterationValues = new Float32Array(shared.iterations);
+  } else {
+    imageData = new ImageData(tileWidth, tileHeight);
+    iterationData = IterationBuffers.create(tileWidth, tileHeight);
+    data = imageData.data;
+    iterationValues = iterationData.data;
+  }
+  const stride = shared ? width : tileWidth;
+  const originX = shared ? tileX : 0;
+  const originY = shared ? tileY : 0;
 
   // カラーパレットを生成
   const rootCount =
     fractalType === 'newton' ? (parameters as NewtonParameters)?.roots?.length || 3 : undefined;
   const palette = generatePalette(paletteType, 256, rootCount);
 
-  for (let y = 0; y < tileHeight; y++) {
-    const row: number[] = [];
+  for (let y = ProgressiveSampling.firstRow(tileY, sampling); y < tileHeight; y += sampling.step) {
     const globalY = tileY + y;
+    const columns = ProgressiveSampling.columns(globalY, tileX, sampling);
 
-    for (let x = 0; x < tileWidth; x++) {
+    for (let x = columns.start; x < tileWidth; x += columns.stride) {
       const globalX = tileX + x;
 
       let iterations: number;
@@ -299,12 +353,22 @@ function renderTile(message: RenderMessage): CompleteMessage {
             mandelbrotParams.centerX + ((globalX - width / 2) * scale * aspectRatio) / width;
           const imaginary = mandelbrotParams.centerY + ((globalY - height / 2) * scale) / height;
 
-          iterations = calculateMandelbrotPoint(
-            real,
-            imaginary,
-            mandelbrotParams.iterations,
-            mandelbrotParams.escapeRadius
-          );
+          iterations = perturbation
+            ? Perturbation.iteratePixel(
+                perturbation,
+                ((globalX - width / 2) * scale * aspectRatio) / width,
+                ((globalY - height / 2) * scale) / height,
+                mandelbrotParams.iterations,
+                mandelbrotParams.escapeRadius,
+                smooth
+              )
+            : calculateMandelbrotPoint(
+                real,
+                imaginary,
+                mandelbrotParams.iterations,
+                mandelbrotParams.escapeRadius,
+                smooth
+              );
           colorValue = iterations;
           break;
         }
@@ -321,7 +385,8 @@ function renderTile(message: RenderMessage): CompleteMessage {
             imaginary,
             juliaParams.c,
             juliaParams.iterations,
-            juliaParams.escapeRadius
+            juliaParams.escapeRadius,
+            smooth
           );
           colorValue = iterations;
           break;
@@ -335,12 +400,22 @@ function renderTile(message: RenderMessage): CompleteMessage {
             burningShipParams.centerX + ((globalX - width / 2) * scale * aspectRatio) / width;
           const imaginary = burningShipParams.centerY + ((globalY - height / 2) * scale) / height;
 
-          iterations = calculateBurningShipPoint(
-            real,
-            imaginary,
-            burningShipParams.iterations,
-            burningShipParams.escapeRadius
-          );
+          iterations = perturbation
+            ? Perturbation.iteratePixel(
+                perturbation,
+                ((globalX - width / 2) * scale * aspectRatio) / width,
+                ((globalY - height / 2) * scale) / height,
+                burningShipParams.iterations,
+                burningShipParams.escapeRadius,
+                smooth
+              )
+            : calculateBurningShipPoint(
+                real,
+                imaginary,
+                burningShipParams.iterations,
+                burningShipParams.escapeRadius,
+                smooth
+              );
           colorValue = iterations;
           break;
         }
@@ -375,10 +450,11 @@ function renderTile(message: RenderMessage): CompleteMessage {
           throw new Error(`Unsupported fractal type: ${fractalType}`);
       }
 
-      row.push(colorValue);
+      const bufferIndex = (originY + y) * stride + originX + x;
+      iterationValues[bufferIndex] = colorValue;
 
       // カラーを設定
-      const pixelIndex = (y * tileWidth + x) * 4;
+      const pixelIndex = bufferIndex * 4;
 
       let maxIterations: number;
       switch (fractalType) {
@@ -406,9 +482,6 @@ function renderTile(message: RenderMessage): CompleteMessage {
         data[pixelIndex + 3] = 255;
       } else {
         // カラーパレットから色を取得
-        let colorIndex: number;
-        let color: number[];
-
         if (fractalType === 'newton' && paletteType === 'newton') {
           // ニュートンフラクタル専用のカラーマッピング（newtonパレット選択時のみ）
           const newtonParams = parameters as NewtonParameters;
@@ -420,42 +493,48 @@ function renderTile(message: RenderMessage): CompleteMessage {
           // 根のインデックスと反復回数を分離
           const rootIndex = Math.floor(colorValue / 100);
           const iterationsInColor = colorValue % 100;
+          const iterationOffset =
+            (iterationsInColor / maxIterations) * Math.max(1, colorsPerSet - 1);
 
           if (rootIndex >= 0 && rootIndex < rootCount) {
             // 通常の根の色（RGB色相パレット）
             const colorSetOffset = rootIndex * colorsPerSet;
-            const iterationOffset = Math.floor(
-              (iterationsInColor / maxIterations) * Math.max(1, colorsPerSet - 1)
+            SmoothColoring.writeColor(
+              data,
+              pixelIndex,
+              palette,
+              colorSetOffset + iterationOffset,
+              smooth,
+              colorSetOffset + colorsPerSet - 1
             );
-            colorIndex = colorSetOffset + iterationOffset;
           } else if (useExtendedPalette && rootIndex >= rootCount) {
             // 4以上の根の場合、グレーパレットを使用
             const graySetOffset = rootCount * colorsPerSet;
-            const iterationOffset = Math.floor(
-              (iterationsInColor / maxIterations) * Math.max(1, colorsPerSet - 1)
+            SmoothColoring.writeColor(
+              data,
+              pixelIndex,
+              palette,
+              graySetOffset + iterationOffset,
+              smooth,
+              graySetOffset + colorsPerSet - 1
             );
-            colorIndex = graySetOffset + iterationOffset;
           } else {
             // デフォルト（黒）
-            colorIndex = 0;
+            SmoothColoring.writeColor(data, pixelIndex, palette, 0, false);
           }
-
-          color = palette[Math.max(0, Math.min(colorIndex, palette.length - 1))] || [0, 0, 0, 255];
         } else {
           // 標準カラーマッピング（他のフラクタル、またはニュートンでも他のパレット選択時）
-          colorIndex = Math.floor((colorValue / maxIterations) * (palette.length - 1));
-          color = palette[Math.max(0, Math.min(colorIndex, palette.length - 1))] || [0, 0, 0, 255];
+          SmoothColoring.writeColor(
+            data,
+            pixelIndex,
+            palette,
+            (colorValue / maxIterations) * (palette.length - 1),
+            smooth
+          );
         }
-
-        data[pixelIndex] = color[0] || 0; // R
-        data[pixelIndex + 1] = color[1] || 0; // G
-        data[pixelIndex + 2] = color[2] || 0; // B
-        data[pixelIndex + 3] = color[3] || 255; // A
       }
     }
 
-    iterationData.push(row);
-
     // プログレス報告（10行ごと）
     if (y % 10 === 0) {
       const progress = y / tileHeight;
@@ -476,8 +555,7 @@ function renderTile(message: RenderMessage): CompleteMessage {
     id: message.id,
     type: 'complete',
     payload: {
-      imageData,
-      iterationData,
+      ...(imageData && iterationData ? { imageData, iterationData } : {}),
       renderTime,
       tileX,
       tileY,
@@ -727,49 +805,89 @@ function hslToRgb(h: number, s: number, l: number): [number, number, number] {
   return [Math.round(r * 255), Math.round(g * 255), Math.round(b * 255)];
 }
 
+function postError(id: string, error: unknown): void {
+  console.error('Worker error:', error);
+
+  let errorMessage = 'Unknown error';
+  if (error instanceof Error) {
+    errorMessage = `${error.name}: ${error.message}`;
+    if (error.stack) {
+      console.error('Error stack:', error.stack);
+      errorMessage += `\nStack: ${error.stack}`;
+    }
+  } else {
+    errorMessage = String(error);
+  }
+
+  self.postMessage({
+    id,
+    type: 'error',
+    payload: {
+      error: errorMessage,
+    },
+  } satisfies ErrorMessage);
+}
+
+// 処理待ちのタイル
+// 受信してすぐに計算すると後から届く cancel を処理できないため、1タイルずつ順に処理する
+const pendingRenders: RenderMessage[] = [];
+const renderScheduler = new MessageChannel();
+let renderScheduled = false;
+
+function scheduleNextRender(): void {
+  if (renderScheduled || pendingRenders.length === 0) return;
+  renderScheduled = true;
+  renderScheduler.port2.postMessage(null);
+}
+
+renderScheduler.port1.onmessage = () => {
+  renderScheduled = false;
+  const renderMessage = pendingRenders.shift();
+  if (!renderMessage) return;
+
+  try {
+    const result = renderTile(renderMessage);
+    const { imageData, iterationData } = result.payload;
+    self.postMessage(result, {
+      transfer:
+        imageData && iterationData ? [imageData.data.buffer, iterationData.data.buffer] : [],
+    });
+  } catch (error) {
+    postError(renderMessage.id, error);
+  }
+
+  // タイルの合間に届いたメッセージを先に処理させる
+  scheduleNextRender();
+};
+
 // Worker メッセージハンドラー
 self.addEventListener('message', (event: MessageEvent<WorkerMessage>) => {
   const message = event.data;
 
-  try {
-    switch (message.type) {
-      case 'render': {
-        const renderMessage = message as RenderMessage;
-        const result = renderTile(renderMessage);
-        self.postMessage(result);
-        break;
-      }
+  switch (message.type) {
+    case 'render':
+      pendingRenders.push(message as RenderMessage);
+      scheduleNextRender();
+      break;
 
-      default:
-        self.postMessage({
-          id: message.id,
-          type: 'error',
-          payload: {
-            error: `Unknown message type: ${message.type}`,
-          },
-        } satisfies ErrorMessage);
-    }
-  } catch (error) {
-    console.error('Worker error:', error);
-
-    let errorMessage = 'Unknown error';
-    if (error instanceof Error) {
-      errorMessage = `${error.name}: ${error.message}`;
-      if (error.stack) {
-        console.error('Error stack:', error.stack);
-        errorMessage += `\nStack: ${error.stack}`;
+    case 'cancel': {
+      // 呼び出し側は応答が届くまでこのWorkerに次のタイルを送らない
+      const index = pendingRenders.findIndex((pending) => pending.id === message.id);
+      if (index !== -1) {
+        pendingRenders.splice(index, 1);
+        self.postMessage({ id: message.id, type: 'cancel', payload: {} } satisfies CancelMessage);
       }
-    } else {
-      errorMessage = String(error);
+      break;
     }
 
-    self.postMessage({
-      id: message.id,
-      type: 'error',
-      payload: {
-        error: errorMessage,
-      },
-    } satisfies ErrorMessage);
+    default:
+      self.postMessage({
+        id: message.id,
+        type: 'error',
+        payload: {
+          error: `Unknown message type: ${message.type}`,
+        },
+      } satisfies ErrorMessage);
   }
 });
 